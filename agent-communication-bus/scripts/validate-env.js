@@ -40,7 +40,6 @@ const recommendedVars = [
   'AGENT_BUS_MESSAGE_TIMEOUT',
   'AGENT_BUS_PERSISTENCE_ENABLED',
   'AGENT_BUS_ENCRYPTION_ENABLED',
-  'AGENT_API_KEY',
   'POSTGRES_USER',
   'POSTGRES_PASSWORD',
   'POSTGRES_DB'
@@ -136,6 +135,10 @@ function checkPlaceholder(name) {
 
 ['AGENT_BUS_API_KEY', 'AGENT_API_KEY'].forEach(checkPlaceholder);
 
+if (getVar('AGENT_API_KEY') && getVar('AGENT_API_KEY') === getVar('AGENT_BUS_API_KEY')) {
+  errors.push('AGENT_API_KEY must differ from AGENT_BUS_API_KEY');
+}
+
 if (errors.length) {
   console.error('Environment validation failed:');
   errors.forEach(err => console.error(`  - ${err}`));
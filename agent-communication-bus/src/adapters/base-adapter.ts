@@ -1,11 +1,18 @@
 import { EventEmitter } from 'events';
+import { ChildProcess } from 'child_process';
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
 import WebSocket from 'ws';
 import {
   AgentMessage,
   AgentDescriptor,
-  AgentRegistration
+  AgentRegistration,
+  DeliveryFrame
 } from '../types/protocol';
 
+const MAX_TRACKED_MESSAGE_IDS = 1000;
+const PROCESS_KILL_GRACE_PERIOD = 5000;
+
 export abstract class BaseAdapter extends EventEmitter {
   protected agentId: string;
   protected busUrl: string;
@@ -15,6 +22,16 @@ export abstract class BaseAdapter extends EventEmitter {
   protected reconnectAttempts: number = 0;
   protected maxReconnectAttempts: number = 5;
   protected reconnectDelay: number = 5000;
+  protected heartbeatInterval: number = 30000;
+  protected busApiKey: string | undefined = process.env.AGENT_BUS_API_KEY;
+  // Without AGENT_API_KEY each adapter registers with a key of its own
+  protected agentCredentials: string = process.env.AGENT_API_KEY || uuidv4();
+  private heartbeatTimer: NodeJS.Timeout | undefined;
+  private shuttingDown: boolean = false;
+  private inFlightMessageIds: Set<string> = new Set();
+  private processedMessageIds: Set<string> = new Set();
+  private taskMessageIds: Map<string, string> = new Map();
+  private cancelledMessageIds: Set<string> = new Set();
 
   constructor(
     agentId: string,
@@ -27,12 +44,27 @@ export abstract class BaseAdapter extends EventEmitter {
     this.descriptor = descriptor;
   }
 
+  /**
+   * Set the bus-wide API key used for HTTP calls such as registration
+   */
+  setBusApiKey(apiKey: string | undefined): void {
+    this.busApiKey = apiKey;
+  }
+
+  /**
+   * Set the agent's own API key, registered with the bus and presented on connect
+   */
+  setAgentCredentials(apiKey: string): void {
+    this.agentCredentials = apiKey;
+  }
+
   /**
    * Initialize adapter and connect to communication bus
    */
   async initialize(): Promise<void> {
-    await this.connectToBus();
+    // The bus only accepts connections from agents it has credentials for
     await this.registerAgent();
+    await this.connectToBus();
   }
 
   /**
@@ -42,11 +74,22 @@ export abstract class BaseAdapter extends EventEmitter {
     return new Promise((resolve, reject) => {
       const wsUrl = this.busUrl.replace('http', 'ws') + `?agent_id=${this.agentId}`;
       
-      this.ws = new WebSocket(wsUrl);
+      this.ws = new WebSocket(wsUrl, {
+        headers: { 'x-agent-api-key': this.agentCredentials }
+      });
+
+      // Connection timeout
+      const connectTimer = setTimeout(() => {
+        if (!this.isConnected) {
+          reject(new Error('Connection timeout'));
+        }
+      }, 10000);
 
       this.ws.on('open', () => {
+        clearTimeout(connectTimer);
         this.isConnected = true;
         this.reconnectAttempts = 0;
+        this.startHeartbeat();
         this.log('Connected to communication bus');
         resolve();
       });
@@ -54,16 +97,20 @@ export abstract class BaseAdapter extends EventEmitter {
       this.ws.on('message', (data: WebSocket.Data) => {
         try {
           const message: AgentMessage = JSON.parse(data.toString());
-          this.handleMessage(message);
+          this.dispatchMessage(message);
         } catch (error) {
           this.log(`Error parsing message: ${(error as Error).message}`);
         }
       });
 
       this.ws.on('close', () => {
+        clearTimeout(connectTimer);
         this.isConnected = false;
+        this.stopHeartbeat();
         this.log('Disconnected from communication bus');
-        this.handleReconnect();
+        if (!this.shuttingDown) {
+          this.handleReconnect();
+        }
       });
 
       this.ws.on('error', (error) => {
@@ -72,13 +119,6 @@ export abstract class BaseAdapter extends EventEmitter {
           reject(error);
         }
       });
-
-      // Connection timeout
-      setTimeout(() => {
-        if (!this.isConnected) {
-          reject(new Error('Connection timeout'));
-        }
-      }, 10000);
     });
   }
 
@@ -91,7 +131,7 @@ export abstract class BaseAdapter extends EventEmitter {
       health_check_url: `http://localhost:3000/health/${this.agentId}`,
       authentication: {
         type: 'api_key',
-        credentials: process.env.AGENT_API_KEY || 'default-key'
+        credentials: this.agentCredentials
       }
     };
 
@@ -110,11 +150,146 @@ export abstract class BaseAdapter extends EventEmitter {
     this.log(`Agent registered successfully: ${this.agentId}`);
   }
 
+  /**
+   * Acknowledge a message as soon as it arrives and run the handler at most
+   * once per message_id. The ack only confirms receipt: handlers may run far
+   * longer than the bus ackTimeout and report their outcome with a
+   * task_response or error message. Redeliveries, whether the message is
+   * still being handled or already done, are re-acknowledged without running
+   * the handler again. Cancel messages never reach the handler: they stop the
+   * task they name.
+   */
+  private async dispatchMessage(message: AgentMessage): Promise<void> {
+    const messageId = message.message_id;
+    this.sendDeliveryFrame('ack', messageId);
+
+    if (this.inFlightMessageIds.has(messageId) || this.processedMessageIds.has(messageId)) {
+      this.log(`Duplicate message ${messageId} skipped`);
+      return;
+    }
+
+    this.inFlightMessageIds.add(messageId);
+    try {
+      if (message.message_type === 'cancel') {
+        this.handleCancel(message);
+      } else {
+        await this.handleMessage(message);
+      }
+    } catch (error) {
+      this.log(`Error handling message ${messageId}: ${(error as Error).message}`);
+    } finally {
+      this.inFlightMessageIds.delete(messageId);
+      this.rememberProcessed(messageId);
+    }
+  }
+
+  private rememberProcessed(messageId: string): void {
+    this.processedMessageIds.add(messageId);
+
+    // Sets iterate in insertion order, so the first entry is the oldest
+    if (this.processedMessageIds.size > MAX_TRACKED_MESSAGE_IDS) {
+      const oldest = this.processedMessageIds.values().next().value;
+      if (oldest !== undefined) {
+        this.processedMessageIds.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Send an ack/nack frame for a message received from the bus
+   */
+  private sendDeliveryFrame(frameType: DeliveryFrame['frame_type'], messageId: string, reason?: string): void {
+    if (!this.isConnected || !this.ws) {
+      return;
+    }
+
+    const frame: DeliveryFrame = {
+      frame_type: frameType,
+      message_id: messageId,
+      agent_id: this.agentId,
+      ...(reason !== undefined && { reason })
+    };
+
+    try {
+      this.ws.send(JSON.stringify(frame));
+    } catch (error) {
+      this.log(`Error sending ${frameType}: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Handle incoming messages (to be implemented by subclasses)
    */
   protected abstract handleMessage(message: AgentMessage): Promise<void>;
 
+  /**
+   * Wait for a task request's outcome and report it, unless the bus
+   * cancelled the task meanwhile. Until then the task is known by its bus
+   * task ID, so a cancel message can find it.
+   */
+  protected async runTask(
+    message: AgentMessage,
+    task: Promise<any>,
+    onSuccess: (result: any) => Promise<void>,
+    onError: (error: Error) => Promise<void>
+  ): Promise<void> {
+    const messageId = message.message_id;
+    const taskId = this.getTaskId(message);
+    if (taskId) {
+      this.taskMessageIds.set(taskId, messageId);
+    }
+
+    try {
+      const result = await task;
+      if (!this.cancelledMessageIds.has(messageId)) {
+        await onSuccess(result);
+      }
+    } catch (error) {
+      if (!this.cancelledMessageIds.has(messageId)) {
+        await onError(error as Error);
+      }
+    } finally {
+      this.cancelledMessageIds.delete(messageId);
+      if (taskId) {
+        this.taskMessageIds.delete(taskId);
+      }
+    }
+  }
+
+  /**
+   * Stop a task the bus cancelled: drop it from the queue, or stop it while
+   * it runs and discard its outcome
+   */
+  private handleCancel(message: AgentMessage): void {
+    const taskId = this.getTaskId(message);
+    if (taskId && this.dropQueuedTask(taskId)) {
+      this.log(`Cancelled queued task ${taskId}`);
+      return;
+    }
+
+    const messageId = taskId ? this.taskMessageIds.get(taskId) : undefined;
+    if (!messageId) {
+      this.log(`No running task ${taskId} to cancel`);
+      return;
+    }
+
+    this.cancelledMessageIds.add(messageId);
+    this.stopTask(messageId);
+    this.log(`Cancelled task ${taskId}`);
+  }
+
+  /**
+   * Remove a task waiting for a free slot; returns false when none is queued
+   */
+  protected dropQueuedTask(_taskId: string): boolean {
+    return false;
+  }
+
+  /**
+   * Stop the work of a running task, identified by its request's message ID
+   */
+  protected stopTask(_messageId: string): void {}
+
   /**
    * Send message to communication bus
    */
@@ -132,6 +307,32 @@ export abstract class BaseAdapter extends EventEmitter {
     }
   }
 
+  /**
+   * Bus task ID a task request or cancel message refers to
+   */
+  protected getTaskId(message: AgentMessage): string | undefined {
+    return message.metadata?.task_id ?? message.payload?.task_id;
+  }
+
+  /**
+   * Ask a spawned CLI process to exit, killing it if it is still running
+   * after a grace period
+   */
+  protected terminateProcess(childProcess: ChildProcess): void {
+    if (childProcess.exitCode !== null || childProcess.signalCode !== null) {
+      return;
+    }
+
+    childProcess.kill('SIGTERM');
+    const forceKill = setTimeout(() => {
+      if (childProcess.exitCode === null && childProcess.signalCode === null) {
+        childProcess.kill('SIGKILL');
+      }
+    }, PROCESS_KILL_GRACE_PERIOD);
+    forceKill.unref();
+    childProcess.once('exit', () => clearTimeout(forceKill));
+  }
+
   /**
    * Generate unique message ID
    */
@@ -139,6 +340,54 @@ export abstract class BaseAdapter extends EventEmitter {
     return `msg_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
   }
 
+  /**
+   * Send periodic heartbeats so the bus can track connection liveness
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      const heartbeat: AgentMessage = {
+        message_id: this.generateMessageId(),
+        timestamp: new Date().toISOString(),
+        sender: {
+          agent_id: this.agentId,
+          framework: this.descriptor.framework
+        },
+        recipient: {
+          agent_id: 'communication-bus',
+          framework: 'communication-bus'
+        },
+        message_type: 'heartbeat',
+        priority: 'low',
+        payload: {
+          resource_usage: {
+            cpu: os.loadavg()[0],
+            memory: process.memoryUsage().rss
+          }
+        },
+        routing: {
+          timeout: '30s',
+          retry_policy: {
+            max_retries: 0,
+            backoff: 'linear'
+          },
+          delivery_mode: 'async'
+        }
+      };
+
+      this.sendMessage(heartbeat).catch(error => {
+        this.log(`Error sending heartbeat: ${(error as Error).message}`);
+      });
+    }, this.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
   /**
    * Handle reconnection logic
    */
@@ -148,7 +397,7 @@ export abstract class BaseAdapter extends EventEmitter {
       this.log(`Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})...`);
       
       setTimeout(() => {
-        this.connectToBus().catch(error => {
+        this.reconnect().catch(error => {
           this.log(`Reconnection failed: ${error.message}`);
         });
       }, this.reconnectDelay);
@@ -158,6 +407,23 @@ export abstract class BaseAdapter extends EventEmitter {
     }
   }
 
+  /**
+   * A restarted bus has forgotten the agent and refuses its connection, so
+   * register again first. A bus that still knows the agent rejects the
+   * registration, which is harmless.
+   */
+  private async reconnect(): Promise<void> {
+    if (this.shuttingDown) {
+      return;
+    }
+    try {
+      await this.registerAgent();
+    } catch (error) {
+      this.log(`Re-registration skipped: ${(error as Error).message}`);
+    }
+    await this.connectToBus();
+  }
+
   /**
    * Make HTTP request to communication bus
    */
@@ -166,7 +432,11 @@ export abstract class BaseAdapter extends EventEmitter {
     options: RequestInit
   ): Promise<any> {
     try {
-      const response = await fetch(`${this.busUrl}${endpoint}`, options);
+      const headers = new Headers(options.headers);
+      if (this.busApiKey && !headers.has('x-agent-api-key')) {
+        headers.set('x-agent-api-key', this.busApiKey);
+      }
+      const response = await fetch(`${this.busUrl}${endpoint}`, { ...options, headers });
       const data: any = await response.json();
       
       if (!response.ok) {
@@ -201,6 +471,11 @@ export abstract class BaseAdapter extends EventEmitter {
   async shutdown(): Promise<void> {
     this.log('Shutting down adapter...');
     
+    this.shuttingDown = true;
+    this.stopHeartbeat();
+    this.taskMessageIds.clear();
+    this.cancelledMessageIds.clear();
+
     if (this.ws) {
       this.ws.close();
     }
@@ -107,16 +107,44 @@ export class ClaudeCodeAdapter extends BaseAdapter {
     this.activeTasks.set(message.message_id, taskPromise);
 
     try {
-      const result = await taskPromise;
-      await this.sendSuccessResponse(message, result);
-    } catch (error) {
-      await this.sendErrorResponse(message, error as Error);
+      await this.runTask(
+        message,
+        taskPromise,
+        result => this.sendSuccessResponse(message, result),
+        error => this.sendErrorResponse(message, error)
+      );
     } finally {
       this.activeTasks.delete(message.message_id);
+      this.claudeProcesses.delete(message.message_id);
       this.processQueue();
     }
   }
 
+  /**
+   * Drop a cancelled task that is still waiting for a free slot
+   */
+  protected dropQueuedTask(taskId: string): boolean {
+    const queuedIndex = this.taskQueue.findIndex(entry => this.getTaskId(entry.message) === taskId);
+    if (queuedIndex === -1) {
+      return false;
+    }
+    this.taskQueue.splice(queuedIndex, 1);
+    return true;
+  }
+
+  /**
+   * Kill the process of a cancelled task and free its slot for the next
+   * queued task
+   */
+  protected stopTask(messageId: string): void {
+    const childProcess = this.claudeProcesses.get(messageId);
+    if (childProcess) {
+      this.terminateProcess(childProcess);
+    }
+    this.activeTasks.delete(messageId);
+    this.processQueue();
+  }
+
   /**
    * Execute Claude Code task using appropriate subagent
    */
@@ -459,6 +487,9 @@ export class ClaudeCodeAdapter extends BaseAdapter {
           backoff: 'exponential'
         },
         delivery_mode: 'async'
+      },
+      metadata: {
+        correlation_id: originalMessage.message_id
       }
     };
 
@@ -492,6 +523,9 @@ export class ClaudeCodeAdapter extends BaseAdapter {
           backoff: 'exponential'
         },
         delivery_mode: 'async'
+      },
+      metadata: {
+        correlation_id: originalMessage.message_id
       }
     };
 
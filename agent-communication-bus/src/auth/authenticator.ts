@@ -0,0 +1,262 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AgentRegistration } from '../types/protocol';
+
+export interface AuthenticatorConfig {
+  apiKey?: string;
+  jwtSecret?: string;
+}
+
+/**
+ * Credentials presented by a caller, taken from the `x-agent-api-key` header,
+ * an `Authorization: Bearer` token, or the equivalent query parameters.
+ */
+export interface PresentedCredentials {
+  apiKey?: string;
+  token?: string;
+}
+
+/**
+ * Who a request was authenticated as. `bus` callers hold the bus-wide API key
+ * and may act for any agent; `agent` callers are bound to a single agent ID.
+ */
+export type Principal =
+  | { type: 'bus' }
+  | { type: 'agent'; agentId: string };
+
+export interface JwtClaims {
+  sub: string;
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export class AuthenticationError extends Error {
+  constructor(message: string, public readonly statusCode: 400 | 401 | 403 = 401) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Validates API keys and HS256 JWTs for HTTP requests and WebSocket
+ * connections, and remembers the API key each agent registered with.
+ * Authentication is enforced only when an API key or JWT secret is configured.
+ */
+export class Authenticator {
+  private agentKeys: Map<string, string> = new Map();
+
+  constructor(private config: AuthenticatorConfig = {}) {}
+
+  /**
+   * Whether credentials are required at all
+   */
+  isEnabled(): boolean {
+    return !!(this.config.apiKey || this.config.jwtSecret);
+  }
+
+  /**
+   * Authenticate an HTTP caller
+   */
+  authenticate(credentials: PresentedCredentials): Principal {
+    if (!this.isEnabled()) {
+      return { type: 'bus' };
+    }
+
+    if (credentials.token) {
+      return { type: 'agent', agentId: this.verifyJwt(credentials.token).sub };
+    }
+
+    if (credentials.apiKey) {
+      if (this.config.apiKey && safeEqual(credentials.apiKey, this.config.apiKey)) {
+        return { type: 'bus' };
+      }
+      for (const [agentId, key] of this.agentKeys) {
+        if (safeEqual(credentials.apiKey, key)) {
+          return { type: 'agent', agentId };
+        }
+      }
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    throw new AuthenticationError('Missing credentials');
+  }
+
+  /**
+   * Authenticate a WebSocket connection as a specific agent. Only the agent's
+   * own API key or a JWT issued for it are accepted.
+   */
+  authenticateAgent(agentId: string, credentials: PresentedCredentials): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    if (credentials.token) {
+      if (this.verifyJwt(credentials.token).sub !== agentId) {
+        throw new AuthenticationError(`Token was not issued for ${agentId}`, 403);
+      }
+      return;
+    }
+
+    const key = this.agentKeys.get(agentId);
+    if (!credentials.apiKey) {
+      throw new AuthenticationError('Missing credentials');
+    }
+    if (!key || !safeEqual(credentials.apiKey, key)) {
+      throw new AuthenticationError(`Invalid API key for ${agentId}`);
+    }
+  }
+
+  /**
+   * Check that a principal may act as the given agent
+   */
+  authorize(principal: Principal, agentId: string): void {
+    if (principal.type === 'agent' && principal.agentId !== agentId) {
+      throw new AuthenticationError(`Authenticated as ${principal.agentId}, not ${agentId}`, 403);
+    }
+  }
+
+  /**
+   * Validate the credentials in a registration and remember API keys so the
+   * agent can authenticate its WebSocket connection
+   */
+  registerCredentials(registration: AgentRegistration): void {
+    const agentId = registration.agent_descriptor.agent_id;
+    const { type, credentials } = registration.authentication || {};
+
+    if (!this.isEnabled()) {
+      if (type === 'api_key' && credentials) {
+        this.agentKeys.set(agentId, credentials);
+      }
+      return;
+    }
+
+    if (typeof credentials !== 'string' || credentials.length === 0) {
+      throw new AuthenticationError('Registration credentials are required', 400);
+    }
+
+    switch (type) {
+      case 'api_key':
+        this.assertKeyAvailable(agentId, credentials);
+        this.agentKeys.set(agentId, credentials);
+        return;
+      case 'jwt':
+        if (this.verifyJwt(credentials).sub !== agentId) {
+          throw new AuthenticationError(`Token was not issued for ${agentId}`, 403);
+        }
+        return;
+      default:
+        throw new AuthenticationError(`Unsupported authentication type: ${type}`, 400);
+    }
+  }
+
+  /**
+   * API keys identify their holder, so a key may belong to one agent only
+   * and never to the bus itself
+   */
+  private assertKeyAvailable(agentId: string, apiKey: string): void {
+    if (this.config.apiKey && safeEqual(apiKey, this.config.apiKey)) {
+      throw new AuthenticationError('Agent API key must differ from the bus API key', 400);
+    }
+    for (const [owner, key] of this.agentKeys) {
+      if (owner !== agentId && safeEqual(apiKey, key)) {
+        throw new AuthenticationError('API key is already registered to another agent', 400);
+      }
+    }
+  }
+
+  /**
+   * Forget an agent's credentials
+   */
+  removeCredentials(agentId: string): void {
+    this.agentKeys.delete(agentId);
+  }
+
+  /**
+   * Verify an HS256 JWT signed with the configured secret
+   */
+  verifyJwt(token: string): JwtClaims {
+    if (!this.config.jwtSecret) {
+      throw new AuthenticationError('JWT authentication is not configured');
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Malformed token');
+    }
+    const [encodedHeader, encodedPayload, signature] = parts as [string, string, string];
+
+    let header: { alg?: string };
+    let claims: JwtClaims;
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+      claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      throw new AuthenticationError('Malformed token');
+    }
+
+    if (header.alg !== 'HS256') {
+      throw new AuthenticationError(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    const expected = sign(`${encodedHeader}.${encodedPayload}`, this.config.jwtSecret);
+    if (!safeEqual(signature, expected)) {
+      throw new AuthenticationError('Invalid token signature');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp === 'number' && now >= claims.exp) {
+      throw new AuthenticationError('Token expired');
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf) {
+      throw new AuthenticationError('Token not yet valid');
+    }
+    if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+      throw new AuthenticationError('Token has no subject');
+    }
+
+    return claims;
+  }
+}
+
+/**
+ * Issue an HS256 JWT for an agent
+ */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${header}.${payload}.${sign(`${header}.${payload}`, secret)}`;
+}
+
+/**
+ * Pull credentials out of request headers and query parameters
+ */
+export function extractCredentials(
+  headers: Record<string, string | string[] | undefined>,
+  query: URLSearchParams = new URLSearchParams()
+): PresentedCredentials {
+  const header = (name: string): string | undefined => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const authorization = header('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = header('x-agent-api-key') || query.get('api_key') || undefined;
+  const token = bearer || query.get('token') || undefined;
+
+  return {
+    ...(apiKey && { apiKey }),
+    ...(token && { token })
+  };
+}
+
+function sign(input: string, secret: string): string {
+  return createHmac('sha256', secret).update(input).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,134 @@
+import { AgentMessage, AuthorizationPolicy, AuthorizationRule } from '../types/protocol';
+
+export interface PolicyDecision {
+  allowed: boolean;
+  rule_id?: string;
+  reason: string;
+}
+
+/**
+ * Looks up the roles an agent plays across the sessions it takes part in
+ */
+export type SessionRolesResolver = (agentId: string) => string[];
+
+const DEFAULT_POLICY: AuthorizationPolicy = { defaultEffect: 'allow', rules: [] };
+
+/**
+ * Evaluates authorization rules against messages. Rules are checked in order
+ * and the first one whose conditions all match decides; when none match the
+ * policy's default effect applies.
+ *
+ * Agent ID conditions accept `*` wildcards (e.g. `claude-code://*`). Payload
+ * conditions map dot-separated paths to an expected value or a list of
+ * accepted values.
+ */
+export class PolicyEngine {
+  private policy: AuthorizationPolicy;
+
+  constructor(
+    policy: AuthorizationPolicy = DEFAULT_POLICY,
+    private resolveSessionRoles: SessionRolesResolver = () => []
+  ) {
+    this.policy = policy;
+  }
+
+  /**
+   * Replace the active policy
+   */
+  setPolicy(policy: AuthorizationPolicy): void {
+    this.policy = policy;
+  }
+
+  /**
+   * Get the active policy
+   */
+  getPolicy(): AuthorizationPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Decide whether a message may be sent
+   */
+  evaluate(message: AgentMessage): PolicyDecision {
+    const rule = this.policy.rules.find(candidate => this.matches(candidate, message));
+
+    if (!rule) {
+      const allowed = this.policy.defaultEffect === 'allow';
+      return {
+        allowed,
+        reason: allowed
+          ? 'Allowed by default policy'
+          : `No policy rule allows ${message.message_type} from ${message.sender.agent_id} to ${message.recipient.agent_id}`
+      };
+    }
+
+    const allowed = rule.effect === 'allow';
+    return {
+      allowed,
+      rule_id: rule.id,
+      reason: rule.description || (allowed
+        ? `Allowed by policy rule ${rule.id}`
+        : `Denied by policy rule ${rule.id}`)
+    };
+  }
+
+  private matches(rule: AuthorizationRule, message: AgentMessage): boolean {
+    if (rule.senders && !this.matchesAny(message.sender.agent_id, rule.senders)) {
+      return false;
+    }
+
+    if (rule.recipients && !this.matchesAny(message.recipient.agent_id, rule.recipients)) {
+      return false;
+    }
+
+    if (rule.messageTypes && !rule.messageTypes.includes(message.message_type)) {
+      return false;
+    }
+
+    if (rule.taskTypes) {
+      const taskType = message.payload?.task_type;
+      if (typeof taskType !== 'string' || !this.matchesAny(taskType, rule.taskTypes)) {
+        return false;
+      }
+    }
+
+    if (rule.sessionRoles && !this.matchesSessionRoles(rule, message.sender.agent_id)) {
+      return false;
+    }
+
+    if (rule.payload) {
+      for (const [path, expected] of Object.entries(rule.payload)) {
+        const actual = path.split('.').reduce<any>((value, key) => value?.[key], message.payload);
+        const accepted = Array.isArray(expected) ? expected : [expected];
+        if (!accepted.includes(actual)) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * The sender chooses which session its message names, so its roles in every
+   * session count. Fails closed: a deny rule matches when any of the roles is
+   * listed or none is known, an allow rule only when all of them are listed.
+   */
+  private matchesSessionRoles(rule: AuthorizationRule, agentId: string): boolean {
+    const roles = this.resolveSessionRoles(agentId);
+    const listed = roles.filter(role => rule.sessionRoles!.includes(role));
+    return rule.effect === 'deny'
+      ? roles.length === 0 || listed.length > 0
+      : roles.length > 0 && listed.length === roles.length;
+  }
+
+  private matchesAny(value: string, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+      if (!pattern.includes('*')) {
+        return pattern === value;
+      }
+      const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+      return new RegExp(`^${escaped.join('.*')}$`).test(value);
+    });
+  }
+}
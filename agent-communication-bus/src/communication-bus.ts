@@ -10,12 +10,120 @@ import {
   CommunicationBusConfig,
   AgentRegistration,
   HealthStatus,
-  BusMetrics
+  BusMetrics,
+  DeliveryFrame,
+  AuthorizationPolicy,
+  AgentParticipant,
+  SharedContextChange,
+  SessionContext,
+  WorkflowStep,
+  DelegationPolicy,
+  AgentResult,
+  ResultAggregation,
+  SynthesisMethod
 } from './types/protocol';
-import { SessionManager } from './session-manager';
+import { SessionManager, TaskDelegation, ContextConflictError, DelegationRejectedError } from './session-manager';
+import { WorkflowRunner, WORKFLOW_EVENTS } from './workflow-runner';
 import { MessageRouter } from './message-router';
 import { ModelSelector } from './model-selector';
-import { ResultAggregator } from './result-aggregator';
+import {
+  ResultAggregator,
+  AggregationRequest,
+  ConflictResolution,
+  ManualResolution,
+  RefereeRequest,
+  SYNTHESIS_METHODS,
+  MANUAL_RESOLUTION_STRATEGIES
+} from './result-aggregator';
+import { MessageStore, createMessageStore } from './persistence/message-store';
+import { DeliveryTracker, isDeliveryFrame } from './delivery-tracker';
+import { DeadLetterQueue, DeadLetter, DeliveryAttempt } from './dead-letter-queue';
+import { HealthMonitor } from './health-monitor';
+import { MetricsCollector } from './metrics-collector';
+import { PrometheusExporter, GaugeFamily, PROMETHEUS_CONTENT_TYPE } from './prometheus-exporter';
+import { Authenticator, AuthenticationError, Principal, extractCredentials } from './auth/authenticator';
+import { PolicyEngine, PolicyDecision } from './auth/policy-engine';
+import { SessionRepository } from './persistence/session-repository';
+import {
+  TranscriptRecorder,
+  TranscriptEntry,
+  TranscriptFormat,
+  TranscriptDetails,
+  toJsonLines,
+  toMarkdown
+} from './transcript-recorder';
+
+export interface CommunicationBusOptions {
+  messageStore?: MessageStore;
+  sessionRepository?: SessionRepository;
+  transcriptRecorder?: TranscriptRecorder;
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(public readonly messageId: string, public readonly timeout: number) {
+    super(`Request ${messageId} timed out after ${timeout}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * A task broadcast to several agents whose results are aggregated
+ */
+export interface FanOutTask {
+  delegator: string;
+  taskType: string;
+  payload?: Record<string, any>;
+  sessionId?: string;
+  priority?: TaskDelegation['priority'];
+  // Deadline in ms; whatever has arrived by then is aggregated
+  timeout?: number;
+  // Successful responses needed before aggregating without waiting for the rest
+  quorum?: number;
+  // Share of matching results the majority_vote and quorum methods need
+  threshold?: number;
+  weights?: Record<string, number>;
+  specialistAgents?: string[];
+  // Judge agent for the referee method; defaults to the bus's refereeAgent
+  referee?: string;
+  refereeTimeout?: number;
+}
+
+export type FanOutCompletion = 'all_responded' | 'quorum' | 'deadline';
+
+const DEFAULT_FAN_OUT_TIMEOUT = 300000;
+const DEFAULT_SESSION_TIMEOUT = 3600000;
+// Sender of the messages the bus originates itself
+const BUS_AGENT_ID = 'communication-bus';
+// Assumed when a task response does not report its own confidence
+const DEFAULT_RESULT_CONFIDENCE = 0.5;
+
+interface PendingFanOut {
+  request: Omit<AggregationRequest, 'agentResults'>;
+  taskIds: Set<string>;
+  quorum: number;
+  timeout: number;
+  responded: number;
+  succeeded: number;
+  // Serializes feeding results so the aggregation exists before results are added to it
+  aggregationId?: Promise<string>;
+  timer: NodeJS.Timeout;
+  resolve: (aggregation: ResultAggregation) => void;
+  reject: (error: Error) => void;
+}
+
+export class FanOutTimeoutError extends Error {
+  constructor(public readonly fanOutId: string, public readonly timeout: number) {
+    super(`No agent responded to fan-out ${fanOutId} within ${timeout}ms`);
+    this.name = 'FanOutTimeoutError';
+  }
+}
+
+interface PendingRequest {
+  taskId?: string;
+  resolve: (response: AgentMessage) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
 
 export class CommunicationBus extends EventEmitter {
   private app: express.Application;
@@ -27,17 +135,50 @@ export class CommunicationBus extends EventEmitter {
   private messageRouter: MessageRouter;
   /** @deprecated Reserved for future intelligent model selection integration */
   private _modelSelector: ModelSelector;
-  /** @deprecated Reserved for future multi-agent result aggregation */
-  private _resultAggregator: ResultAggregator;
+  private resultAggregator: ResultAggregator;
   
   private registeredAgents: Map<string, AgentDescriptor> = new Map();
   private agentConnections: Map<string, WebSocket> = new Map();
-  private messageQueue: Map<string, AgentMessage[]> = new Map();
+  private messageStore: MessageStore;
+  private deliveryTracker: DeliveryTracker;
+  private deadLetterQueue: DeadLetterQueue = new DeadLetterQueue();
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private fanOuts: Map<string, PendingFanOut> = new Map();
+  private fanOutTasks: Map<string, string> = new Map();
+  private fanOutAggregations: Map<string, string> = new Map();
+  private healthMonitor: HealthMonitor;
+  private metricsCollector: MetricsCollector = new MetricsCollector();
+  private metricsInterval: NodeJS.Timeout | undefined;
+  private prometheusExporter: PrometheusExporter = new PrometheusExporter();
+  private authenticator: Authenticator;
+  private policyEngine: PolicyEngine;
+  private transcriptRecorder: TranscriptRecorder;
+  private fallbackChains: Map<string, {
+    message: AgentMessage;
+    remaining: string[];
+    timer: NodeJS.Timeout;
+  }> = new Map();
+  // Agents named in restored sessions and tasks that have not reconnected
+  // since the restart, and the task dispatches held for them until they do
+  private reconnectingAgents: Set<string> = new Set();
+  private heldTasks: Map<string, Map<string, { task: TaskDelegation; metadata: Record<string, any> }>> = new Map();
+  // Message ID of the latest attempt dispatched for each open task
+  private taskAttempts: Map<string, string> = new Map();
   private metrics: BusMetrics;
 
-  constructor(config: CommunicationBusConfig) {
+  constructor(config: CommunicationBusConfig, options: CommunicationBusOptions = {}) {
     super();
     this.config = config;
+    this.authenticator = new Authenticator({
+      ...(config.apiKey && { apiKey: config.apiKey }),
+      ...(config.jwtSecret && { jwtSecret: config.jwtSecret })
+    });
+    this.messageStore = options.messageStore || createMessageStore(config);
+    this.transcriptRecorder = options.transcriptRecorder || new TranscriptRecorder();
+    this.deliveryTracker = new DeliveryTracker(
+      (agentId, message) => this.transmit(agentId, message),
+      config.ackTimeout !== undefined ? { ackTimeout: config.ackTimeout } : {}
+    );
     
     this.app = express();
     this.setupExpress();
@@ -46,19 +187,38 @@ export class CommunicationBus extends EventEmitter {
     this.wss = new WebSocketServer({ server: this.server });
     
     this.sessionManager = new SessionManager({
-      timeout: 3600000,
+      timeout: config.sessionTimeout ?? DEFAULT_SESSION_TIMEOUT,
       maxParticipants: 10,
       autoCleanup: true,
-      persistenceEnabled: config.persistenceEnabled
+      persistenceEnabled: config.persistenceEnabled,
+      ...(config.sessionStore && { persistenceBackend: config.sessionStore }),
+      ...(config.sessionStorePath && { persistencePath: config.sessionStorePath }),
+      ...(config.taskMaxRetries !== undefined && { retryPolicy: { maxRetries: config.taskMaxRetries } }),
+      ...(options.sessionRepository && { repository: options.sessionRepository })
     });
 
     this.messageRouter = new MessageRouter(this.registeredAgents);
+    this.policyEngine = new PolicyEngine(
+      config.authorization,
+      agentId => this.sessionManager.getActiveSessions().flatMap(session => session.participants
+        .filter(participant => participant.agent_id === agentId)
+        .map(participant => participant.role))
+    );
+    this.healthMonitor = new HealthMonitor(
+      {
+        checkInterval: config.heartbeatInterval,
+        heartbeatInterval: config.heartbeatInterval
+      },
+      (agentId) => this.sessionManager.getActiveSessions()
+        .filter(session => session.participants.some(p => p.agent_id === agentId))
+        .length
+    );
     this._modelSelector = new ModelSelector();
-    this._resultAggregator = new ResultAggregator();
+    this.resultAggregator = new ResultAggregator();
+    this.resultAggregator.setRefereeJudge((referee, request, timeout) => this.askReferee(referee, request, timeout));
 
     // Reserved for future use - suppress unused variable warnings
     void this._modelSelector;
-    void this._resultAggregator;
 
     this.metrics = {
       total_messages: 0,
@@ -72,12 +232,16 @@ export class CommunicationBus extends EventEmitter {
 
     this.setupWebSocket();
     this.setupEventHandlers();
+    this.setupTranscriptRecording();
   }
 
   /**
    * Start the communication bus
    */
   async start(): Promise<void> {
+    // Bring back sessions and in-flight tasks from before a restart
+    await this.sessionManager.restore();
+
     return new Promise((resolve, reject) => {
       this.server.listen(this.config.port, this.config.host, (err?: Error) => {
         if (err) {
@@ -95,7 +259,7 @@ export class CommunicationBus extends EventEmitter {
    * Stop the communication bus
    */
   async stop(): Promise<void> {
-    return new Promise((resolve) => {
+    await new Promise<void>((resolve) => {
       // Close all WebSocket connections
       this.wss.clients.forEach(ws => {
         ws.close();
@@ -106,6 +270,36 @@ export class CommunicationBus extends EventEmitter {
         resolve();
       });
     });
+
+    this.deliveryTracker.clear();
+    this.healthMonitor.stop();
+    if (this.metricsInterval) {
+      clearInterval(this.metricsInterval);
+      this.metricsInterval = undefined;
+    }
+    this.fallbackChains.forEach(entry => clearTimeout(entry.timer));
+    this.fallbackChains.clear();
+
+    this.pendingRequests.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Communication bus stopped'));
+    });
+    this.pendingRequests.clear();
+
+    this.fanOuts.forEach(fanOut => {
+      clearTimeout(fanOut.timer);
+      fanOut.reject(new Error('Communication bus stopped'));
+    });
+    this.fanOuts.clear();
+    this.fanOutTasks.clear();
+    this.fanOutAggregations.clear();
+    this.reconnectingAgents.clear();
+    this.heldTasks.clear();
+    this.taskAttempts.clear();
+
+    // Flush pending queue and session writes so they survive the restart
+    await this.messageStore.close();
+    await this.sessionManager.close();
   }
 
   /**
@@ -119,14 +313,20 @@ export class CommunicationBus extends EventEmitter {
       throw new Error('Invalid agent descriptor');
     }
 
+    if (agent_descriptor.agent_id === BUS_AGENT_ID) {
+      throw new Error(`Agent ID ${BUS_AGENT_ID} is reserved for the bus`);
+    }
+
     // Check if agent already exists
     if (this.registeredAgents.has(agent_descriptor.agent_id)) {
       throw new Error(`Agent ${agent_descriptor.agent_id} already registered`);
     }
 
+    // Validate and remember the credentials the agent will connect with
+    this.authenticator.registerCredentials(registration);
+
     // Register agent
     this.registeredAgents.set(agent_descriptor.agent_id, agent_descriptor);
-    this.messageQueue.set(agent_descriptor.agent_id, []);
     
     // Update metrics
     this.metrics.registered_agents = this.registeredAgents.size;
@@ -149,7 +349,10 @@ export class CommunicationBus extends EventEmitter {
 
     // Remove from registry
     this.registeredAgents.delete(agentId);
-    this.messageQueue.delete(agentId);
+    this.authenticator.removeCredentials(agentId);
+    this.healthMonitor.unregister(agentId);
+    this.deliveryTracker.release(agentId);
+    await this.messageStore.clear(agentId);
     
     // Close WebSocket connection if exists
     const ws = this.agentConnections.get(agentId);
@@ -170,38 +373,108 @@ export class CommunicationBus extends EventEmitter {
    * Send message to specific agent
    */
   async sendMessage(message: AgentMessage): Promise<boolean> {
+    if (!this.enforcePolicy(message)) {
+      return false;
+    }
+
+    this.metricsCollector.recordMessage(message);
+    this.prometheusExporter.recordMessage(message);
+    this.recordMessage('message_sent', message);
+
     try {
       // Route message
       const routing = this.messageRouter.routeMessage(message);
+      this.prometheusExporter.recordRouting(routing.route?.strategy, routing.success);
+      const fallbackChain = this.buildFallbackChain(message, routing.alternatives);
+      // Until the recipient has failed the message, only agents the sender
+      // named may stand in; router alternatives wait for a failure
+      const explicitChain = fallbackChain.filter(agentId => message.routing?.fallback_agents?.includes(agentId));
+
       if (!routing.success) {
-        throw new Error(routing.error || 'Message routing failed');
+        const error = routing.error || 'Message routing failed';
+        if (!this.rerouteMessage(message, explicitChain, error)) {
+          throw new Error(error);
+        }
+        this.metrics.total_messages++;
+        return true;
       }
 
       // Update metrics
       this.metrics.total_messages++;
       
-      // Send via WebSocket if connected
-      const ws = this.agentConnections.get(message.recipient.agent_id);
-      if (ws && ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify(message));
+      // Send via WebSocket if connected; delivery is tracked until acknowledged
+      if (this.transmit(message.recipient.agent_id, message)) {
+        this.deliveryTracker.track(message.recipient.agent_id, message);
+        this.rememberFallbackChain(message, fallbackChain);
+        return true;
+      }
+
+      // Prefer a connected explicit fallback agent over queueing for an offline recipient
+      if (this.rerouteMessage(message, explicitChain, `Agent ${message.recipient.agent_id} not connected`)) {
         return true;
       }
 
       // Queue message for later delivery
-      const queue = this.messageQueue.get(message.recipient.agent_id);
-      if (queue) {
-        queue.push(message);
+      if (this.registeredAgents.has(message.recipient.agent_id)) {
+        await this.messageStore.enqueue(message.recipient.agent_id, message);
+        this.emit('message_queued', { message, agent_id: message.recipient.agent_id });
         return true;
       }
 
       throw new Error(`Agent ${message.recipient.agent_id} not available`);
     } catch (error) {
+      this.metricsCollector.recordFailure(message);
+      this.prometheusExporter.recordFailure(message);
       this.metrics.error_rate = this.calculateErrorRate();
       this.emit('message_failed', { message, error: (error as Error).message });
+      this.recordMessage('message_failed', message, { error: (error as Error).message });
+      this.deadLetterMessage(message, (error as Error).message, 'routing_failed');
       return false;
     }
   }
 
+  /**
+   * Send a message and wait for the correlated reply. Replies are matched by
+   * `metadata.correlation_id` (the request `message_id`) or by `task_id`.
+   * Resolves with the `task_response`, or with the `error` message if the
+   * recipient (and any fallback agents) failed; rejects with a
+   * RequestTimeoutError when no reply arrives within the timeout, which
+   * defaults to `routing.timeout`.
+   */
+  async request(message: AgentMessage, timeoutMs?: number): Promise<AgentMessage> {
+    const timeout = timeoutMs ?? this.parseTimeout(message.routing?.timeout);
+    const syncMessage: AgentMessage = {
+      ...message,
+      routing: { ...message.routing, delivery_mode: 'sync' }
+    };
+
+    const response = new Promise<AgentMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(message.message_id);
+        reject(new RequestTimeoutError(message.message_id, timeout));
+      }, timeout);
+
+      this.pendingRequests.set(message.message_id, {
+        ...(message.metadata?.task_id !== undefined && { taskId: message.metadata.task_id }),
+        resolve,
+        reject,
+        timer
+      });
+    });
+
+    const sent = await this.sendMessage(syncMessage);
+    if (!sent) {
+      const pending = this.pendingRequests.get(message.message_id);
+      if (pending) {
+        clearTimeout(pending.timer);
+        this.pendingRequests.delete(message.message_id);
+      }
+      throw new Error(`Request ${message.message_id} could not be delivered`);
+    }
+
+    return response;
+  }
+
   /**
    * Broadcast message to multiple agents
    */
@@ -254,19 +527,349 @@ export class CommunicationBus extends EventEmitter {
    * Get bus metrics
    */
   getMetrics(): BusMetrics {
+    const snapshot = this.metricsCollector.snapshot();
     return {
       ...this.metrics,
       active_sessions: this.sessionManager.getActiveSessions().length,
-      uptime: Date.now() - this.metrics.uptime
+      error_rate: snapshot.error_rate,
+      throughput: snapshot.throughput,
+      average_response_time: snapshot.average_response_time,
+      uptime: Date.now() - this.metrics.uptime,
+      by_agent: snapshot.by_agent,
+      by_task_type: snapshot.by_task_type
     };
   }
 
+  /**
+   * Check a message against the authorization policy without sending it
+   */
+  authorizeMessage(message: AgentMessage): PolicyDecision {
+    return this.policyEngine.evaluate(message);
+  }
+
+  /**
+   * Replace the authorization policy
+   */
+  setAuthorizationPolicy(policy: AuthorizationPolicy): void {
+    this.policyEngine.setPolicy(policy);
+  }
+
+  /**
+   * Get bus metrics in the Prometheus text exposition format
+   */
+  async getPrometheusMetrics(): Promise<string> {
+    const routingStats = this.messageRouter.getRoutingStats();
+    const sessionStats = this.sessionManager.getSessionStats();
+    const agentIds = Array.from(this.registeredAgents.keys());
+    const queueDepths = await Promise.all(agentIds.map(agentId => this.messageStore.size(agentId)));
+
+    const gauges: GaugeFamily[] = [
+      {
+        name: 'uptime_seconds',
+        help: 'Seconds since the bus was created',
+        samples: [{ value: (Date.now() - this.metrics.uptime) / 1000 }]
+      },
+      {
+        name: 'registered_agents',
+        help: 'Agents known to the message router',
+        samples: [{ value: routingStats.totalAgents }]
+      },
+      {
+        name: 'healthy_agents',
+        help: 'Agents the message router currently considers healthy',
+        samples: [{ value: routingStats.healthyAgents }]
+      },
+      {
+        name: 'routing_average_load',
+        help: 'Average load across registered agents',
+        samples: [{ value: routingStats.averageLoad }]
+      },
+      {
+        name: 'routing_rules',
+        help: 'Active routing rules',
+        samples: [{ value: routingStats.activeRules }]
+      },
+      {
+        name: 'routing_strategy_info',
+        help: 'Load balancing strategy currently in use',
+        samples: [{ labels: { strategy: routingStats.currentStrategy }, value: 1 }]
+      },
+      {
+        name: 'sessions',
+        help: 'Collaboration sessions by state',
+        samples: [
+          { labels: { state: 'active' }, value: sessionStats.activeSessions },
+          { labels: { state: 'terminated' }, value: sessionStats.terminatedSessions },
+          { labels: { state: 'expired' }, value: sessionStats.expiredSessions }
+        ]
+      },
+      {
+        name: 'tasks',
+        help: 'Delegated tasks by status',
+        samples: Object.entries(sessionStats.tasksByStatus)
+          .map(([status, value]) => ({ labels: { status }, value }))
+      },
+      {
+        name: 'queue_depth',
+        help: 'Messages queued for agents that are not connected',
+        samples: agentIds.map((agentId, index) => ({ labels: { agent_id: agentId }, value: queueDepths[index] }))
+      },
+      {
+        name: 'unacknowledged_messages',
+        help: 'Messages sent to an agent and not yet acknowledged',
+        samples: agentIds.map(agentId => ({
+          labels: { agent_id: agentId },
+          value: this.deliveryTracker.getPending(agentId).length
+        }))
+      },
+      {
+        name: 'dead_letters',
+        help: 'Messages currently held in the dead-letter queue',
+        samples: [{ value: this.deadLetterQueue.size() }]
+      }
+    ];
+
+    return this.prometheusExporter.render(gauges);
+  }
+
   /**
    * Get agent health status
    */
-  getAgentHealth(_agentId: string): HealthStatus | null {
-    // This would be implemented with actual health checking logic
-    return null;
+  getAgentHealth(agentId: string): HealthStatus | null {
+    return this.healthMonitor.getHealth(agentId);
+  }
+
+  /**
+   * Get dead-lettered messages, optionally for a single recipient
+   */
+  getDeadLetters(agentId?: string): DeadLetter[] {
+    return this.deadLetterQueue.list(agentId ? { agentId } : {});
+  }
+
+  /**
+   * Get a dead-lettered message by ID
+   */
+  getDeadLetter(deadLetterId: string): DeadLetter | null {
+    return this.deadLetterQueue.get(deadLetterId);
+  }
+
+  /**
+   * Re-send a dead-lettered message to its original recipient. The entry is
+   * removed first; if delivery fails again a new dead letter is recorded.
+   */
+  async replayDeadLetter(deadLetterId: string): Promise<boolean> {
+    const deadLetter = this.deadLetterQueue.get(deadLetterId);
+    if (!deadLetter) {
+      return false;
+    }
+
+    this.deadLetterQueue.remove(deadLetterId);
+
+    const { message } = deadLetter;
+    const {
+      original_recipient: originalRecipient,
+      final_recipient: _finalRecipient,
+      reroute_count: _rerouteCount,
+      reroute_reason: _rerouteReason,
+      ...metadata
+    } = message.metadata || {};
+
+    const replay: AgentMessage = {
+      ...message,
+      recipient: originalRecipient
+        ? { ...message.recipient, agent_id: originalRecipient, framework: this.extractFramework(originalRecipient) }
+        : message.recipient,
+      metadata: {
+        ...metadata,
+        replayed_from: deadLetterId,
+        replay_count: deadLetter.replay_count + 1
+      }
+    };
+
+    this.emit('dead_letter_replayed', { dead_letter_id: deadLetterId, message: replay });
+    return this.sendMessage(replay);
+  }
+
+  /**
+   * Cancel a delegated task and tell the agent working on it to stop
+   */
+  cancelTask(taskId: string, reason?: string): boolean {
+    return this.sessionManager.cancelTask(taskId, reason);
+  }
+
+  /**
+   * Send the same task to several agents and aggregate their results. Resolves
+   * once every agent has answered, `quorum` agents have succeeded, the
+   * `quorum` synthesis method has enough matching results, or the deadline
+   * passes with at least one answer; tasks still open by then are
+   * cancelled. Recipients may name roles when `sessionId` is set. Failed
+   * tasks are not retried: the other agents already cover for them.
+   */
+  fanOut(
+    task: FanOutTask,
+    recipients: string[],
+    synthesisMethod: SynthesisMethod = 'consensus'
+  ): Promise<ResultAggregation> {
+    if (recipients.length === 0) {
+      return Promise.reject(new Error('Fan-out needs at least one recipient'));
+    }
+    if (new Set(recipients).size !== recipients.length) {
+      return Promise.reject(new Error('Fan-out recipients must be distinct'));
+    }
+    const quorum = task.quorum ?? recipients.length;
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > recipients.length) {
+      return Promise.reject(new Error(`quorum must be between 1 and ${recipients.length}`));
+    }
+    const referee = task.referee ?? this.config.refereeAgent;
+    if (synthesisMethod === 'referee' && !referee) {
+      return Promise.reject(new Error('Referee synthesis needs a referee agent'));
+    }
+
+    const fanOutId = `fanout_${uuidv4()}`;
+    const timeout = task.timeout ?? DEFAULT_FAN_OUT_TIMEOUT;
+    const delegations: TaskDelegation[] = [];
+    try {
+      recipients.forEach(recipient => delegations.push(this.sessionManager.getTaskDelegation(this.sessionManager.delegateTask(
+        task.delegator,
+        recipient,
+        task.taskType,
+        { ...task.payload, task_type: task.taskType },
+        {
+          retryPolicy: { maxRetries: 0 },
+          ...(task.priority && { priority: task.priority }),
+          ...(task.sessionId && { sessionId: task.sessionId })
+        }
+      ))!));
+    } catch (error) {
+      // Nothing was dispatched yet: drop the tasks created for earlier recipients
+      delegations.forEach(delegation => this.sessionManager.updateTaskStatus(delegation.taskId, 'cancelled', {
+        reason: `Fan-out could not be started: ${(error as Error).message}`
+      }));
+      return Promise.reject(error);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.fanOuts.set(fanOutId, {
+        request: {
+          sessionId: delegations[0].sessionId,
+          taskType: task.taskType,
+          synthesisMethod,
+          expectedAgents: delegations.map(delegation => delegation.delegatee),
+          ...(task.threshold !== undefined && { threshold: task.threshold }),
+          ...(task.weights && { weights: task.weights }),
+          ...(task.specialistAgents && { specialistAgents: task.specialistAgents }),
+          ...(synthesisMethod === 'referee' && { referee }),
+          ...(task.refereeTimeout !== undefined && { refereeTimeout: task.refereeTimeout })
+        },
+        taskIds: new Set(delegations.map(delegation => delegation.taskId)),
+        quorum,
+        timeout,
+        responded: 0,
+        succeeded: 0,
+        timer: setTimeout(() => this.completeFanOut(fanOutId, 'deadline'), timeout),
+        resolve,
+        reject
+      });
+      delegations.forEach(delegation => this.fanOutTasks.set(delegation.taskId, fanOutId));
+
+      this.emit('fan_out_started', {
+        fan_out_id: fanOutId,
+        task_ids: delegations.map(delegation => delegation.taskId),
+        recipients: delegations.map(delegation => delegation.delegatee),
+        synthesis_method: synthesisMethod
+      });
+      delegations.forEach(delegation => this.dispatchTask(delegation, { fan_out_id: fanOutId }));
+    });
+  }
+
+  /**
+   * Aggregated results of a fan-out
+   */
+  getAggregation(aggregationId: string): ResultAggregation | null {
+    return this.resultAggregator.getAggregation(aggregationId);
+  }
+
+  /**
+   * Settle a conflict of a manual aggregation on a reviewer's behalf
+   */
+  resolveConflict(
+    aggregationId: string,
+    conflictId: string,
+    decision: ManualResolution,
+    resolver: string
+  ): Promise<ConflictResolution> {
+    return this.resultAggregator.resolveConflict(aggregationId, conflictId, decision, resolver);
+  }
+
+  /**
+   * Create a session, optionally starting its workflow right away
+   */
+  createSession(
+    orchestrator: string,
+    participants: AgentParticipant[] = [],
+    workflow: WorkflowStep[] = [],
+    options: { startWorkflow?: boolean; delegationPolicy?: DelegationPolicy } = {}
+  ): string {
+    if (workflow.length > 0) {
+      WorkflowRunner.validate(workflow);
+    }
+
+    const sessionId = this.sessionManager.createSession(orchestrator, participants, workflow, {
+      ...(options.delegationPolicy && { delegationPolicy: options.delegationPolicy })
+    });
+    if (options.startWorkflow && workflow.length > 0) {
+      this.sessionManager.startWorkflow(sessionId);
+    }
+    return sessionId;
+  }
+
+  /**
+   * Start driving a session's workflow
+   */
+  startWorkflow(sessionId: string): boolean {
+    return this.sessionManager.startWorkflow(sessionId);
+  }
+
+  /**
+   * Recorded messages, task status changes and workflow transitions of a
+   * session, oldest first
+   */
+  getTranscript(sessionId: string): TranscriptEntry[] {
+    return this.transcriptRecorder.getTranscript(sessionId);
+  }
+
+  /**
+   * Render a session transcript as JSON, JSON Lines or Markdown
+   */
+  exportTranscript(sessionId: string, format: TranscriptFormat = 'jsonl'): string {
+    const entries = this.getTranscript(sessionId);
+    switch (format) {
+      case 'json':
+        return JSON.stringify(entries, null, 2);
+      case 'jsonl':
+        return toJsonLines(entries);
+      case 'markdown':
+        return toMarkdown(sessionId, entries);
+    }
+  }
+
+  /**
+   * URL the bus listens on once started, with the port actually bound when
+   * the configured port is 0
+   */
+  getUrl(): string | null {
+    const address = this.server.address();
+    if (!address || typeof address === 'string') {
+      return null;
+    }
+    return `http://${this.config.host}:${address.port}`;
+  }
+
+  /**
+   * Discard a dead-lettered message
+   */
+  deleteDeadLetter(deadLetterId: string): boolean {
+    return this.deadLetterQueue.remove(deadLetterId);
   }
 
   /**
@@ -276,24 +879,58 @@ export class CommunicationBus extends EventEmitter {
     this.app.use(cors());
     this.app.use(express.json());
 
+    // Every endpoint except the liveness probe requires credentials
+    this.app.use((req, res, next) => {
+      if (req.path === '/health') {
+        next();
+        return;
+      }
+      try {
+        res.locals.principal = this.authenticator.authenticate(extractCredentials(req.headers));
+        next();
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
     // Agent registration endpoint
     this.app.post('/agents/register', async (req, res) => {
       try {
         const registration: AgentRegistration = req.body;
+        this.authenticator.authorize(res.locals.principal, registration?.agent_descriptor?.agent_id);
         const agentId = await this.registerAgent(registration);
         res.json({ success: true, agent_id: agentId });
       } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
         res.status(400).json({ success: false, error: (error as Error).message });
       }
     });
 
+    // Agent health endpoint
+    this.app.get('/agents/:agentId/health', (req, res) => {
+      const health = this.getAgentHealth(req.params.agentId);
+      if (!health) {
+        res.status(404).json({ success: false, error: `Agent ${req.params.agentId} not registered` });
+        return;
+      }
+      res.json(health);
+    });
+
     // Agent unregistration endpoint
     this.app.delete('/agents/:agentId', async (req, res) => {
       try {
         const { agentId } = req.params;
+        this.authenticator.authorize(res.locals.principal, agentId);
         const success = await this.unregisterAgent(agentId);
         res.json({ success: success });
       } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
         res.status(400).json({ success: false, error: (error as Error).message });
       }
     });
@@ -302,96 +939,1104 @@ export class CommunicationBus extends EventEmitter {
     this.app.post('/messages/send', async (req, res) => {
       try {
         const message: AgentMessage = req.body;
+        this.authenticator.authorize(res.locals.principal, message?.sender?.agent_id);
+        if (this.respondIfDenied(message, res)) {
+          return;
+        }
+        if (message.routing?.delivery_mode === 'sync') {
+          await this.respondWithReply(message, this.parseTimeoutQuery(req.query.timeout_ms), res);
+          return;
+        }
         const success = await this.sendMessage(message);
         res.json({ success: success });
       } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
         res.status(400).json({ success: false, error: (error as Error).message });
       }
     });
 
-    // Metrics endpoint
-    this.app.get('/metrics', (_req, res) => {
-      res.json(this.getMetrics());
+    // Synchronous request/response endpoint
+    this.app.post('/messages/request', async (req, res) => {
+      try {
+        const message: AgentMessage = req.body;
+        this.authenticator.authorize(res.locals.principal, message?.sender?.agent_id);
+        if (this.respondIfDenied(message, res)) {
+          return;
+        }
+        await this.respondWithReply(message, this.parseTimeoutQuery(req.query.timeout_ms), res);
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        res.status(400).json({ success: false, error: (error as Error).message });
+      }
     });
 
-    // Health check endpoint
-    this.app.get('/health', (_req, res) => {
-      res.json({ status: 'healthy', uptime: Date.now() - this.metrics.uptime });
+    // Fan a task out to several agents and wait for the aggregated result
+    this.app.post('/aggregations', async (req, res) => {
+      try {
+        const {
+          delegator,
+          task_type: taskType,
+          payload,
+          recipients,
+          synthesis_method: synthesisMethod = 'consensus',
+          session_id: sessionId,
+          quorum,
+          threshold,
+          timeout_ms: timeout,
+          weights,
+          specialist_agents: specialistAgents,
+          referee,
+          referee_timeout_ms: refereeTimeout
+        } = req.body || {};
+        if (typeof delegator !== 'string' || typeof taskType !== 'string') {
+          res.status(400).json({ success: false, error: 'delegator and task_type are required' });
+          return;
+        }
+        if (!Array.isArray(recipients) || !recipients.every(recipient => typeof recipient === 'string')) {
+          res.status(400).json({ success: false, error: 'recipients must be an array of agent IDs or roles' });
+          return;
+        }
+        if (!SYNTHESIS_METHODS.includes(synthesisMethod)) {
+          res.status(400).json({ success: false, error: `synthesis_method must be one of ${SYNTHESIS_METHODS.join(', ')}` });
+          return;
+        }
+        this.authenticator.authorize(res.locals.principal, delegator);
+
+        const aggregation = await this.fanOut({
+          delegator,
+          taskType,
+          ...(payload !== undefined && { payload }),
+          ...(sessionId !== undefined && { sessionId }),
+          ...(quorum !== undefined && { quorum }),
+          ...(threshold !== undefined && { threshold }),
+          ...(timeout !== undefined && { timeout }),
+          ...(weights !== undefined && { weights }),
+          ...(specialistAgents !== undefined && { specialistAgents }),
+          ...(referee !== undefined && { referee }),
+          ...(refereeTimeout !== undefined && { refereeTimeout })
+        }, recipients, synthesisMethod);
+        res.json({ success: true, aggregation });
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        const status = error instanceof FanOutTimeoutError ? 504 : 400;
+        res.status(status).json({ success: false, error: (error as Error).message });
+      }
     });
-  }
 
-  private setupWebSocket(): void {
-    this.wss.on('connection', (ws: WebSocket, req) => {
-      const agentId = this.extractAgentIdFromRequest(req);
-      
-      if (!agentId || !this.registeredAgents.has(agentId)) {
-        ws.close(1008, 'Agent not registered');
-        return;
+    this.app.get('/aggregations/:aggregationId', (req, res) => {
+      try {
+        const aggregation = this.getAggregation(req.params.aggregationId);
+        if (!aggregation) {
+          res.status(404).json({ success: false, error: `Aggregation ${req.params.aggregationId} not found` });
+          return;
+        }
+        this.authorizeAggregationAccess(res.locals.principal, aggregation);
+        res.json({ aggregation });
+      } catch (error) {
+        this.sendAuthError(res, error);
       }
+    });
 
-      this.agentConnections.set(agentId, ws);
-      
-      // Send queued messages
-      const queue = this.messageQueue.get(agentId);
-      if (queue && queue.length > 0) {
-        queue.forEach(message => {
-          ws.send(JSON.stringify(message));
-        });
-        queue.length = 0; // Clear queue
+    this.app.get('/aggregations/:aggregationId/conflicts', (req, res) => {
+      try {
+        const aggregation = this.getAggregation(req.params.aggregationId);
+        if (!aggregation) {
+          res.status(404).json({ success: false, error: `Aggregation ${req.params.aggregationId} not found` });
+          return;
+        }
+        this.authorizeAggregationAccess(res.locals.principal, aggregation);
+        const status = typeof req.query.status === 'string' ? req.query.status : 'unresolved';
+        if (status !== 'unresolved' && status !== 'resolved' && status !== 'all') {
+          res.status(400).json({ success: false, error: "status must be 'unresolved', 'resolved' or 'all'" });
+          return;
+        }
+        const conflicts = aggregation.synthesis.conflicts.filter(conflict => status === 'all' ||
+          (status === 'resolved') === (conflict.resolution !== undefined));
+        res.json({ conflicts, total: conflicts.length, status: aggregation.status });
+      } catch (error) {
+        this.sendAuthError(res, error);
       }
+    });
 
-      ws.on('message', (data: string | Buffer) => {
-        try {
-          const message: AgentMessage = JSON.parse(data.toString());
-          this.handleIncomingMessage(message);
-        } catch (error) {
-          console.error('Invalid message format:', error);
+    this.app.post('/aggregations/:aggregationId/conflicts/:conflictId/resolution', async (req, res) => {
+      try {
+        const { aggregationId, conflictId } = req.params;
+        const aggregation = this.getAggregation(aggregationId);
+        if (!aggregation) {
+          res.status(404).json({ success: false, error: `Aggregation ${aggregationId} not found` });
+          return;
+        }
+        const principal: Principal = res.locals.principal;
+        const orchestrator = this.sessionManager.getSession(aggregation.session_id)?.orchestrator;
+        if (principal.type === 'agent' && principal.agentId !== orchestrator) {
+          throw new AuthenticationError(`Only the session orchestrator or the bus may resolve conflicts of ${aggregationId}`, 403);
+        }
+        if (aggregation.synthesis.synthesis_method !== 'manual') {
+          res.status(409).json({ success: false, error: `Aggregation ${aggregationId} does not use manual synthesis` });
+          return;
+        }
+        if (!aggregation.synthesis.conflicts.some(conflict => conflict.conflict_id === conflictId)) {
+          res.status(404).json({ success: false, error: `Conflict ${conflictId} not found` });
+          return;
         }
-      });
 
-      ws.on('close', () => {
-        this.agentConnections.delete(agentId);
-        this.emit('agent_disconnected', { agent_id: agentId });
-      });
+        const { strategy, agent_id: agentId, agent_ids: agentIds, rationale, resolver } = req.body || {};
+        if (!MANUAL_RESOLUTION_STRATEGIES.includes(strategy)) {
+          res.status(400).json({ success: false, error: `strategy must be one of ${MANUAL_RESOLUTION_STRATEGIES.join(', ')}` });
+          return;
+        }
+        const resolution = await this.resolveConflict(aggregationId, conflictId, {
+          strategy,
+          ...(typeof agentId === 'string' && { agent_id: agentId }),
+          ...(Array.isArray(agentIds) && { agent_ids: agentIds }),
+          ...(req.body && 'result' in req.body && { result: req.body.result }),
+          ...(typeof rationale === 'string' && { rationale })
+        }, principal.type === 'agent' ? principal.agentId : (typeof resolver === 'string' ? resolver : 'reviewer'));
+        res.json({ success: true, resolution, aggregation: this.getAggregation(aggregationId) });
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        res.status(400).json({ success: false, error: (error as Error).message });
+      }
+    });
 
-      this.emit('agent_connected', { agent_id: agentId });
+    // Metrics endpoint
+    this.app.get('/metrics', (_req, res) => {
+      res.json(this.getMetrics());
     });
-  }
 
-  private setupEventHandlers(): void {
-    this.sessionManager.on('session_created', (event) => {
-      this.emit('session_created', event);
+    this.app.get('/metrics/prometheus', async (_req, res) => {
+      try {
+        res.type(PROMETHEUS_CONTENT_TYPE).send(await this.getPrometheusMetrics());
+      } catch (error) {
+        res.status(500).json({ success: false, error: (error as Error).message });
+      }
     });
 
-    this.sessionManager.on('task_delegated', (event) => {
-      this.emit('task_delegated', event);
+    // Dead-letter inspection and replay endpoints
+    this.app.get('/dead-letters', (req, res) => {
+      const principal: Principal = res.locals.principal;
+      const agentId = typeof req.query.agent_id === 'string' ? req.query.agent_id : undefined;
+      const deadLetters = this.getDeadLetters(agentId)
+        .filter(deadLetter => principal.type !== 'agent' || this.isDeadLetterParty(principal.agentId, deadLetter));
+      res.json({ dead_letters: deadLetters, total: deadLetters.length });
     });
 
-    this.messageRouter.on('routing_failed', (event) => {
-      this.emit('routing_failed', event);
+    this.app.post('/dead-letters/:deadLetterId/replay', async (req, res) => {
+      try {
+        const { deadLetterId } = req.params;
+        const deadLetter = this.getDeadLetter(deadLetterId);
+        if (!deadLetter) {
+          res.status(404).json({ success: false, error: `Dead letter ${deadLetterId} not found` });
+          return;
+        }
+        this.authorizeDeadLetterAccess(res.locals.principal, deadLetter);
+        const success = await this.replayDeadLetter(deadLetterId);
+        res.json({ success: success });
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        res.status(400).json({ success: false, error: (error as Error).message });
+      }
     });
-  }
 
-  private setupHealthCheck(agentId: string, _healthCheckUrl: string): void {
-    setInterval(async () => {
+    this.app.delete('/dead-letters/:deadLetterId', (req, res) => {
       try {
-        // This would implement actual health checking
-        // For now, just emit a heartbeat event
-        this.emit('agent_heartbeat', { agent_id: agentId, status: 'healthy' });
+        const { deadLetterId } = req.params;
+        const deadLetter = this.getDeadLetter(deadLetterId);
+        if (!deadLetter) {
+          res.status(404).json({ success: false, error: `Dead letter ${deadLetterId} not found` });
+          return;
+        }
+        this.authorizeDeadLetterAccess(res.locals.principal, deadLetter);
+        this.deleteDeadLetter(deadLetterId);
+        res.json({ success: true });
       } catch (error) {
-        this.emit('agent_health_failed', { agent_id: agentId, error: (error as Error).message });
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        res.status(400).json({ success: false, error: (error as Error).message });
       }
-    }, 30000); // Check every 30 seconds
-  }
+    });
 
-  private startMetricsCollection(): void {
-    setInterval(() => {
-      this.metrics.throughput = this.calculateThroughput();
+    // Session management endpoints
+    this.app.get('/sessions', (req, res) => {
+      const principal: Principal = res.locals.principal;
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const sessions = this.sessionManager.getSessions()
+        .filter(session => principal.type !== 'agent' ||
+          session.participants.some(participant => participant.agent_id === principal.agentId))
+        .filter(session => status === undefined ||
+          (status === 'terminated' ? Boolean(session.terminated_at) : !session.terminated_at));
+      res.json({ sessions, total: sessions.length });
+    });
+
+    this.app.post('/sessions', (req, res) => {
+      try {
+        const {
+          orchestrator,
+          participants = [],
+          workflow = [],
+          start_workflow: startWorkflow,
+          delegation_policy: delegationPolicy
+        } = req.body || {};
+        if (typeof orchestrator !== 'string' || !orchestrator.includes('://')) {
+          res.status(400).json({ success: false, error: 'orchestrator must be an agent ID like framework://name' });
+          return;
+        }
+        if (!Array.isArray(participants) || !Array.isArray(workflow)) {
+          res.status(400).json({ success: false, error: 'participants and workflow must be arrays' });
+          return;
+        }
+        if (delegationPolicy !== undefined && delegationPolicy !== 'open' && delegationPolicy !== 'orchestrator_only') {
+          res.status(400).json({ success: false, error: "delegation_policy must be 'open' or 'orchestrator_only'" });
+          return;
+        }
+        this.authenticator.authorize(res.locals.principal, orchestrator);
+
+        const sessionId = this.createSession(
+          orchestrator,
+          participants.map((participant: unknown, index: number) => this.parseParticipant(participant, `participants[${index}]`)),
+          workflow,
+          { startWorkflow: Boolean(startWorkflow), ...(delegationPolicy && { delegationPolicy }) }
+        );
+        res.status(201).json({ success: true, session_id: sessionId, session: this.sessionManager.getSession(sessionId) });
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        res.status(400).json({ success: false, error: (error as Error).message });
+      }
+    });
+
+    this.app.get('/sessions/:sessionId', (req, res) => {
+      try {
+        const session = this.sessionManager.getSession(req.params.sessionId);
+        if (!session) {
+          res.status(404).json({ success: false, error: `Session ${req.params.sessionId} not found` });
+          return;
+        }
+        this.authorizeSessionAccess(res.locals.principal, session.sessionId);
+        res.json(session);
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    this.app.delete('/sessions/:sessionId', (req, res) => {
+      try {
+        const session = this.sessionManager.getSession(req.params.sessionId);
+        if (!session) {
+          res.status(404).json({ success: false, error: `Session ${req.params.sessionId} not found` });
+          return;
+        }
+        this.authenticator.authorize(res.locals.principal, session.orchestrator);
+        if (session.terminated_at) {
+          res.status(409).json({ success: false, error: `Session ${session.sessionId} already terminated` });
+          return;
+        }
+        const reason = typeof req.query.reason === 'string' ? req.query.reason : undefined;
+        res.json({ success: this.sessionManager.terminateSession(session.sessionId, reason) });
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    this.app.get('/sessions/:sessionId/transcript', (req, res) => {
+      try {
+        const { sessionId } = req.params;
+        if (!this.sessionManager.getSession(sessionId) && !this.transcriptRecorder.hasTranscript(sessionId)) {
+          res.status(404).json({ success: false, error: `Session ${sessionId} not found` });
+          return;
+        }
+        this.authorizeSessionAccess(res.locals.principal, sessionId);
+
+        const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+        switch (format) {
+          case 'json': {
+            const entries = this.getTranscript(sessionId);
+            res.json({ entries, total: entries.length });
+            return;
+          }
+          case 'jsonl':
+            res.type('application/x-ndjson').send(this.exportTranscript(sessionId, 'jsonl'));
+            return;
+          case 'markdown':
+            res.type('text/markdown').send(this.exportTranscript(sessionId, 'markdown'));
+            return;
+          default:
+            res.status(400).json({ success: false, error: 'format must be json, jsonl or markdown' });
+        }
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    this.app.get('/sessions/:sessionId/participants', (req, res) => {
+      try {
+        const session = this.sessionManager.getSession(req.params.sessionId);
+        if (!session) {
+          res.status(404).json({ success: false, error: `Session ${req.params.sessionId} not found` });
+          return;
+        }
+        this.authorizeSessionAccess(res.locals.principal, session.sessionId);
+        res.json({ participants: session.participants, total: session.participants.length });
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    this.app.post('/sessions/:sessionId/participants', (req, res) => {
+      try {
+        const session = this.sessionManager.getSession(req.params.sessionId);
+        if (!session) {
+          res.status(404).json({ success: false, error: `Session ${req.params.sessionId} not found` });
+          return;
+        }
+        this.authenticator.authorize(res.locals.principal, session.orchestrator);
+        const participant = this.parseParticipant(req.body, 'participant');
+        if (session.participants.some(existing => existing.agent_id === participant.agent_id && existing.status !== 'left')) {
+          res.status(409).json({ success: false, error: `Agent ${participant.agent_id} already in session ${session.sessionId}` });
+          return;
+        }
+        this.sessionManager.addParticipant(session.sessionId, participant);
+        res.status(201).json({ success: true, participant });
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        res.status(400).json({ success: false, error: (error as Error).message });
+      }
+    });
+
+    this.app.delete('/sessions/:sessionId/participants/:agentId', (req, res) => {
+      try {
+        const { sessionId, agentId } = req.params;
+        const session = this.sessionManager.getSession(sessionId);
+        if (!session) {
+          res.status(404).json({ success: false, error: `Session ${sessionId} not found` });
+          return;
+        }
+        // Participants may leave on their own; removing others is up to the orchestrator
+        const principal: Principal = res.locals.principal;
+        if (!(principal.type === 'agent' && principal.agentId === agentId)) {
+          this.authenticator.authorize(principal, session.orchestrator);
+        }
+        if (!this.sessionManager.removeParticipant(sessionId, agentId)) {
+          res.status(404).json({ success: false, error: `Agent ${agentId} not in session ${sessionId}` });
+          return;
+        }
+        res.json({ success: true });
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    this.app.patch('/sessions/:sessionId/participants/:agentId', (req, res) => {
+      try {
+        const { sessionId, agentId } = req.params;
+        const session = this.sessionManager.getSession(sessionId);
+        if (!session) {
+          res.status(404).json({ success: false, error: `Session ${sessionId} not found` });
+          return;
+        }
+        // Participants report their own availability; the orchestrator may set anyone's
+        const principal: Principal = res.locals.principal;
+        if (!(principal.type === 'agent' && principal.agentId === agentId)) {
+          this.authenticator.authorize(principal, session.orchestrator);
+        }
+        const status = req.body?.status;
+        if (status !== 'active' && status !== 'waiting' && status !== 'busy') {
+          res.status(400).json({ success: false, error: "status must be 'active', 'waiting' or 'busy'" });
+          return;
+        }
+        if (!this.sessionManager.setParticipantStatus(sessionId, agentId, status)) {
+          res.status(404).json({ success: false, error: `Agent ${agentId} not in session ${sessionId}` });
+          return;
+        }
+        res.json({
+          success: true,
+          participant: this.sessionManager.getSession(sessionId)!.participants.find(p => p.agent_id === agentId)
+        });
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    this.app.get('/sessions/:sessionId/progress', (req, res) => {
+      try {
+        const { sessionId } = req.params;
+        const progress = this.sessionManager.getWorkflowProgress(sessionId);
+        if (!progress) {
+          res.status(404).json({ success: false, error: `Session ${sessionId} not found` });
+          return;
+        }
+        this.authorizeSessionAccess(res.locals.principal, sessionId);
+        const workflow = this.sessionManager.getSession(sessionId)!.workflow;
+        res.json({
+          session_id: sessionId,
+          ...progress,
+          ...(workflow.status && { status: workflow.status }),
+          ...(workflow.running_steps && { running: workflow.running_steps }),
+          ...(workflow.failed_steps && { failed: workflow.failed_steps }),
+          ...(workflow.skipped_steps && { skipped: workflow.skipped_steps })
+        });
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    // Task endpoints
+    this.app.get('/tasks', (req, res) => {
+      const principal: Principal = res.locals.principal;
+      const query = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+      const sessionId = query('session_id');
+      const delegatee = query('agent_id');
+      const delegator = query('delegator');
+      const status = query('status') as TaskDelegation['status'] | undefined;
+      const tasks = this.sessionManager.getTasks({
+        ...(sessionId !== undefined && { sessionId }),
+        ...(delegatee !== undefined && { delegatee }),
+        ...(delegator !== undefined && { delegator }),
+        ...(status !== undefined && { status })
+      }).filter(task => principal.type !== 'agent' ||
+        task.delegatee === principal.agentId || task.delegator === principal.agentId);
+      res.json({ tasks, total: tasks.length });
+    });
+
+    this.app.get('/tasks/:taskId', (req, res) => {
+      const principal: Principal = res.locals.principal;
+      const task = this.sessionManager.getTaskDelegation(req.params.taskId);
+      if (!task) {
+        res.status(404).json({ success: false, error: `Task ${req.params.taskId} not found` });
+        return;
+      }
+      if (principal.type === 'agent' && task.delegatee !== principal.agentId && task.delegator !== principal.agentId) {
+        res.status(403).json({ success: false, error: `Agent ${principal.agentId} is not part of task ${task.taskId}` });
+        return;
+      }
+      res.json(task);
+    });
+
+    // Task cancellation endpoint
+    this.app.delete('/tasks/:taskId', (req, res) => {
+      try {
+        const { taskId } = req.params;
+        const delegation = this.sessionManager.getTaskDelegation(taskId);
+        if (!delegation) {
+          res.status(404).json({ success: false, error: `Task ${taskId} not found` });
+          return;
+        }
+        this.authenticator.authorize(res.locals.principal, delegation.delegator);
+        const reason = typeof req.query.reason === 'string' ? req.query.reason : undefined;
+        if (!this.cancelTask(taskId, reason)) {
+          res.status(409).json({ success: false, error: `Task ${taskId} already ${delegation.status}` });
+          return;
+        }
+        res.json({ success: true, task_id: taskId, status: 'cancelled' });
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        res.status(400).json({ success: false, error: (error as Error).message });
+      }
+    });
+
+    // Shared session context endpoints
+    this.app.get('/sessions/:sessionId/context', (req, res) => {
+      try {
+        const { sessionId } = req.params;
+        const snapshot = this.sessionManager.getSharedContext(sessionId);
+        if (!snapshot) {
+          res.status(404).json({ success: false, error: `Session ${sessionId} not found` });
+          return;
+        }
+        this.authorizeSessionAccess(res.locals.principal, sessionId);
+        res.json({ session_id: sessionId, ...snapshot });
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    this.app.get('/sessions/:sessionId/context/history', (req, res) => {
+      try {
+        const { sessionId } = req.params;
+        if (!this.sessionManager.getSession(sessionId)) {
+          res.status(404).json({ success: false, error: `Session ${sessionId} not found` });
+          return;
+        }
+        this.authorizeSessionAccess(res.locals.principal, sessionId);
+        const key = typeof req.query.key === 'string' ? req.query.key : undefined;
+        const history = this.sessionManager.getContextHistory(sessionId, key);
+        res.json({ session_id: sessionId, history, total: history.length });
+      } catch (error) {
+        this.sendAuthError(res, error);
+      }
+    });
+
+    this.app.patch('/sessions/:sessionId/context', (req, res) => {
+      try {
+        const { sessionId } = req.params;
+        const { agent_id: agentId, changes, versions } = req.body || {};
+        if (!this.sessionManager.getSession(sessionId)) {
+          res.status(404).json({ success: false, error: `Session ${sessionId} not found` });
+          return;
+        }
+        if (typeof agentId !== 'string' || !changes || typeof changes !== 'object' || Array.isArray(changes)) {
+          res.status(400).json({ success: false, error: 'Request body must include agent_id and a changes object' });
+          return;
+        }
+        this.authenticator.authorize(res.locals.principal, agentId);
+        const updated = this.sessionManager.updateSharedContext(sessionId, agentId, changes, versions || {});
+        res.json({ success: true, session_id: sessionId, versions: updated });
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          this.sendAuthError(res, error);
+          return;
+        }
+        if (error instanceof ContextConflictError) {
+          res.status(409).json({ success: false, error: error.message, conflicts: error.conflicts });
+          return;
+        }
+        res.status(400).json({ success: false, error: (error as Error).message });
+      }
+    });
+
+    // Health check endpoint
+    this.app.get('/health', (_req, res) => {
+      res.json({ status: 'healthy', uptime: Date.now() - this.metrics.uptime });
+    });
+  }
+
+  private async respondWithReply(
+    message: AgentMessage,
+    timeoutMs: number | undefined,
+    res: express.Response
+  ): Promise<void> {
+    try {
+      const response = await this.request(message, timeoutMs);
+      res.json({ success: response.message_type !== 'error', response });
+    } catch (error) {
+      const status = error instanceof RequestTimeoutError ? 504 : 400;
+      res.status(status).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  private parseTimeoutQuery(value: unknown): number | undefined {
+    const parsed = typeof value === 'string' ? Number(value) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+  }
+
+  private setupWebSocket(): void {
+    this.wss.on('connection', (ws: WebSocket, req) => {
+      const agentId = this.extractAgentIdFromRequest(req);
+      
+      if (!agentId || !this.registeredAgents.has(agentId)) {
+        ws.close(1008, 'Agent not registered');
+        return;
+      }
+
+      // Bind the connection to the agent it authenticated as
+      try {
+        this.authenticator.authenticateAgent(agentId, this.extractCredentialsFromRequest(req));
+      } catch (error) {
+        ws.close(1008, (error as Error).message);
+        this.emit('authentication_failed', { agent_id: agentId, error: (error as Error).message });
+        return;
+      }
+
+      this.attachConnection(agentId, ws);
+    });
+  }
+
+  private attachConnection(agentId: string, ws: WebSocket): void {
+    this.agentConnections.set(agentId, ws);
+    
+    // Replay queued messages in order
+    this.flushQueuedMessages(agentId, ws).catch(error => {
+      this.emit('queue_flush_failed', { agent_id: agentId, error: (error as Error).message });
+    });
+    this.releaseHeldTasks(agentId);
+
+    ws.on('message', (data: string | Buffer) => {
+      try {
+        const parsed = JSON.parse(data.toString());
+        if (isDeliveryFrame(parsed)) {
+          this.handleDeliveryFrame(agentId, parsed);
+          return;
+        }
+        const message = parsed as AgentMessage;
+        if (message.sender?.agent_id !== agentId) {
+          this.rejectMessage(ws, agentId, message, `Sender ${message.sender?.agent_id} does not match connection identity ${agentId}`);
+          return;
+        }
+        this.handleIncomingMessage(message);
+      } catch (error) {
+        console.error('Invalid message format:', error);
+      }
+    });
+
+    ws.on('close', () => {
+      if (this.agentConnections.get(agentId) === ws) {
+        this.agentConnections.delete(agentId);
+      }
+      this.requeueUnacknowledged(agentId);
+      this.emit('agent_disconnected', { agent_id: agentId });
+    });
+
+    this.emit('agent_connected', { agent_id: agentId });
+  }
+
+  private async flushQueuedMessages(agentId: string, ws: WebSocket): Promise<void> {
+    const queued = await this.messageStore.drain(agentId);
+    if (queued.length === 0) {
+      return;
+    }
+
+    for (let i = 0; i < queued.length; i++) {
+      if (ws.readyState !== WebSocket.OPEN) {
+        // Connection dropped mid-replay: put the undelivered remainder back
+        for (const message of queued.slice(i)) {
+          await this.messageStore.enqueue(agentId, message);
+        }
+        return;
+      }
+      ws.send(JSON.stringify(queued[i]));
+      this.deliveryTracker.track(agentId, queued[i]);
+      this.rememberFallbackChain(queued[i], this.buildFallbackChain(queued[i]));
+    }
+
+    this.emit('queue_flushed', { agent_id: agentId, count: queued.length });
+  }
+
+  private transmit(agentId: string, message: AgentMessage): boolean {
+    const ws = this.agentConnections.get(agentId);
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+
+    ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  private handleDeliveryFrame(agentId: string, frame: DeliveryFrame): void {
+    if (!this.deliveryTracker.handleFrame(agentId, frame)) {
+      console.warn(`Unexpected ${frame.frame_type} from ${agentId} for message ${frame.message_id}`);
+    }
+  }
+
+  /**
+   * Candidate recipients when the primary fails: explicit fallback agents
+   * first, then router alternatives. Only registered agents are kept.
+   */
+  private buildFallbackChain(message: AgentMessage, alternatives: string[] = []): string[] {
+    // The other recipients of a fan-out already have the same task, and no
+    // other agent can stand in for the chosen referee
+    if (message.metadata?.fan_out_id || message.metadata?.referee_for) {
+      return [];
+    }
+
+    const primary = message.recipient.agent_id;
+    const candidates = [
+      ...(message.routing?.fallback_agents || []),
+      ...alternatives,
+      ...this.messageRouter.getAlternatives(message)
+    ];
+
+    return Array.from(new Set(candidates))
+      .filter(agentId => agentId !== primary && this.registeredAgents.has(agentId));
+  }
+
+  /**
+   * Deliver a message to the first connected agent in the fallback chain
+   */
+  private rerouteMessage(message: AgentMessage, chain: string[], reason: string): boolean {
+    for (let i = 0; i < chain.length; i++) {
+      const candidate = chain[i];
+      const descriptor = this.registeredAgents.get(candidate);
+      if (!descriptor) {
+        continue;
+      }
+
+      const rerouted: AgentMessage = {
+        ...message,
+        recipient: { ...message.recipient, agent_id: candidate, framework: descriptor.framework },
+        metadata: {
+          ...message.metadata,
+          original_recipient: message.metadata?.original_recipient || message.recipient.agent_id,
+          final_recipient: candidate,
+          reroute_count: (message.metadata?.reroute_count || 0) + 1,
+          reroute_reason: reason
+        }
+      };
+
+      if (this.transmit(candidate, rerouted)) {
+        // The fallback agent now answers for the task
+        if (message.message_type === 'task_request' && message.metadata?.task_id) {
+          this.sessionManager.reassignTask(message.metadata.task_id, candidate);
+        }
+        this.deadLetterQueue.recordAttempt(message.message_id, {
+          agent_id: message.recipient.agent_id,
+          outcome: 'rerouted',
+          error: reason
+        });
+        this.deliveryTracker.track(candidate, rerouted);
+        this.rememberFallbackChain(rerouted, chain.slice(i + 1));
+        this.emit('message_rerouted', {
+          message_id: message.message_id,
+          from: message.recipient.agent_id,
+          to: candidate,
+          reason,
+          message: rerouted
+        });
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Keep the remaining fallback chain so an error reply from the recipient
+   * can move the message on to the next candidate
+   */
+  private rememberFallbackChain(message: AgentMessage, remaining: string[]): void {
+    this.forgetFallbackChain(message.message_id);
+    if (remaining.length === 0) {
+      return;
+    }
+
+    const timer = setTimeout(
+      () => this.fallbackChains.delete(message.message_id),
+      this.parseTimeout(message.routing?.timeout)
+    );
+    this.fallbackChains.set(message.message_id, { message, remaining, timer });
+  }
+
+  private forgetFallbackChain(messageId: string): void {
+    const entry = this.fallbackChains.get(messageId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.fallbackChains.delete(messageId);
+    }
+  }
+
+  /**
+   * Parse routing timeouts such as '300s', '5m' or '1500' (milliseconds)
+   */
+  private parseTimeout(timeout: string | number | undefined): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h)?$/.exec(String(timeout ?? '').trim());
+    if (!match) {
+      return this.config.messageTimeout;
+    }
+
+    const multipliers: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+    return parseFloat(match[1]) * multipliers[match[2] || 'ms'];
+  }
+
+  private deadLetterMessage(message: AgentMessage, error: string, outcome: DeliveryAttempt['outcome']): void {
+    const deadLetter = this.deadLetterQueue.add(message, error, {
+      agent_id: message.recipient.agent_id,
+      outcome,
+      error
+    });
+    this.emit('message_dead_lettered', { dead_letter_id: deadLetter.dead_letter_id, message, error });
+  }
+
+  private requeueUnacknowledged(agentId: string): void {
+    const unacknowledged = this.deliveryTracker.release(agentId);
+    if (unacknowledged.length === 0 || !this.registeredAgents.has(agentId)) {
+      return;
+    }
+
+    (async () => {
+      for (const message of unacknowledged) {
+        await this.messageStore.enqueue(agentId, message);
+      }
+    })().catch(error => {
+      this.emit('queue_flush_failed', { agent_id: agentId, error: (error as Error).message });
+    });
+  }
+
+  private setupEventHandlers(): void {
+    this.sessionManager.on('session_created', (event) => {
+      this.emit('session_created', event);
+    });
+
+    // Fires before restored workflows resume, so their dispatches are held
+    this.sessionManager.on('sessions_restored', () => {
+      this.sessionManager.getSessions().forEach(session => {
+        session.participants.forEach(participant => this.reconnectingAgents.add(participant.agent_id));
+      });
+      this.sessionManager.getTasks().forEach(task => {
+        this.reconnectingAgents.add(task.delegatee);
+        if (task.retryPolicy.reassignTo) {
+          this.reconnectingAgents.add(task.retryPolicy.reassignTo);
+        }
+      });
+    });
+
+    this.sessionManager.on('task_delegated', (event) => {
+      this.emit('task_delegated', event);
+    });
+
+    WORKFLOW_EVENTS.forEach(event => {
+      this.sessionManager.on(event, data => this.emit(event, data));
+    });
+
+    this.sessionManager.on('workflow_step_started', ({ tasks }: { tasks: TaskDelegation[] }) => {
+      tasks.forEach(task => this.dispatchTask(task));
+    });
+
+    this.sessionManager.on('task_retry_scheduled', (event) => {
+      this.emit('task_retry_scheduled', event);
+    });
+
+    this.sessionManager.on('task_retry', (event) => {
+      this.emit('task_retry', event);
+      this.dispatchTask(event.delegation);
+    });
+
+    this.sessionManager.on('context_updated', (event) => {
+      this.emit('context_updated', event);
+      this.broadcastContextUpdate(event);
+    });
+
+    // A held task never reached its agent, so there is nothing to stop
+    this.sessionManager.on('task_cancelled', (event) => {
+      this.emit('task_cancelled', event);
+      if (!this.unholdTask(event.delegation)) {
+        this.sendCancellation(event.delegation, event.reason);
+      }
+    });
+
+    this.sessionManager.on('task_attempt_cancelled', (event) => {
+      if (!this.unholdTask(event.delegation)) {
+        this.sendCancellation(event.delegation, event.reason);
+      }
+    });
+
+    this.sessionManager.on('task_updated', ({ delegation, status, result }) => {
+      this.collectFanOutResult(delegation, status, result);
+      if (status === 'completed' || status === 'failed' || status === 'timeout' || status === 'cancelled') {
+        this.taskAttempts.delete(delegation.taskId);
+        const duration = (Date.now() - delegation.createdAt.getTime()) / 1000;
+        this.prometheusExporter.observeTaskDuration(delegation.taskType, status, duration);
+      }
+    });
+
+    [
+      'aggregation_completed',
+      'aggregation_pending_review',
+      'aggregation_resolved',
+      'conflict_resolved',
+      'referee_consulted',
+      'referee_fallback'
+    ].forEach(event => {
+      this.resultAggregator.on(event, data => this.emit(event, data));
+    });
+
+    this.resultAggregator.on('aggregation_completed', ({ aggregation_id, reason }) => {
+      const fanOutId = this.fanOutAggregations.get(aggregation_id);
+      if (fanOutId && reason === 'quorum') {
+        this.completeFanOut(fanOutId, 'quorum');
+      }
+    });
+
+    this.messageRouter.on('routing_failed', (event) => {
+      this.emit('routing_failed', event);
+    });
+
+    this.healthMonitor.on('health_checked', ({ agent_id, health }) => {
+      this.messageRouter.updateAgentHealth(agent_id, health.status !== 'unhealthy');
+      this.emit('agent_heartbeat', { agent_id, status: health.status, health });
+    });
+
+    this.healthMonitor.on('health_changed', (event) => {
+      this.emit('agent_health_changed', event);
+    });
+
+    this.healthMonitor.on('health_check_failed', (event) => {
+      this.emit('agent_health_failed', event);
+    });
+
+    this.deliveryTracker.on('message_acknowledged', (event) => {
+      this.deadLetterQueue.clearAttempts(event.message_id);
+      this.emit('message_acknowledged', event);
+    });
+
+    this.deliveryTracker.on('message_redelivered', (event) => {
+      this.deadLetterQueue.recordAttempt(event.message_id, {
+        agent_id: event.agent_id,
+        outcome: 'redelivered',
+        error: event.reason
+      });
+      this.emit('message_redelivered', event);
+    });
+
+    this.deliveryTracker.on('delivery_deferred', ({ agent_id, message }) => {
+      // Agent went offline between attempts: fall back to the offline queue
+      if (this.registeredAgents.has(agent_id)) {
+        this.messageStore.enqueue(agent_id, message).catch(error => {
+          this.emit('queue_flush_failed', { agent_id, error: (error as Error).message });
+        });
+      }
+    });
+
+    this.deliveryTracker.on('delivery_failed', ({ message, attempts, error }) => {
+      const entry = this.fallbackChains.get(message.message_id);
+      this.forgetFallbackChain(message.message_id);
+      if (entry && this.rerouteMessage(message, entry.remaining, error)) {
+        return;
+      }
+
+      this.metricsCollector.recordFailure(message);
+      this.prometheusExporter.recordFailure(message);
+      this.metrics.error_rate = this.calculateErrorRate();
+      this.emit('message_failed', { message, error, attempts });
+      this.recordMessage('message_failed', message, { error, attempts });
+      this.deadLetterMessage(message, error, 'delivery_failed');
+    });
+  }
+
+  /**
+   * Record session lifecycle, task and workflow events in session transcripts
+   */
+  private setupTranscriptRecording(): void {
+    this.sessionManager.on('session_created', ({ sessionId, session }: { sessionId: string; session: SessionContext }) => {
+      this.transcriptRecorder.record(sessionId, 'session', 'session_created', {
+        data: {
+          orchestrator: session.orchestrator,
+          participants: session.participants.filter(participant =>
+            participant.agent_id !== session.orchestrator || participant.role !== 'orchestrator'),
+          steps: session.workflow.steps || [],
+          ...(session.delegation_policy && { delegation_policy: session.delegation_policy })
+        }
+      });
+    });
+
+    this.sessionManager.on('participant_added', ({ sessionId, participant }) => {
+      this.transcriptRecorder.record(sessionId, 'session', 'participant_added', { data: { participant } });
+    });
+
+    this.sessionManager.on('participant_removed', ({ sessionId, agentId }) => {
+      this.transcriptRecorder.record(sessionId, 'session', 'participant_removed', { data: { agent_id: agentId } });
+    });
+
+    this.sessionManager.on('session_terminated', ({ sessionId, reason }) => {
+      this.transcriptRecorder.record(sessionId, 'session', 'session_terminated', {
+        ...(reason !== undefined && { data: { reason } })
+      });
+    });
+
+    this.sessionManager.on('task_delegated', ({ delegation }: { delegation: TaskDelegation }) => {
+      this.recordTaskEvent('task_delegated', delegation, {
+        delegator: delegation.delegator,
+        delegatee: delegation.delegatee,
+        task_type: delegation.taskType
+      });
+    });
+
+    this.sessionManager.on('task_updated', ({ delegation, result }) => {
+      this.recordTaskEvent('task_updated', delegation, result !== undefined ? { result } : undefined);
+    });
+
+    // The attempt's outcome is only reported here, not in task_updated
+    this.sessionManager.on('task_retry_scheduled', ({ taskId, attempt, delay, status, error }) => {
+      const delegation = this.sessionManager.getTaskDelegation(taskId);
+      if (delegation) {
+        this.recordTaskEvent('task_retry_scheduled', delegation, { attempt, delay, error }, status);
+      }
+    });
+
+    this.sessionManager.on('task_retry', ({ delegation, attempt, reassigned }) => {
+      this.recordTaskEvent('task_retry', delegation, { attempt, delegatee: delegation.delegatee, reassigned });
+    });
+
+    this.sessionManager.on('task_cancelled', ({ delegation, reason }) => {
+      this.recordTaskEvent('task_cancelled', delegation, reason !== undefined ? { reason } : undefined);
+    });
+
+    WORKFLOW_EVENTS.forEach(event => {
+      this.sessionManager.on(event, ({ sessionId, tasks, ...data }: { sessionId: string; tasks?: TaskDelegation[] }) => {
+        this.transcriptRecorder.record(sessionId, 'workflow', event, {
+          data: { ...data, ...(tasks && { task_ids: tasks.map(task => task.taskId) }) }
+        });
+      });
+    });
+  }
+
+  private recordTaskEvent(
+    event: string,
+    delegation: TaskDelegation,
+    data?: Record<string, any>,
+    status: string = delegation.status
+  ): void {
+    if (!this.sessionManager.getSession(delegation.sessionId)) {
+      return;
+    }
+    this.transcriptRecorder.record(delegation.sessionId, 'task', event, {
+      task_id: delegation.taskId,
+      status,
+      ...(data && { data })
+    });
+  }
+
+  /**
+   * Messages belong to the session named by the sender, the metadata or the
+   * task they refer to; messages outside any session are not recorded
+   */
+  private recordMessage(event: string, message: AgentMessage, data?: Record<string, any>): void {
+    const taskId = message.metadata?.task_id ?? message.payload?.task_id;
+    const sessionId = message.sender?.session_id
+      ?? message.recipient?.session_id
+      ?? message.metadata?.session_id
+      ?? (taskId ? this.sessionManager.getTaskDelegation(taskId)?.sessionId : undefined);
+    if (!sessionId || !this.sessionManager.getSession(sessionId)) {
+      return;
+    }
+
+    const details: TranscriptDetails = { message, ...(data && { data }) };
+    this.transcriptRecorder.record(sessionId, 'message', event, details);
+  }
+
+  private setupHealthCheck(agentId: string, healthCheckUrl: string): void {
+    this.healthMonitor.register(agentId, healthCheckUrl);
+  }
+
+  private startMetricsCollection(): void {
+    this.metricsInterval = setInterval(() => {
+      this.metrics.throughput = this.calculateThroughput();
       this.metrics.average_response_time = this.calculateAverageResponseTime();
     }, 10000); // Update every 10 seconds
   }
 
   private handleIncomingMessage(message: AgentMessage): void {
+    if (!this.enforcePolicy(message)) {
+      return;
+    }
+
+    if (message.message_type !== 'heartbeat') {
+      this.recordMessage('message_received', message);
+    }
+
     // Route message to appropriate handler
     switch (message.message_type) {
       case 'task_request':
@@ -406,24 +2051,44 @@ export class CommunicationBus extends EventEmitter {
       case 'heartbeat':
         this.handleHeartbeat(message);
         break;
+      case 'error':
+        this.handleErrorMessage(message);
+        break;
+      case 'cancel':
+        this.handleCancelMessage(message);
+        break;
       default:
         console.warn('Unknown message type:', message.message_type);
     }
   }
 
+  /**
+   * Within a session `recipient.agent_id` may name a role instead of an agent
+   */
   private handleTaskRequest(message: AgentMessage): void {
     // Delegate task to appropriate agent
-    const taskId = this.sessionManager.delegateTask(
-      message.sender.agent_id,
-      message.recipient.agent_id,
-      message.payload.task_type,
-      message.payload,
-      {
-        priority: message.priority,
-        ...(message.sender.session_id !== undefined && { sessionId: message.sender.session_id }),
-        timeout: parseInt(message.routing.timeout)
-      }
-    );
+    let taskId: string;
+    try {
+      taskId = this.sessionManager.delegateTask(
+        message.sender.agent_id,
+        message.recipient.agent_id,
+        message.payload.task_type,
+        message.payload,
+        {
+          priority: message.priority,
+          ...(message.sender.session_id !== undefined && { sessionId: message.sender.session_id }),
+          timeout: this.parseTimeout(message.routing?.timeout)
+        }
+      );
+    } catch (error) {
+      const senderId = message.sender.agent_id;
+      this.transmit(senderId, this.createErrorReply(senderId, message, {
+        error: (error as Error).message,
+        code: error instanceof DelegationRejectedError ? 'delegation_rejected' : 'delegation_failed'
+      }));
+      this.emit('task_request_rejected', { message, error: (error as Error).message });
+      return;
+    }
 
     // Update message with task ID
     message.metadata = { ...message.metadata, task_id: taskId };
@@ -432,19 +2097,452 @@ export class CommunicationBus extends EventEmitter {
   }
 
   private handleTaskResponse(message: AgentMessage): void {
-    const taskId = message.metadata?.task_id;
+    if (message.metadata?.correlation_id) {
+      this.forgetFallbackChain(message.metadata.correlation_id);
+    }
+    this.metricsCollector.recordResponse(message);
+    this.resolvePendingRequest(message);
+
+    const taskId = message.metadata?.task_id ?? message.payload?.task_id;
     if (taskId) {
-      this.sessionManager.updateTaskStatus(taskId, 'completed', message.payload);
+      this.updateTaskFromReply(taskId, message, 'completed');
     }
     
     this.emit('task_response_received', { message, task_id: taskId });
   }
 
+  private handleErrorMessage(message: AgentMessage): void {
+    const correlationId = message.metadata?.correlation_id;
+    const entry = correlationId ? this.fallbackChains.get(correlationId) : undefined;
+
+    // Hand the original message to the next fallback agent if the recipient gave up
+    if (entry && entry.message.recipient.agent_id === message.sender.agent_id) {
+      this.forgetFallbackChain(correlationId);
+      const reason = message.payload?.error || `Agent ${message.sender.agent_id} returned an error`;
+      if (this.rerouteMessage(entry.message, entry.remaining, reason)) {
+        return;
+      }
+    }
+
+    this.metricsCollector.recordResponse(message);
+    this.resolvePendingRequest(message);
+
+    const taskId = message.metadata?.task_id ?? message.payload?.task_id;
+    if (taskId) {
+      this.updateTaskFromReply(taskId, message, 'failed');
+    }
+
+    this.emit('error_received', { message, task_id: taskId });
+  }
+
+  /**
+   * Only the agent a task is delegated to may complete or fail it, and a reply
+   * correlated with an earlier attempt no longer counts
+   */
+  private updateTaskFromReply(taskId: string, reply: AgentMessage, status: 'completed' | 'failed'): void {
+    const delegation = this.sessionManager.getTaskDelegation(taskId);
+    const attempt = this.taskAttempts.get(taskId);
+    const correlationId = reply.metadata?.correlation_id;
+    const staleAttempt = attempt !== undefined && correlationId !== undefined && correlationId !== attempt;
+    if (!delegation || delegation.delegatee !== reply.sender.agent_id || staleAttempt) {
+      this.emit('task_reply_ignored', { message: reply, task_id: taskId });
+      return;
+    }
+
+    this.sessionManager.updateTaskStatus(taskId, status, reply.payload);
+  }
+
+  /**
+   * Send a workflow step's task, a fan-out task or a task being retried to its
+   * agent; the task fails if it cannot be delivered
+   */
+  private dispatchTask(task: TaskDelegation, metadata: Record<string, any> = {}): void {
+    if (this.reconnectingAgents.has(task.delegatee)) {
+      this.holdTask(task, metadata);
+      return;
+    }
+
+    const message: AgentMessage = {
+      message_id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      sender: {
+        agent_id: task.delegator,
+        framework: this.extractFramework(task.delegator),
+        session_id: task.sessionId
+      },
+      recipient: { agent_id: task.delegatee, framework: this.extractFramework(task.delegatee) },
+      message_type: 'task_request',
+      priority: task.priority,
+      payload: { ...task.payload, task_id: task.taskId },
+      routing: {
+        timeout: `${Math.ceil(task.timeout / 1000)}s`,
+        retry_policy: { max_retries: 0, backoff: 'linear' },
+        delivery_mode: 'async'
+      },
+      metadata: {
+        task_id: task.taskId,
+        session_id: task.sessionId,
+        attempt: task.attempts,
+        ...(task.payload?.workflow_step && { workflow_step: task.payload.workflow_step }),
+        ...metadata
+      }
+    };
+
+    this.taskAttempts.set(task.taskId, message.message_id);
+    const fail = (error: string) => this.sessionManager.updateTaskStatus(task.taskId, 'failed', { error });
+    this.sendMessage(message)
+      .then(sent => {
+        if (!sent) {
+          fail(`Could not deliver task to ${task.delegatee}`);
+        }
+      })
+      .catch(error => fail((error as Error).message));
+  }
+
+  /**
+   * Keep a task for an agent that has not reconnected since the restart; its
+   * timeout keeps running meanwhile
+   */
+  private holdTask(task: TaskDelegation, metadata: Record<string, any>): void {
+    const held = this.heldTasks.get(task.delegatee) || new Map();
+    held.set(task.taskId, { task, metadata });
+    this.heldTasks.set(task.delegatee, held);
+    this.emit('task_held', { task_id: task.taskId, agent_id: task.delegatee });
+  }
+
+  private unholdTask(task: TaskDelegation): boolean {
+    return this.heldTasks.get(task.delegatee)?.delete(task.taskId) ?? false;
+  }
+
+  /**
+   * Dispatch the tasks held for an agent that just connected, skipping any
+   * that ended or moved to another agent in the meantime
+   */
+  private releaseHeldTasks(agentId: string): void {
+    this.reconnectingAgents.delete(agentId);
+    const held = this.heldTasks.get(agentId);
+    if (!held) {
+      return;
+    }
+
+    this.heldTasks.delete(agentId);
+    held.forEach(({ task, metadata }) => {
+      if (task.status === 'pending' && task.delegatee === agentId) {
+        this.dispatchTask(task, metadata);
+      }
+    });
+  }
+
+  /**
+   * Send aggregated results to a referee agent as a `referee` task and
+   * resolve with its verdict
+   */
+  private async askReferee(referee: string, request: RefereeRequest, timeout: number): Promise<any> {
+    const message: AgentMessage = {
+      message_id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      sender: {
+        agent_id: BUS_AGENT_ID,
+        framework: 'communication-bus',
+        ...(request.session_id !== 'ad-hoc' && { session_id: request.session_id })
+      },
+      recipient: { agent_id: referee, framework: this.extractFramework(referee) },
+      message_type: 'task_request',
+      priority: 'high',
+      payload: {
+        task_type: 'referee',
+        judged_task_type: request.task_type,
+        aggregation_id: request.aggregation_id,
+        agent_results: request.agent_results,
+        conflicts: request.conflicts
+      },
+      routing: {
+        timeout: `${Math.ceil(timeout / 1000)}s`,
+        retry_policy: { max_retries: 0, backoff: 'linear' },
+        delivery_mode: 'sync'
+      },
+      metadata: { referee_for: request.aggregation_id, session_id: request.session_id }
+    };
+
+    const reply = await this.request(message, timeout);
+    if (reply.message_type === 'error') {
+      throw new Error(reply.payload?.error || `Referee ${referee} returned an error`);
+    }
+    return reply.payload;
+  }
+
+  /**
+   * Feed a finished fan-out task into its aggregation
+   */
+  private collectFanOutResult(delegation: TaskDelegation, status: TaskDelegation['status'], result: any): void {
+    const fanOutId = this.fanOutTasks.get(delegation.taskId);
+    const fanOut = fanOutId ? this.fanOuts.get(fanOutId) : undefined;
+    if (!fanOutId || !fanOut || status === 'pending' || status === 'in_progress') {
+      return;
+    }
+
+    this.fanOutTasks.delete(delegation.taskId);
+    fanOut.taskIds.delete(delegation.taskId);
+    fanOut.responded++;
+    const succeeded = status === 'completed';
+    if (succeeded) {
+      fanOut.succeeded++;
+    }
+
+    // Agents may wrap their answer as { result, confidence }
+    const agentResult: AgentResult = succeeded
+      ? {
+        agent_id: delegation.delegatee,
+        result: result?.result ?? result ?? null,
+        confidence: typeof result?.confidence === 'number' ? result.confidence : DEFAULT_RESULT_CONFIDENCE,
+        completion_time: `${Date.now() - delegation.createdAt.getTime()}ms`
+      }
+      : {
+        agent_id: delegation.delegatee,
+        result: null,
+        confidence: 0,
+        completion_time: `${Date.now() - delegation.createdAt.getTime()}ms`,
+        error: result?.error || result?.reason || `Task ${status}`
+      };
+    fanOut.aggregationId = fanOut.aggregationId
+      ? fanOut.aggregationId.then(aggregationId => {
+        this.resultAggregator.addAgentResult(aggregationId, agentResult);
+        return aggregationId;
+      })
+      : this.resultAggregator.aggregateResults({ ...fanOut.request, agentResults: [agentResult] })
+        .then(aggregationId => {
+          this.fanOutAggregations.set(aggregationId, fanOutId);
+          // The first result alone may already have reached a quorum
+          if (this.resultAggregator.getAggregation(aggregationId)?.status === 'completed') {
+            this.completeFanOut(fanOutId, 'quorum');
+          }
+          return aggregationId;
+        });
+
+    if (fanOut.succeeded >= fanOut.quorum) {
+      this.completeFanOut(fanOutId, fanOut.taskIds.size === 0 ? 'all_responded' : 'quorum');
+    } else if (fanOut.taskIds.size === 0) {
+      this.completeFanOut(fanOutId, 'all_responded');
+    }
+  }
+
+  /**
+   * Synthesize what a fan-out has collected and cancel its unanswered tasks
+   */
+  private completeFanOut(fanOutId: string, reason: FanOutCompletion): void {
+    const fanOut = this.fanOuts.get(fanOutId);
+    if (!fanOut) {
+      return;
+    }
+
+    clearTimeout(fanOut.timer);
+    this.fanOuts.delete(fanOutId);
+    fanOut.taskIds.forEach(taskId => {
+      this.fanOutTasks.delete(taskId);
+      this.sessionManager.cancelTask(taskId, `Fan-out ${fanOutId} completed (${reason})`);
+    });
+
+    if (!fanOut.aggregationId) {
+      const error = new FanOutTimeoutError(fanOutId, fanOut.timeout);
+      this.emit('fan_out_failed', { fan_out_id: fanOutId, error: error.message });
+      fanOut.reject(error);
+      return;
+    }
+
+    fanOut.aggregationId
+      .then(aggregationId => {
+        this.fanOutAggregations.delete(aggregationId);
+        return this.resultAggregator.completeAggregation(aggregationId);
+      })
+      .then(aggregation => {
+        this.emit('fan_out_completed', { fan_out_id: fanOutId, reason, aggregation });
+        fanOut.resolve(aggregation!);
+      })
+      .catch(error => {
+        this.emit('fan_out_failed', { fan_out_id: fanOutId, error: (error as Error).message });
+        fanOut.reject(error);
+      });
+  }
+
+  /**
+   * Agents may cancel tasks they delegated
+   */
+  private handleCancelMessage(message: AgentMessage): void {
+    const taskId = message.payload?.task_id ?? message.metadata?.task_id;
+    const delegation = taskId ? this.sessionManager.getTaskDelegation(taskId) : null;
+    if (!delegation || delegation.delegator !== message.sender.agent_id) {
+      this.emit('cancel_rejected', {
+        message,
+        task_id: taskId,
+        reason: delegation ? `Only ${delegation.delegator} can cancel task ${taskId}` : `Task ${taskId} not found`
+      });
+      return;
+    }
+
+    this.sessionManager.cancelTask(taskId, message.payload?.reason);
+  }
+
+  /**
+   * Tell the session's other connected or queued participants which shared
+   * context keys changed
+   */
+  private broadcastContextUpdate(event: {
+    sessionId: string;
+    updatedBy: string;
+    changes: SharedContextChange[];
+    versions: Record<string, number>;
+  }): void {
+    const session = this.sessionManager.getSession(event.sessionId);
+    const recipients = (session?.participants || [])
+      .map(participant => participant.agent_id)
+      .filter(agentId => agentId !== event.updatedBy && this.registeredAgents.has(agentId));
+    if (recipients.length === 0) {
+      return;
+    }
+
+    this.broadcastMessage(BUS_AGENT_ID, recipients, {
+      sender: { agent_id: BUS_AGENT_ID, framework: 'communication-bus', session_id: event.sessionId },
+      message_type: 'status_update',
+      priority: 'medium',
+      payload: {
+        event: 'context_updated',
+        session_id: event.sessionId,
+        updated_by: event.updatedBy,
+        changes: event.changes,
+        versions: event.versions
+      },
+      routing: {
+        timeout: '30s',
+        retry_policy: { max_retries: 3, backoff: 'exponential' },
+        delivery_mode: 'async'
+      }
+    }).catch(error => {
+      this.emit('context_broadcast_failed', { session_id: event.sessionId, error: (error as Error).message });
+    });
+  }
+
+  /**
+   * Build a session participant from a REST request body
+   */
+  private parseParticipant(raw: unknown, field: string): AgentParticipant {
+    const value = (raw || {}) as Record<string, unknown>;
+    if (typeof value.agent_id !== 'string' || !value.agent_id.includes('://')) {
+      throw new Error(`${field}.agent_id must be an agent ID like framework://name`);
+    }
+
+    return {
+      agent_id: value.agent_id,
+      framework: typeof value.framework === 'string' ? value.framework : this.extractFramework(value.agent_id),
+      role: typeof value.role === 'string' ? value.role : 'implementer',
+      status: 'active',
+      join_time: new Date().toISOString(),
+      ...(Array.isArray(value.capabilities) && { capabilities: value.capabilities as string[] }),
+      ...(typeof value.metadata === 'object' && value.metadata !== null && { metadata: value.metadata as Record<string, any> })
+    };
+  }
+
+  /**
+   * Agents may only read sessions they take part in
+   */
+  private authorizeSessionAccess(principal: Principal, sessionId: string): void {
+    const participants = this.sessionManager.getSession(sessionId)?.participants || [];
+    if (principal.type === 'agent' && !participants.some(participant => participant.agent_id === principal.agentId)) {
+      throw new AuthenticationError(`Agent ${principal.agentId} is not a participant in session ${sessionId}`, 403);
+    }
+  }
+
+  /**
+   * Agents may read aggregations they contributed to or whose session they
+   * take part in
+   */
+  private authorizeAggregationAccess(principal: Principal, aggregation: ResultAggregation): void {
+    if (principal.type === 'agent' && aggregation.agent_results.some(result => result.agent_id === principal.agentId)) {
+      return;
+    }
+    this.authorizeSessionAccess(principal, aggregation.session_id);
+  }
+
+  /**
+   * Agents may see and act on dead letters they sent or that were meant for them
+   */
+  private authorizeDeadLetterAccess(principal: Principal, deadLetter: DeadLetter): void {
+    if (principal.type === 'agent' && !this.isDeadLetterParty(principal.agentId, deadLetter)) {
+      throw new AuthenticationError(
+        `Agent ${principal.agentId} is not part of dead letter ${deadLetter.dead_letter_id}`,
+        403
+      );
+    }
+  }
+
+  private isDeadLetterParty(agentId: string, deadLetter: DeadLetter): boolean {
+    const { message } = deadLetter;
+    return message.sender.agent_id === agentId ||
+      message.recipient.agent_id === agentId ||
+      message.metadata?.original_recipient === agentId;
+  }
+
+  /**
+   * Send a cancel control message so the agent stops working on the task
+   */
+  private sendCancellation(task: TaskDelegation, reason?: string): void {
+    const message: AgentMessage = {
+      message_id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      sender: {
+        agent_id: task.delegator,
+        framework: this.extractFramework(task.delegator),
+        ...(task.sessionId !== 'ad-hoc' && { session_id: task.sessionId })
+      },
+      recipient: { agent_id: task.delegatee, framework: this.extractFramework(task.delegatee) },
+      message_type: 'cancel',
+      priority: 'high',
+      payload: { task_id: task.taskId, ...(reason !== undefined && { reason }) },
+      routing: {
+        timeout: '30s',
+        retry_policy: { max_retries: 3, backoff: 'exponential' },
+        delivery_mode: 'async'
+      },
+      metadata: { task_id: task.taskId, session_id: task.sessionId }
+    };
+
+    this.sendMessage(message).catch(error => {
+      this.emit('message_failed', { message, error: (error as Error).message });
+    });
+  }
+
+  private resolvePendingRequest(reply: AgentMessage): void {
+    const correlationId = reply.metadata?.correlation_id;
+    const taskId = reply.metadata?.task_id ?? reply.payload?.task_id;
+
+    let requestId: string | undefined = correlationId && this.pendingRequests.has(correlationId)
+      ? correlationId
+      : undefined;
+
+    if (!requestId && taskId) {
+      for (const [id, pending] of this.pendingRequests) {
+        if (pending.taskId === taskId) {
+          requestId = id;
+          break;
+        }
+      }
+    }
+
+    const pending = requestId ? this.pendingRequests.get(requestId) : undefined;
+    if (!requestId || !pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(requestId);
+    pending.resolve(reply);
+  }
+
   private handleStatusUpdate(message: AgentMessage): void {
     this.emit('status_update_received', { message });
   }
 
   private handleHeartbeat(message: AgentMessage): void {
+    this.healthMonitor.recordHeartbeat(message.sender.agent_id, message.payload?.resource_usage);
     this.emit('heartbeat_received', { agent_id: message.sender.agent_id });
   }
 
@@ -459,7 +2557,7 @@ export class CommunicationBus extends EventEmitter {
   }
 
   private extractFramework(agentId: string): string {
-    const match = agentId.match(/^(\w+):\/\//);
+    const match = agentId.match(/^([\w-]+):\/\//);
     return match ? match[1] : 'unknown';
   }
 
@@ -468,18 +2566,94 @@ export class CommunicationBus extends EventEmitter {
     return url.searchParams.get('agent_id');
   }
 
+  private extractCredentialsFromRequest(req: any) {
+    const url = new URL(req.url || '', `http://${req.headers.host}`);
+    return extractCredentials(req.headers || {}, url.searchParams);
+  }
+
+  private sendAuthError(res: express.Response, error: unknown): void {
+    const statusCode = error instanceof AuthenticationError ? error.statusCode : 401;
+    res.status(statusCode).json({ success: false, error: (error as Error).message });
+  }
+
+  /**
+   * Tell an agent its message was refused instead of processing it
+   */
+  private rejectMessage(ws: WebSocket, agentId: string, message: AgentMessage, reason: string): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(this.createErrorReply(agentId, message, { error: reason })));
+    }
+    this.emit('message_rejected', { agent_id: agentId, message, reason });
+  }
+
+  /**
+   * Evaluate the authorization policy. Denied messages are answered with an
+   * error message to the sender and go no further.
+   */
+  private enforcePolicy(message: AgentMessage): boolean {
+    // The policy governs agents; context broadcasts, referee requests and
+    // other messages the bus sends itself are never denied
+    if (message.sender.agent_id === BUS_AGENT_ID) {
+      return true;
+    }
+
+    const decision = this.policyEngine.evaluate(message);
+    if (decision.allowed) {
+      return true;
+    }
+
+    const senderId = message.sender.agent_id;
+    this.transmit(senderId, this.createErrorReply(senderId, message, {
+      error: decision.reason,
+      code: 'policy_denied',
+      ...(decision.rule_id && { rule_id: decision.rule_id })
+    }));
+    this.emit('message_denied', { message, rule_id: decision.rule_id, reason: decision.reason });
+    return false;
+  }
+
+  private respondIfDenied(message: AgentMessage, res: express.Response): boolean {
+    const decision = this.policyEngine.evaluate(message);
+    if (decision.allowed) {
+      return false;
+    }
+
+    this.emit('message_denied', { message, rule_id: decision.rule_id, reason: decision.reason });
+    res.status(403).json({
+      success: false,
+      error: decision.reason,
+      ...(decision.rule_id && { rule_id: decision.rule_id })
+    });
+    return true;
+  }
+
+  private createErrorReply(agentId: string, message: AgentMessage, payload: Record<string, any>): AgentMessage {
+    return {
+      message_id: uuidv4(),
+      timestamp: new Date().toISOString(),
+      sender: { agent_id: BUS_AGENT_ID, framework: 'communication-bus' },
+      recipient: { agent_id: agentId, framework: this.extractFramework(agentId) },
+      message_type: 'error',
+      priority: 'high',
+      payload,
+      routing: {
+        timeout: '30s',
+        retry_policy: { max_retries: 0, backoff: 'linear' },
+        delivery_mode: 'async'
+      },
+      metadata: { correlation_id: message.message_id }
+    };
+  }
+
   private calculateErrorRate(): number {
-    // This would be implemented with actual error tracking
-    return 0.05; // Placeholder
+    return this.metricsCollector.snapshot().error_rate;
   }
 
   private calculateThroughput(): number {
-    // This would be implemented with actual throughput calculation
-    return 10.5; // Placeholder
+    return this.metricsCollector.snapshot().throughput;
   }
 
   private calculateAverageResponseTime(): number {
-    // This would be implemented with actual response time tracking
-    return 150; // Placeholder in milliseconds
+    return this.metricsCollector.snapshot().average_response_time;
   }
 }
\ No newline at end of file
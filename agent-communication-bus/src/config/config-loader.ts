@@ -1,6 +1,6 @@
 import fs from 'fs';
 import path from 'path';
-import { CommunicationBusConfig } from '../types/protocol';
+import { CommunicationBusConfig, AuthorizationPolicy, AuthorizationRule, AgentMessage } from '../types/protocol';
 import { OpenCodeConfig } from '../adapters/opencode-adapter';
 import { CodexConfig } from '../adapters/codex-adapter';
 import { ClaudeCodeConfig } from '../adapters/claude-code-adapter';
@@ -20,6 +20,8 @@ export interface SystemConfiguration {
   bus: CommunicationBusConfig;
   security: {
     apiKey: string;
+    jwtSecret?: string;
+    authorization?: AuthorizationPolicy;
   };
   persistence: {
     databaseUrl?: string;
@@ -146,7 +148,12 @@ function deepMerge<T extends Record<string, unknown>>(base: T, overrides: Record
 function normalizeConfiguration(raw: Record<string, unknown>): SystemConfiguration {
   const securityObject = isPlainObject(raw.security) ? raw.security as Record<string, unknown> : {};
   const securityApiKey = ensureString(securityObject.apiKey, 'security.apiKey', 'change-me');
-  const busConfig = normalizeBusConfig(raw.bus ?? {}, securityApiKey);
+  const jwtSecret = toOptionalString(securityObject.jwtSecret);
+  const authorization = normalizeAuthorizationPolicy(securityObject.authorization);
+  const busConfig = normalizeBusConfig(raw.bus ?? {}, securityApiKey, jwtSecret);
+  if (authorization) {
+    busConfig.authorization = authorization;
+  }
   const persistenceConfig = normalizePersistenceConfig(raw.persistence ?? {});
 
   const adaptersRaw = isPlainObject(raw.adapters) ? raw.adapters as Record<string, unknown> : {};
@@ -167,21 +174,23 @@ function normalizeConfiguration(raw: Record<string, unknown>): SystemConfigurati
   return {
     bus: busConfig,
     security: {
-      apiKey: securityApiKey
+      apiKey: securityApiKey,
+      ...(jwtSecret && { jwtSecret }),
+      ...(authorization && { authorization })
     },
     persistence: persistenceConfig,
     adapters
   };
 }
 
-function normalizeBusConfig(raw: unknown, apiKey: string): CommunicationBusConfig {
+function normalizeBusConfig(raw: unknown, apiKey: string, jwtSecret?: string): CommunicationBusConfig {
   if (!isPlainObject(raw)) {
     throw new Error('Invalid configuration: bus must be an object');
   }
 
   const bus = raw as Record<string, unknown>;
 
-  return {
+  const busConfig: CommunicationBusConfig = {
     port: ensureNumber(bus.port, 'bus.port', 8080),
     host: ensureString(bus.host, 'bus.host', '0.0.0.0'),
     maxConnections: ensureNumber(bus.maxConnections, 'bus.maxConnections', 100),
@@ -191,6 +200,143 @@ function normalizeBusConfig(raw: unknown, apiKey: string): CommunicationBusConfi
     encryptionEnabled: ensureBoolean(bus.encryptionEnabled, 'bus.encryptionEnabled', false),
     apiKey
   };
+
+  const persistenceDirectory = toOptionalString(bus.persistenceDirectory);
+  if (persistenceDirectory) {
+    busConfig.persistenceDirectory = persistenceDirectory;
+  }
+
+  const sessionStore = toOptionalString(bus.sessionStore);
+  if (sessionStore) {
+    if (sessionStore !== 'file' && sessionStore !== 'sqlite') {
+      throw new Error("Configuration value for bus.sessionStore must be 'file' or 'sqlite'");
+    }
+    busConfig.sessionStore = sessionStore;
+  }
+
+  const sessionStorePath = toOptionalString(bus.sessionStorePath);
+  if (sessionStorePath) {
+    busConfig.sessionStorePath = sessionStorePath;
+  }
+
+  if (bus.maxQueuedMessages !== undefined) {
+    busConfig.maxQueuedMessages = ensureNumber(bus.maxQueuedMessages, 'bus.maxQueuedMessages');
+  }
+
+  if (bus.ackTimeout !== undefined) {
+    busConfig.ackTimeout = ensureNumber(bus.ackTimeout, 'bus.ackTimeout');
+  }
+
+  if (bus.taskMaxRetries !== undefined) {
+    busConfig.taskMaxRetries = ensureNumber(bus.taskMaxRetries, 'bus.taskMaxRetries');
+  }
+
+  if (bus.sessionTimeout !== undefined) {
+    busConfig.sessionTimeout = ensureNumber(bus.sessionTimeout, 'bus.sessionTimeout');
+  }
+
+  if (jwtSecret) {
+    busConfig.jwtSecret = jwtSecret;
+  }
+
+  return busConfig;
+}
+
+const MESSAGE_TYPES: Array<AgentMessage['message_type']> = [
+  'task_request',
+  'task_response',
+  'status_update',
+  'error',
+  'heartbeat',
+  'cancel'
+];
+
+function normalizeAuthorizationPolicy(raw: unknown): AuthorizationPolicy | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+
+  const policyRaw = toPlainObject(raw, 'security.authorization');
+  const defaultEffect = ensureString(policyRaw.defaultEffect, 'security.authorization.defaultEffect', 'allow');
+  if (defaultEffect !== 'allow' && defaultEffect !== 'deny') {
+    throw new Error("Configuration value for security.authorization.defaultEffect must be 'allow' or 'deny'");
+  }
+
+  const rulesRaw = policyRaw.rules ?? [];
+  if (!Array.isArray(rulesRaw)) {
+    throw new Error('Configuration value for security.authorization.rules must be an array');
+  }
+
+  const rules = rulesRaw.map((entry, index) => {
+    const field = `security.authorization.rules[${index}]`;
+    const ruleRaw = toPlainObject(entry, field);
+
+    const effect = ensureString(ruleRaw.effect, `${field}.effect`, '');
+    if (effect !== 'allow' && effect !== 'deny') {
+      throw new Error(`Configuration value for ${field}.effect must be 'allow' or 'deny'`);
+    }
+
+    const rule: AuthorizationRule = {
+      id: ensureString(ruleRaw.id, `${field}.id`, `rule_${index}`),
+      effect
+    };
+
+    const description = toOptionalString(ruleRaw.description);
+    if (description) {
+      rule.description = description;
+    }
+
+    const senders = normalizeStringList(ruleRaw.senders, `${field}.senders`);
+    if (senders) {
+      rule.senders = senders;
+    }
+
+    const recipients = normalizeStringList(ruleRaw.recipients, `${field}.recipients`);
+    if (recipients) {
+      rule.recipients = recipients;
+    }
+
+    const messageTypes = normalizeStringList(ruleRaw.messageTypes, `${field}.messageTypes`);
+    if (messageTypes) {
+      const invalid = messageTypes.find(type => !MESSAGE_TYPES.includes(type as AgentMessage['message_type']));
+      if (invalid) {
+        throw new Error(`Configuration value for ${field}.messageTypes contains unknown message type '${invalid}'`);
+      }
+      rule.messageTypes = messageTypes as Array<AgentMessage['message_type']>;
+    }
+
+    const taskTypes = normalizeStringList(ruleRaw.taskTypes, `${field}.taskTypes`);
+    if (taskTypes) {
+      rule.taskTypes = taskTypes;
+    }
+
+    const sessionRoles = normalizeStringList(ruleRaw.sessionRoles, `${field}.sessionRoles`);
+    if (sessionRoles) {
+      rule.sessionRoles = sessionRoles;
+    }
+
+    if (ruleRaw.payload !== undefined) {
+      rule.payload = toPlainObject(ruleRaw.payload, `${field}.payload`);
+    }
+
+    return rule;
+  });
+
+  return { defaultEffect, rules };
+}
+
+function normalizeStringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const list = Array.isArray(value) ? value : [value];
+  return list.map((entry, index) => {
+    const parsed = toOptionalString(entry);
+    if (parsed === undefined || parsed.length === 0) {
+      throw new Error(`Configuration value for ${field}[${index}] must be a non-empty string`);
+    }
+    return parsed;
+  });
 }
 
 function normalizePersistenceConfig(raw: unknown): SystemConfiguration['persistence'] {
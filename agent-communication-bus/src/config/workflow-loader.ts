@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { AgentParticipant, WorkflowLoop, WorkflowStep } from '../types/protocol';
+import { WorkflowRunner } from '../workflow-runner';
+import { validateCondition } from '../workflow-conditions';
+
+export type WorkflowDefinitionFormat = 'json' | 'yaml';
+
+/**
+ * A validated workflow definition. `steps` and `participants` can be passed
+ * straight to `SessionManager.createSession`.
+ */
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  agents: Record<string, string>;
+  inputs: string[];
+  participants: AgentParticipant[];
+  steps: WorkflowStep[];
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600 };
+
+/**
+ * Load a workflow definition from a `.json`, `.yaml` or `.yml` file
+ */
+export function loadWorkflowDefinition(filePath: string): WorkflowDefinition {
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Workflow definition file not found: ${resolvedPath}`);
+  }
+
+  const extension = path.extname(resolvedPath).toLowerCase();
+  const format: WorkflowDefinitionFormat | undefined = extension === '.json'
+    ? 'json'
+    : extension === '.yaml' || extension === '.yml' ? 'yaml' : undefined;
+  if (!format) {
+    throw new Error(`Workflow definition file ${resolvedPath} must have a .json, .yaml or .yml extension`);
+  }
+
+  try {
+    return parseWorkflowDefinition(fs.readFileSync(resolvedPath, 'utf8'), format);
+  } catch (error) {
+    throw new Error(`Invalid workflow definition ${resolvedPath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Parse and validate a workflow definition from JSON or YAML source
+ */
+export function parseWorkflowDefinition(
+  source: string,
+  format: WorkflowDefinitionFormat = 'yaml'
+): WorkflowDefinition {
+  const raw = format === 'json' ? JSON.parse(source) : yaml.load(source);
+  return normalizeWorkflowDefinition(raw);
+}
+
+/**
+ * Validate an already-parsed workflow definition: agent references must be
+ * declared in `agents`, dependencies must exist and be acyclic, loops and
+ * failure branches must point at valid steps, and every step input must be a
+ * workflow input or an output of one of the step's ancestors.
+ */
+export function normalizeWorkflowDefinition(raw: unknown): WorkflowDefinition {
+  if (!isPlainObject(raw)) {
+    throw new Error('Workflow definition must be an object');
+  }
+
+  const name = ensureString(raw.name, 'name');
+  const description = toOptionalString(raw.description, 'description');
+  const agents = normalizeAgents(raw.agents);
+  const inputs = normalizeStringList(raw.inputs, 'inputs');
+
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    throw new Error('Workflow definition value for steps must be a non-empty array');
+  }
+  const steps = raw.steps.map((step, index) => normalizeStep(step, `steps[${index}]`, agents));
+
+  WorkflowRunner.validate(steps);
+  validateDataFlow(steps, inputs);
+
+  const participants: AgentParticipant[] = Object.entries(agents).map(([role, agentId]) => ({
+    agent_id: agentId,
+    framework: extractFramework(agentId),
+    role,
+    status: 'active',
+    join_time: new Date().toISOString()
+  }));
+
+  return {
+    name,
+    ...(description !== undefined && { description }),
+    agents,
+    inputs,
+    participants,
+    steps
+  };
+}
+
+function normalizeAgents(raw: unknown): Record<string, string> {
+  if (!isPlainObject(raw) || Object.keys(raw).length === 0) {
+    throw new Error('Workflow definition value for agents must map roles to agent IDs');
+  }
+
+  const agents: Record<string, string> = {};
+  for (const [role, agentId] of Object.entries(raw)) {
+    const id = ensureString(agentId, `agents.${role}`);
+    if (!id.includes('://')) {
+      throw new Error(`Workflow definition value for agents.${role} must be an agent ID like 'framework://name'`);
+    }
+    agents[role] = id;
+  }
+  return agents;
+}
+
+function normalizeStep(raw: unknown, field: string, agents: Record<string, string>): WorkflowStep {
+  if (!isPlainObject(raw)) {
+    throw new Error(`Workflow definition value for ${field} must be an object`);
+  }
+
+  const name = ensureString(raw.name, `${field}.name`);
+  const requiredAgents = normalizeStringList(raw.required_agents, `${field}.required_agents`)
+    .map((agent, index) => resolveAgent(agent, `${field}.required_agents[${index}]`, agents));
+  if (requiredAgents.length === 0) {
+    throw new Error(`Workflow definition value for ${field}.required_agents must list at least one agent`);
+  }
+
+  const optionalAgents = raw.optional_agents === undefined
+    ? undefined
+    : normalizeStringList(raw.optional_agents, `${field}.optional_agents`)
+      .map((agent, index) => resolveAgent(agent, `${field}.optional_agents[${index}]`, agents));
+  const dependencies = raw.dependencies === undefined
+    ? undefined
+    : normalizeStringList(raw.dependencies, `${field}.dependencies`);
+  const inputs = raw.inputs === undefined ? undefined : normalizeStringList(raw.inputs, `${field}.inputs`);
+  const timeout = raw.timeout === undefined ? undefined : parseDuration(raw.timeout, `${field}.timeout`);
+  const estimatedDuration = raw.estimated_duration === undefined
+    ? timeout ?? 0
+    : parseDuration(raw.estimated_duration, `${field}.estimated_duration`);
+  const condition = raw.condition === undefined ? undefined : validateCondition(raw.condition, `${field}.condition`);
+  const loop = raw.loop === undefined ? undefined : normalizeLoop(raw.loop, `${field}.loop`);
+  const onFailure = toOptionalString(raw.on_failure, `${field}.on_failure`);
+
+  return {
+    name,
+    description: toOptionalString(raw.description, `${field}.description`) ?? name,
+    required_agents: requiredAgents,
+    ...(optionalAgents && { optional_agents: optionalAgents }),
+    estimated_duration: estimatedDuration,
+    ...(dependencies && { dependencies }),
+    ...(inputs && { inputs }),
+    outputs: normalizeStringList(raw.outputs, `${field}.outputs`),
+    ...(timeout !== undefined && { timeout }),
+    ...(condition && { condition }),
+    ...(loop && { loop }),
+    ...(onFailure !== undefined && { on_failure: onFailure })
+  };
+}
+
+function normalizeLoop(raw: unknown, field: string): WorkflowLoop {
+  if (!isPlainObject(raw)) {
+    throw new Error(`Workflow definition value for ${field} must be an object`);
+  }
+
+  const maxIterations = raw.max_iterations;
+  if (typeof maxIterations !== 'number' || !Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new Error(`Workflow definition value for ${field}.max_iterations must be a positive integer`);
+  }
+
+  const onExhausted = raw.on_exhausted;
+  if (onExhausted !== undefined && onExhausted !== 'continue' && onExhausted !== 'fail') {
+    throw new Error(`Workflow definition value for ${field}.on_exhausted must be 'continue' or 'fail'`);
+  }
+
+  return {
+    target: ensureString(raw.target, `${field}.target`),
+    when: validateCondition(raw.when, `${field}.when`),
+    max_iterations: maxIterations,
+    ...(onExhausted !== undefined && { on_exhausted: onExhausted })
+  };
+}
+
+/**
+ * Agents are referenced by role or by one of the declared agent IDs
+ */
+function resolveAgent(reference: string, field: string, agents: Record<string, string>): string {
+  if (agents[reference]) {
+    return agents[reference];
+  }
+  if (Object.values(agents).includes(reference)) {
+    return reference;
+  }
+  throw new Error(`Workflow definition value for ${field} references unknown agent '${reference}'`);
+}
+
+/**
+ * A failure handler stands in for the step it handles, so it may use that
+ * step's upstream outputs and its own outputs may feed the step's dependents
+ */
+function validateDataFlow(steps: WorkflowStep[], workflowInputs: string[]): void {
+  const producers = new Map<string, string>();
+  steps.forEach(step => {
+    step.outputs.forEach(output => {
+      const existing = producers.get(output);
+      if (existing) {
+        throw new Error(`Output '${output}' is declared by both ${existing} and ${step.name}`);
+      }
+      producers.set(output, step.name);
+    });
+  });
+
+  const ancestors = WorkflowRunner.ancestorsOf(steps);
+  const upstream = new Map<string, Set<string>>();
+  steps.forEach(step => {
+    const names = new Set(ancestors.get(step.name));
+    ancestors.get(step.name)!.forEach(ancestor => {
+      const handler = steps.find(candidate => candidate.name === ancestor)?.on_failure;
+      if (handler) {
+        names.add(handler);
+      }
+    });
+    steps
+      .filter(candidate => candidate.on_failure === step.name)
+      .forEach(handled => ancestors.get(handled.name)!.forEach(ancestor => names.add(ancestor)));
+    upstream.set(step.name, names);
+  });
+
+  steps.forEach(step => {
+    (step.inputs || []).forEach(input => {
+      if (workflowInputs.includes(input)) {
+        return;
+      }
+      const producer = producers.get(input);
+      if (!producer) {
+        throw new Error(`Step ${step.name} requires input '${input}' that no step outputs`);
+      }
+      if (!upstream.get(step.name)!.has(producer)) {
+        throw new Error(`Step ${step.name} requires input '${input}' from ${producer} but does not depend on it`);
+      }
+    });
+  });
+}
+
+/**
+ * Durations are seconds, either as a number or a string such as `90s`, `10m` or `1h`
+ */
+function parseDuration(value: unknown, field: string): number {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+    return value;
+  }
+  const match = typeof value === 'string' ? /^(\d+(?:\.\d+)?)\s*(s|m|h)?$/.exec(value.trim()) : null;
+  if (!match) {
+    throw new Error(`Workflow definition value for ${field} must be a number of seconds or a duration like '10m'`);
+  }
+  return parseFloat(match[1]) * DURATION_UNITS[match[2] || 's'];
+}
+
+function normalizeStringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`Workflow definition value for ${field} must be an array of strings`);
+  }
+  return value.map((entry, index) => ensureString(entry, `${field}[${index}]`));
+}
+
+function ensureString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Workflow definition value for ${field} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function toOptionalString(value: unknown, field: string): string | undefined {
+  return value === undefined || value === null ? undefined : ensureString(value, field);
+}
+
+function extractFramework(agentId: string): string {
+  const match = agentId.match(/^([\w-]+):\/\//);
+  return match ? match[1] : 'unknown';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AgentMessage } from './types/protocol';
+
+export interface DeliveryAttempt {
+  agent_id: string;
+  timestamp: string;
+  outcome: 'routing_failed' | 'redelivered' | 'rerouted' | 'delivery_failed';
+  error?: string;
+}
+
+export interface DeadLetter {
+  dead_letter_id: string;
+  message: AgentMessage;
+  error: string;
+  attempts: DeliveryAttempt[];
+  dead_lettered_at: string;
+  replay_count: number;
+}
+
+/**
+ * Holds messages the bus gave up on, together with the delivery attempts
+ * that led there, so they can be inspected and replayed later.
+ */
+export class DeadLetterQueue {
+  private deadLetters: Map<string, DeadLetter> = new Map();
+  private attemptHistory: Map<string, DeliveryAttempt[]> = new Map();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  /**
+   * Record a delivery attempt for a message that may later be dead-lettered
+   */
+  recordAttempt(messageId: string, attempt: Omit<DeliveryAttempt, 'timestamp'>): void {
+    const history = this.attemptHistory.get(messageId) || [];
+    history.push({ ...attempt, timestamp: new Date().toISOString() });
+    this.attemptHistory.set(messageId, history);
+  }
+
+  /**
+   * Drop attempt history for a message that was eventually delivered
+   */
+  clearAttempts(messageId: string): void {
+    this.attemptHistory.delete(messageId);
+  }
+
+  /**
+   * Move a failed message into the dead-letter queue
+   */
+  add(message: AgentMessage, error: string, finalAttempt: Omit<DeliveryAttempt, 'timestamp'>): DeadLetter {
+    this.recordAttempt(message.message_id, finalAttempt);
+
+    const deadLetter: DeadLetter = {
+      dead_letter_id: `dl_${Date.now()}_${uuidv4().substring(0, 8)}`,
+      message,
+      error,
+      attempts: this.attemptHistory.get(message.message_id) || [],
+      dead_lettered_at: new Date().toISOString(),
+      replay_count: message.metadata?.replay_count || 0
+    };
+
+    this.attemptHistory.delete(message.message_id);
+    this.deadLetters.set(deadLetter.dead_letter_id, deadLetter);
+
+    // Drop the oldest entries once the cap is exceeded
+    while (this.deadLetters.size > this.maxEntries) {
+      const oldest = this.deadLetters.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.deadLetters.delete(oldest);
+    }
+
+    return deadLetter;
+  }
+
+  /**
+   * List dead letters, oldest first, optionally for a single recipient
+   */
+  list(filter: { agentId?: string } = {}): DeadLetter[] {
+    return Array.from(this.deadLetters.values())
+      .filter(entry => !filter.agentId || entry.message.recipient.agent_id === filter.agentId);
+  }
+
+  get(deadLetterId: string): DeadLetter | null {
+    return this.deadLetters.get(deadLetterId) || null;
+  }
+
+  remove(deadLetterId: string): boolean {
+    return this.deadLetters.delete(deadLetterId);
+  }
+
+  size(): number {
+    return this.deadLetters.size;
+  }
+
+  clear(): void {
+    this.deadLetters.clear();
+    this.attemptHistory.clear();
+  }
+}
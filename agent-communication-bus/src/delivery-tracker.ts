@@ -0,0 +1,245 @@
+import { EventEmitter } from 'events';
+import { AgentMessage, DeliveryFrame, MessageRouting } from './types/protocol';
+
+export interface DeliveryTrackerConfig {
+  ackTimeout: number;
+  baseRetryDelay: number;
+  maxRetryDelay: number;
+}
+
+export interface PendingDelivery {
+  agentId: string;
+  message: AgentMessage;
+  attempts: number;
+  firstSentAt: number;
+  lastSentAt: number;
+  lastError?: string;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Transmits a message to a connected agent. Returns false when the agent has
+ * no open connection, in which case the tracker stops tracking the message.
+ */
+export type DeliveryTransmitter = (agentId: string, message: AgentMessage) => boolean;
+
+export function isDeliveryFrame(value: unknown): value is DeliveryFrame {
+  return Boolean(value) &&
+    typeof value === 'object' &&
+    ((value as DeliveryFrame).frame_type === 'ack' || (value as DeliveryFrame).frame_type === 'nack') &&
+    typeof (value as DeliveryFrame).message_id === 'string';
+}
+
+/**
+ * Tracks messages sent to agents until they are acknowledged, redelivering
+ * on ack timeout or nack according to the message retry policy.
+ */
+export class DeliveryTracker extends EventEmitter {
+  private pending: Map<string, Map<string, PendingDelivery>> = new Map();
+  private config: DeliveryTrackerConfig;
+
+  constructor(
+    private transmit: DeliveryTransmitter,
+    config: Partial<DeliveryTrackerConfig> = {}
+  ) {
+    super();
+    this.config = {
+      ackTimeout: 30000,
+      baseRetryDelay: 1000,
+      maxRetryDelay: 30000,
+      ...config
+    };
+  }
+
+  /**
+   * Start tracking a message that has just been sent to an agent
+   */
+  track(agentId: string, message: AgentMessage): void {
+    const agentPending = this.pending.get(agentId) || new Map<string, PendingDelivery>();
+    const existing = agentPending.get(message.message_id);
+    if (existing?.timer) {
+      clearTimeout(existing.timer);
+    }
+
+    const now = Date.now();
+    const delivery: PendingDelivery = {
+      agentId,
+      message,
+      attempts: existing ? existing.attempts + 1 : 1,
+      firstSentAt: existing ? existing.firstSentAt : now,
+      lastSentAt: now
+    };
+
+    delivery.timer = setTimeout(
+      () => this.handleFailure(delivery, `No acknowledgement within ${this.config.ackTimeout}ms`),
+      this.config.ackTimeout
+    );
+
+    agentPending.set(message.message_id, delivery);
+    this.pending.set(agentId, agentPending);
+  }
+
+  /**
+   * Process an ack/nack frame received from an agent
+   */
+  handleFrame(agentId: string, frame: DeliveryFrame): boolean {
+    return frame.frame_type === 'ack'
+      ? this.acknowledge(agentId, frame.message_id)
+      : this.reject(agentId, frame.message_id, frame.reason);
+  }
+
+  /**
+   * Mark a message as processed by the agent
+   */
+  acknowledge(agentId: string, messageId: string): boolean {
+    const delivery = this.remove(agentId, messageId);
+    if (!delivery) {
+      return false;
+    }
+
+    this.emit('message_acknowledged', {
+      agent_id: agentId,
+      message_id: messageId,
+      attempts: delivery.attempts,
+      latency: Date.now() - delivery.lastSentAt
+    });
+
+    return true;
+  }
+
+  /**
+   * Handle a negative acknowledgement by scheduling a redelivery
+   */
+  reject(agentId: string, messageId: string, reason?: string): boolean {
+    const delivery = this.pending.get(agentId)?.get(messageId);
+    if (!delivery) {
+      return false;
+    }
+
+    if (delivery.timer) {
+      clearTimeout(delivery.timer);
+    }
+
+    this.handleFailure(delivery, reason || 'Message rejected by agent');
+    return true;
+  }
+
+  /**
+   * Stop tracking all messages for an agent (e.g. on disconnect) and return
+   * them in the order they were first sent so they can be re-queued.
+   */
+  release(agentId: string): AgentMessage[] {
+    const agentPending = this.pending.get(agentId);
+    if (!agentPending) {
+      return [];
+    }
+
+    const deliveries = Array.from(agentPending.values())
+      .sort((a, b) => a.firstSentAt - b.firstSentAt);
+
+    deliveries.forEach(delivery => {
+      if (delivery.timer) {
+        clearTimeout(delivery.timer);
+      }
+    });
+
+    this.pending.delete(agentId);
+    return deliveries.map(delivery => delivery.message);
+  }
+
+  /**
+   * Get unacknowledged deliveries for an agent
+   */
+  getPending(agentId: string): PendingDelivery[] {
+    return Array.from(this.pending.get(agentId)?.values() || []);
+  }
+
+  /**
+   * Get the number of unacknowledged messages across all agents
+   */
+  getPendingCount(): number {
+    return Array.from(this.pending.values())
+      .reduce((sum, agentPending) => sum + agentPending.size, 0);
+  }
+
+  /**
+   * Calculate the delay before redelivery attempt number `attempt` (1-based)
+   */
+  getRetryDelay(policy: MessageRouting['retry_policy'] | undefined, attempt: number): number {
+    const base = this.config.baseRetryDelay;
+    const delay = policy?.backoff === 'linear'
+      ? base * attempt
+      : base * Math.pow(2, attempt - 1);
+
+    return Math.min(delay, this.config.maxRetryDelay);
+  }
+
+  /**
+   * Cancel all timers and forget pending deliveries
+   */
+  clear(): void {
+    for (const agentId of Array.from(this.pending.keys())) {
+      this.release(agentId);
+    }
+  }
+
+  private handleFailure(delivery: PendingDelivery, reason: string): void {
+    const { agentId, message } = delivery;
+    const maxRetries = message.routing?.retry_policy?.max_retries ?? 0;
+    delivery.lastError = reason;
+
+    if (delivery.attempts > maxRetries) {
+      this.remove(agentId, message.message_id);
+      this.emit('delivery_failed', {
+        agent_id: agentId,
+        message,
+        attempts: delivery.attempts,
+        error: reason
+      });
+      return;
+    }
+
+    const delay = this.getRetryDelay(message.routing?.retry_policy, delivery.attempts);
+    delivery.timer = setTimeout(() => this.redeliver(delivery), delay);
+  }
+
+  private redeliver(delivery: PendingDelivery): void {
+    const { agentId, message } = delivery;
+    if (this.pending.get(agentId)?.get(message.message_id) !== delivery) {
+      return;
+    }
+
+    if (!this.transmit(agentId, message)) {
+      this.remove(agentId, message.message_id);
+      this.emit('delivery_deferred', { agent_id: agentId, message, attempts: delivery.attempts });
+      return;
+    }
+
+    this.track(agentId, message);
+    this.emit('message_redelivered', {
+      agent_id: agentId,
+      message_id: message.message_id,
+      attempt: delivery.attempts + 1,
+      reason: delivery.lastError
+    });
+  }
+
+  private remove(agentId: string, messageId: string): PendingDelivery | undefined {
+    const agentPending = this.pending.get(agentId);
+    const delivery = agentPending?.get(messageId);
+    if (!agentPending || !delivery) {
+      return undefined;
+    }
+
+    if (delivery.timer) {
+      clearTimeout(delivery.timer);
+    }
+
+    agentPending.delete(messageId);
+    if (agentPending.size === 0) {
+      this.pending.delete(agentId);
+    }
+
+    return delivery;
+  }
+}
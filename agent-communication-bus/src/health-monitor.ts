@@ -0,0 +1,226 @@
+import { EventEmitter } from 'events';
+import { HealthStatus } from './types/protocol';
+
+export interface HealthMonitorConfig {
+  checkInterval: number;
+  heartbeatInterval: number;
+  probeTimeout: number;
+  failureThreshold: number;
+  degradedResponseTime: number;
+  windowSize: number;
+}
+
+interface ProbeResult {
+  success: boolean;
+  responseTime: number;
+  timestamp: number;
+  error?: string;
+}
+
+interface AgentHealthState {
+  healthCheckUrl?: string;
+  interval?: NodeJS.Timeout;
+  probes: ProbeResult[];
+  consecutiveFailures: number;
+  lastHeartbeat?: number;
+  resourceUsage: HealthStatus['resource_usage'];
+  status?: HealthStatus;
+}
+
+/**
+ * Probes agent health URLs on an interval and tracks heartbeat age, turning
+ * both signals into a HealthStatus per agent.
+ */
+export class HealthMonitor extends EventEmitter {
+  private agents: Map<string, AgentHealthState> = new Map();
+  private config: HealthMonitorConfig;
+
+  constructor(
+    config: Partial<HealthMonitorConfig> = {},
+    private countActiveSessions: (agentId: string) => number = () => 0
+  ) {
+    super();
+    this.config = {
+      checkInterval: 30000,
+      heartbeatInterval: 30000,
+      probeTimeout: 5000,
+      failureThreshold: 3,
+      degradedResponseTime: 2000,
+      windowSize: 10,
+      ...config
+    };
+  }
+
+  /**
+   * Start monitoring an agent
+   */
+  register(agentId: string, healthCheckUrl?: string): void {
+    this.unregister(agentId);
+
+    const state: AgentHealthState = {
+      probes: [],
+      consecutiveFailures: 0,
+      resourceUsage: { cpu: 0, memory: 0 }
+    };
+    if (healthCheckUrl) {
+      state.healthCheckUrl = healthCheckUrl;
+    }
+
+    state.interval = setInterval(() => {
+      this.checkAgent(agentId).catch(error => {
+        this.emit('health_check_failed', { agent_id: agentId, error: (error as Error).message });
+      });
+    }, this.config.checkInterval);
+
+    this.agents.set(agentId, state);
+  }
+
+  /**
+   * Stop monitoring an agent and clear its interval
+   */
+  unregister(agentId: string): void {
+    const state = this.agents.get(agentId);
+    if (state?.interval) {
+      clearInterval(state.interval);
+    }
+    this.agents.delete(agentId);
+  }
+
+  /**
+   * Record a heartbeat received from an agent
+   */
+  recordHeartbeat(agentId: string, resourceUsage?: Partial<HealthStatus['resource_usage']>): void {
+    const state = this.agents.get(agentId);
+    if (!state) {
+      return;
+    }
+
+    state.lastHeartbeat = Date.now();
+    if (resourceUsage) {
+      state.resourceUsage = { ...state.resourceUsage, ...resourceUsage };
+    }
+  }
+
+  /**
+   * Probe an agent now and update its health status
+   */
+  async checkAgent(agentId: string): Promise<HealthStatus | null> {
+    const state = this.agents.get(agentId);
+    if (!state) {
+      return null;
+    }
+
+    if (state.healthCheckUrl) {
+      const probe = await this.probe(state.healthCheckUrl);
+      state.probes.push(probe);
+      if (state.probes.length > this.config.windowSize) {
+        state.probes.shift();
+      }
+      state.consecutiveFailures = probe.success ? 0 : state.consecutiveFailures + 1;
+    }
+
+    // Agent may have been unregistered while the probe was in flight
+    if (this.agents.get(agentId) !== state) {
+      return null;
+    }
+
+    const previous = state.status?.status;
+    state.status = this.evaluate(agentId, state);
+
+    this.emit('health_checked', { agent_id: agentId, health: state.status });
+    if (previous !== state.status.status) {
+      this.emit('health_changed', { agent_id: agentId, previous, health: state.status });
+    }
+
+    return state.status;
+  }
+
+  /**
+   * Get the last computed health status for an agent
+   */
+  getHealth(agentId: string): HealthStatus | null {
+    const state = this.agents.get(agentId);
+    if (!state) {
+      return null;
+    }
+
+    return state.status || this.evaluate(agentId, state);
+  }
+
+  /**
+   * Stop all monitoring intervals
+   */
+  stop(): void {
+    for (const agentId of Array.from(this.agents.keys())) {
+      this.unregister(agentId);
+    }
+  }
+
+  private async probe(url: string): Promise<ProbeResult> {
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.probeTimeout);
+
+    try {
+      const response = await fetch(url, { method: 'GET', signal: controller.signal });
+      return {
+        success: response.ok,
+        responseTime: Date.now() - startTime,
+        timestamp: Date.now(),
+        ...(!response.ok && { error: `HTTP ${response.status}` })
+      };
+    } catch (error) {
+      return {
+        success: false,
+        responseTime: Date.now() - startTime,
+        timestamp: Date.now(),
+        error: controller.signal.aborted
+          ? `Health check timed out after ${this.config.probeTimeout}ms`
+          : (error as Error).message
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private evaluate(agentId: string, state: AgentHealthState): HealthStatus {
+    const probes = state.probes;
+    const lastProbe = probes[probes.length - 1];
+    const failures = probes.filter(probe => !probe.success).length;
+    const errorRate = probes.length > 0 ? failures / probes.length : 0;
+
+    const successfulProbes = probes.filter(probe => probe.success);
+    const responseTime = successfulProbes.length > 0
+      ? successfulProbes.reduce((sum, probe) => sum + probe.responseTime, 0) / successfulProbes.length
+      : lastProbe?.responseTime || 0;
+
+    // Heartbeats only count once an agent has sent one
+    const heartbeatAge = state.lastHeartbeat !== undefined ? Date.now() - state.lastHeartbeat : undefined;
+    const heartbeatFresh = heartbeatAge === undefined ? undefined : heartbeatAge <= this.config.heartbeatInterval * 2;
+    const heartbeatLost = heartbeatAge !== undefined && heartbeatAge > this.config.heartbeatInterval * 3;
+    const probeFailing = state.consecutiveFailures >= this.config.failureThreshold;
+
+    let status: HealthStatus['status'] = 'healthy';
+    if ((probeFailing && heartbeatFresh !== true) || (heartbeatLost && lastProbe?.success !== true)) {
+      status = 'unhealthy';
+    } else if (
+      probeFailing ||
+      heartbeatFresh === false ||
+      state.consecutiveFailures > 0 ||
+      responseTime > this.config.degradedResponseTime ||
+      errorRate > 0.5
+    ) {
+      status = 'degraded';
+    }
+
+    return {
+      agent_id: agentId,
+      status,
+      last_check: new Date(lastProbe?.timestamp || state.lastHeartbeat || Date.now()).toISOString(),
+      response_time: Math.round(responseTime),
+      error_rate: errorRate,
+      active_sessions: this.countActiveSessions(agentId),
+      resource_usage: { ...state.resourceUsage }
+    };
+  }
+}
@@ -1,10 +1,80 @@
 // Main entry point for the Agent Communication Bus
 
 export { CommunicationBus } from './communication-bus';
-export { SessionManager } from './session-manager';
+export { SessionManager, ContextConflictError, DelegationRejectedError } from './session-manager';
+export type { SharedContextSnapshot } from './session-manager';
+export { WorkflowRunner, WORKFLOW_EVENTS, ESTIMATE_TIMEOUT_FACTOR } from './workflow-runner';
+export { evaluateCondition, validateCondition, CONDITION_OPERATORS } from './workflow-conditions';
+export type { ConditionScope } from './workflow-conditions';
 export { ModelSelector } from './model-selector';
-export { ResultAggregator } from './result-aggregator';
+export {
+  ResultAggregator,
+  SYNTHESIS_METHODS,
+  DEFAULT_MAJORITY_THRESHOLD,
+  DEFAULT_QUORUM_THRESHOLD,
+  DEFAULT_REFEREE_TIMEOUT,
+  MANUAL_RESOLUTION_STRATEGIES
+} from './result-aggregator';
+export type {
+  AggregationRequest,
+  AggregationCompletion,
+  ConflictResolution,
+  ManualResolution,
+  ManualResolutionStrategy,
+  RefereeJudge,
+  RefereeRequest
+} from './result-aggregator';
+export {
+  codeReviewComparator,
+  unifiedDiffComparator,
+  testCaseComparator,
+  parseUnifiedDiff,
+  DEFAULT_RESULT_COMPARATORS
+} from './result-comparators';
+export type { ResultComparator, ReviewIssue, DiffHunk, TestCase } from './result-comparators';
 export { MessageRouter } from './message-router';
+export { DeliveryTracker, isDeliveryFrame } from './delivery-tracker';
+export { DeadLetterQueue } from './dead-letter-queue';
+export type { DeadLetter, DeliveryAttempt } from './dead-letter-queue';
+export {
+  TranscriptRecorder,
+  toJsonLines,
+  parseJsonLines,
+  toMarkdown
+} from './transcript-recorder';
+export type { TranscriptEntry, TranscriptEntryKind, TranscriptFormat } from './transcript-recorder';
+export { TranscriptReplayer, StubAgentConnection } from './transcript-replayer';
+export type { ReplayOptions, ReplayResult } from './transcript-replayer';
+export { HealthMonitor } from './health-monitor';
+export type { HealthMonitorConfig } from './health-monitor';
+export { MetricsCollector } from './metrics-collector';
+export type { MetricsCollectorConfig, MetricsSnapshot } from './metrics-collector';
+export { PrometheusExporter, PROMETHEUS_CONTENT_TYPE } from './prometheus-exporter';
+export type { GaugeFamily, MetricLabels } from './prometheus-exporter';
+export { Authenticator, AuthenticationError, signJwt, extractCredentials } from './auth/authenticator';
+export type { AuthenticatorConfig, PresentedCredentials, Principal, JwtClaims } from './auth/authenticator';
+export { PolicyEngine } from './auth/policy-engine';
+export type { PolicyDecision, SessionRolesResolver } from './auth/policy-engine';
+export { RequestTimeoutError, FanOutTimeoutError } from './communication-bus';
+export type { CommunicationBusOptions, FanOutTask, FanOutCompletion } from './communication-bus';
+
+export {
+  InMemoryMessageStore,
+  FileMessageStore,
+  createMessageStore
+} from './persistence/message-store';
+export type { MessageStore } from './persistence/message-store';
+export {
+  InMemorySessionRepository,
+  FileSessionRepository,
+  SqliteSessionRepository,
+  createSessionRepository
+} from './persistence/session-repository';
+export type {
+  SessionRepository,
+  SessionRepositoryBackend,
+  SessionSnapshot
+} from './persistence/session-repository';
 
 export { OpenCodeAdapter } from './adapters/opencode-adapter';
 export { CodexAdapter } from './adapters/codex-adapter';
@@ -25,9 +95,16 @@ export type {
   SystemConfiguration,
   AdapterConfiguration
 } from './config/config-loader';
+export {
+  loadWorkflowDefinition,
+  parseWorkflowDefinition,
+  normalizeWorkflowDefinition
+} from './config/workflow-loader';
+export type { WorkflowDefinition, WorkflowDefinitionFormat } from './config/workflow-loader';
 
 export * from './types/protocol';
 
+import { v4 as uuidv4 } from 'uuid';
 import { CommunicationBus } from './communication-bus';
 import { OpenCodeAdapter } from './adapters/opencode-adapter';
 import { CodexAdapter } from './adapters/codex-adapter';
@@ -90,6 +167,9 @@ export class AgentCommunicationFactory {
           throw new Error(`Unknown adapter type: ${adapterConfig.type}`);
       }
       
+      adapter.setBusApiKey(config.bus.apiKey);
+      // Adapters in one process share AGENT_API_KEY, but each needs a key of its own
+      adapter.setAgentCredentials(uuidv4());
       await adapter.initialize();
       adapters.push(adapter);
     }
@@ -178,6 +258,9 @@ export class AgentCommunicationFactory {
         busUrl,
         adapterConfigs.opencode.config
       );
+      adapter.setBusApiKey(busConfig.apiKey);
+      // Adapters in one process share AGENT_API_KEY, but each needs a key of its own
+      adapter.setAgentCredentials(uuidv4());
       await adapter.initialize();
       adapters.push(adapter);
     }
@@ -188,6 +271,8 @@ export class AgentCommunicationFactory {
         busUrl,
         adapterConfigs.codex.config
       );
+      adapter.setBusApiKey(busConfig.apiKey);
+      adapter.setAgentCredentials(uuidv4());
       await adapter.initialize();
       adapters.push(adapter);
     }
@@ -198,6 +283,8 @@ export class AgentCommunicationFactory {
         busUrl,
         adapterConfigs.claudeCode.config
       );
+      adapter.setBusApiKey(busConfig.apiKey);
+      adapter.setAgentCredentials(uuidv4());
       await adapter.initialize();
       adapters.push(adapter);
     }
@@ -118,6 +118,31 @@ export class MessageRouter extends EventEmitter {
     this.emit('health_updated', { agent_id: agentId, healthy });
   }
 
+  /**
+   * Get healthy agents, other than the recipient, that could handle a message
+   * based on its task type, required capabilities or preferred framework
+   */
+  getAlternatives(message: AgentMessage): string[] {
+    const candidates = new Set<string>();
+
+    if (message.payload?.task_type) {
+      this.findAgentsForTask(message.payload.task_type).forEach(agentId => candidates.add(agentId));
+    }
+
+    if (Array.isArray(message.payload?.required_capabilities)) {
+      this.findAgentsWithCapabilities(message.payload.required_capabilities)
+        .forEach(agentId => candidates.add(agentId));
+    }
+
+    if (message.payload?.preferred_framework) {
+      this.findAgentsByFramework(message.payload.preferred_framework)
+        .forEach(agentId => candidates.add(agentId));
+    }
+
+    candidates.delete(message.recipient.agent_id);
+    return Array.from(candidates);
+  }
+
 /**
     * Get routing statistics
     */
@@ -0,0 +1,205 @@
+import { AgentMessage, MetricsBreakdown } from './types/protocol';
+
+export interface MetricsCollectorConfig {
+  windowSize: number;
+  requestTtl: number;
+}
+
+export interface MetricsSnapshot {
+  error_rate: number;
+  throughput: number;
+  average_response_time: number;
+  by_agent: Record<string, MetricsBreakdown>;
+  by_task_type: Record<string, MetricsBreakdown>;
+}
+
+interface MetricEvent {
+  kind: 'message' | 'failure' | 'response';
+  timestamp: number;
+  agentId: string;
+  taskType?: string;
+  latency?: number;
+}
+
+interface InFlightRequest {
+  startedAt: number;
+  agentId: string;
+  taskType?: string;
+  keys: string[];
+}
+
+const UNKNOWN_TASK_TYPE = 'unknown';
+
+/**
+ * Sliding-window counters for delivery attempts, failures and
+ * request/response latency, broken down per agent and per task type.
+ */
+export class MetricsCollector {
+  private events: MetricEvent[] = [];
+  private inFlight: Map<string, InFlightRequest> = new Map();
+  private config: MetricsCollectorConfig;
+
+  constructor(config: Partial<MetricsCollectorConfig> = {}) {
+    this.config = {
+      windowSize: 60000,
+      requestTtl: 600000,
+      ...config
+    };
+  }
+
+  /**
+   * Record a delivery attempt. Task requests also start a latency timer keyed
+   * by message_id and task_id.
+   */
+  recordMessage(message: AgentMessage): void {
+    const now = Date.now();
+    const agentId = message.recipient.agent_id;
+    const taskType = this.getTaskType(message);
+
+    this.push({ kind: 'message', timestamp: now, agentId, ...(taskType && { taskType }) });
+
+    if (message.message_type === 'task_request') {
+      const taskId = message.metadata?.task_id ?? message.payload?.task_id;
+      const keys = [message.message_id, ...(taskId ? [String(taskId)] : [])];
+      const request: InFlightRequest = { startedAt: now, agentId, keys, ...(taskType && { taskType }) };
+      keys.forEach(key => this.inFlight.set(key, request));
+    }
+  }
+
+  /**
+   * Record a delivery failure
+   */
+  recordFailure(message: AgentMessage): void {
+    const taskType = this.getTaskType(message);
+    this.push({
+      kind: 'failure',
+      timestamp: Date.now(),
+      agentId: message.recipient.agent_id,
+      ...(taskType && { taskType })
+    });
+  }
+
+  /**
+   * Record a task_response (or error reply) and its latency if the matching
+   * request is known. Returns the latency in milliseconds, or null.
+   */
+  recordResponse(reply: AgentMessage): number | null {
+    const candidates = [
+      reply.metadata?.correlation_id,
+      reply.metadata?.task_id,
+      reply.payload?.task_id
+    ].filter((key): key is string => typeof key === 'string');
+
+    const request = candidates.map(key => this.inFlight.get(key)).find(Boolean);
+    if (!request) {
+      return null;
+    }
+
+    request.keys.forEach(key => this.inFlight.delete(key));
+
+    const latency = Date.now() - request.startedAt;
+    this.push({
+      kind: 'response',
+      timestamp: Date.now(),
+      agentId: reply.sender.agent_id,
+      latency,
+      ...(request.taskType && { taskType: request.taskType })
+    });
+
+    return latency;
+  }
+
+  /**
+   * Compute metrics over the current window
+   */
+  snapshot(): MetricsSnapshot {
+    this.prune();
+
+    const byAgent = new Map<string, MetricEvent[]>();
+    const byTaskType = new Map<string, MetricEvent[]>();
+
+    const addTo = (groups: Map<string, MetricEvent[]>, key: string, event: MetricEvent) => {
+      const group = groups.get(key);
+      if (group) {
+        group.push(event);
+      } else {
+        groups.set(key, [event]);
+      }
+    };
+
+    this.events.forEach(event => {
+      addTo(byAgent, event.agentId, event);
+      addTo(byTaskType, event.taskType || UNKNOWN_TASK_TYPE, event);
+    });
+
+    const overall = this.summarize(this.events);
+
+    return {
+      error_rate: overall.error_rate,
+      throughput: overall.throughput,
+      average_response_time: overall.average_response_time,
+      by_agent: Object.fromEntries(
+        Array.from(byAgent.entries()).map(([agentId, events]) => [agentId, this.summarize(events)])
+      ),
+      by_task_type: Object.fromEntries(
+        Array.from(byTaskType.entries()).map(([taskType, events]) => [taskType, this.summarize(events)])
+      )
+    };
+  }
+
+  /**
+   * Forget all recorded events
+   */
+  reset(): void {
+    this.events = [];
+    this.inFlight.clear();
+  }
+
+  private summarize(events: MetricEvent[]): MetricsBreakdown {
+    const messages = events.filter(event => event.kind === 'message').length;
+    const failures = events.filter(event => event.kind === 'failure').length;
+    const latencies = events
+      .filter(event => event.kind === 'response' && event.latency !== undefined)
+      .map(event => event.latency!);
+
+    return {
+      messages,
+      failures,
+      error_rate: messages > 0 ? Math.min(1, failures / messages) : 0,
+      throughput: messages / (this.config.windowSize / 1000),
+      average_response_time: latencies.length > 0
+        ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+        : 0
+    };
+  }
+
+  private push(event: MetricEvent): void {
+    this.events.push(event);
+    this.prune();
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    const windowStart = now - this.config.windowSize;
+
+    // Events are appended in time order, so expired ones are at the front
+    let expired = 0;
+    while (expired < this.events.length && this.events[expired].timestamp < windowStart) {
+      expired++;
+    }
+    if (expired > 0) {
+      this.events.splice(0, expired);
+    }
+
+    for (const [key, request] of this.inFlight) {
+      if (now - request.startedAt > this.config.requestTtl) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  private getTaskType(message: AgentMessage): string | undefined {
+    const taskType = message.payload?.task_type;
+    return typeof taskType === 'string' ? taskType : undefined;
+  }
+}
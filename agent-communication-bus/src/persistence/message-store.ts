@@ -0,0 +1,170 @@
+import fs from 'fs';
+import path from 'path';
+import { AgentMessage, CommunicationBusConfig } from '../types/protocol';
+
+/**
+ * Storage backend for messages addressed to agents that are not connected.
+ * Queues are FIFO per agent: drain() returns messages in enqueue order.
+ */
+export interface MessageStore {
+  enqueue(agentId: string, message: AgentMessage): Promise<void>;
+  drain(agentId: string): Promise<AgentMessage[]>;
+  peek(agentId: string): Promise<AgentMessage[]>;
+  size(agentId: string): Promise<number>;
+  clear(agentId: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export const DEFAULT_MAX_QUEUED_MESSAGES = 1000;
+export const DEFAULT_PERSISTENCE_DIRECTORY = './data/message-queue';
+
+export class InMemoryMessageStore implements MessageStore {
+  protected queues: Map<string, AgentMessage[]> = new Map();
+
+  constructor(protected maxMessagesPerAgent: number = DEFAULT_MAX_QUEUED_MESSAGES) {}
+
+  async enqueue(agentId: string, message: AgentMessage): Promise<void> {
+    const queue = this.queues.get(agentId) || [];
+    queue.push(message);
+
+    // Drop the oldest messages once the per-agent cap is exceeded
+    if (queue.length > this.maxMessagesPerAgent) {
+      queue.splice(0, queue.length - this.maxMessagesPerAgent);
+    }
+
+    this.queues.set(agentId, queue);
+  }
+
+  async drain(agentId: string): Promise<AgentMessage[]> {
+    const queue = this.queues.get(agentId) || [];
+    this.queues.delete(agentId);
+    return queue;
+  }
+
+  async peek(agentId: string): Promise<AgentMessage[]> {
+    return [...(this.queues.get(agentId) || [])];
+  }
+
+  async size(agentId: string): Promise<number> {
+    return this.queues.get(agentId)?.length || 0;
+  }
+
+  async clear(agentId: string): Promise<void> {
+    this.queues.delete(agentId);
+  }
+
+  async close(): Promise<void> {
+    this.queues.clear();
+  }
+}
+
+/**
+ * File-backed store keeping one JSON file per agent. Queues are loaded lazily
+ * on first access and rewritten atomically (write + rename) after each change.
+ */
+export class FileMessageStore extends InMemoryMessageStore {
+  private loadedAgents: Set<string> = new Set();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private directory: string,
+    maxMessagesPerAgent: number = DEFAULT_MAX_QUEUED_MESSAGES
+  ) {
+    super(maxMessagesPerAgent);
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  async enqueue(agentId: string, message: AgentMessage): Promise<void> {
+    await this.load(agentId);
+    await super.enqueue(agentId, message);
+    await this.persist(agentId);
+  }
+
+  async drain(agentId: string): Promise<AgentMessage[]> {
+    await this.load(agentId);
+    const messages = await super.drain(agentId);
+    await this.persist(agentId);
+    return messages;
+  }
+
+  async peek(agentId: string): Promise<AgentMessage[]> {
+    await this.load(agentId);
+    return super.peek(agentId);
+  }
+
+  async size(agentId: string): Promise<number> {
+    await this.load(agentId);
+    return super.size(agentId);
+  }
+
+  async clear(agentId: string): Promise<void> {
+    await this.load(agentId);
+    await super.clear(agentId);
+    await this.persist(agentId);
+  }
+
+  async close(): Promise<void> {
+    await this.pendingWrite;
+    this.loadedAgents.clear();
+    await super.close();
+  }
+
+  private async load(agentId: string): Promise<void> {
+    if (this.loadedAgents.has(agentId)) {
+      return;
+    }
+
+    this.loadedAgents.add(agentId);
+
+    try {
+      const content = await fs.promises.readFile(this.getFilePath(agentId), 'utf8');
+      const messages = JSON.parse(content) as AgentMessage[];
+      if (Array.isArray(messages) && messages.length > 0) {
+        this.queues.set(agentId, [...messages, ...(this.queues.get(agentId) || [])]);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to load message queue for ${agentId}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private persist(agentId: string): Promise<void> {
+    const filePath = this.getFilePath(agentId);
+    const snapshot = this.queues.get(agentId) || [];
+
+    // Serialize writes so a slower earlier write cannot overwrite a newer snapshot
+    this.pendingWrite = this.pendingWrite.catch(() => undefined).then(async () => {
+      if (snapshot.length === 0) {
+        await fs.promises.rm(filePath, { force: true });
+        return;
+      }
+
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+      await fs.promises.rename(tempPath, filePath);
+    });
+
+    return this.pendingWrite;
+  }
+
+  private getFilePath(agentId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(agentId)}.json`);
+  }
+}
+
+/**
+ * Select the message store backend for a bus configuration
+ */
+export function createMessageStore(config: CommunicationBusConfig): MessageStore {
+  const maxMessages = config.maxQueuedMessages ?? DEFAULT_MAX_QUEUED_MESSAGES;
+
+  if (config.persistenceEnabled) {
+    return new FileMessageStore(
+      path.resolve(config.persistenceDirectory ?? DEFAULT_PERSISTENCE_DIRECTORY),
+      maxMessages
+    );
+  }
+
+  return new InMemoryMessageStore(maxMessages);
+}
@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { SessionContext } from '../types/protocol';
+import type { TaskDelegation } from '../session-manager';
+
+/**
+ * Storage backend for session state. SessionManager saves a snapshot of a
+ * session or task after every change and loads everything back on restore.
+ */
+export interface SessionRepository {
+  saveSession(session: SessionContext): Promise<void>;
+  deleteSession(sessionId: string): Promise<void>;
+  saveTask(task: TaskDelegation): Promise<void>;
+  deleteTask(taskId: string): Promise<void>;
+  loadAll(): Promise<SessionSnapshot>;
+  close(): Promise<void>;
+}
+
+export interface SessionSnapshot {
+  sessions: SessionContext[];
+  tasks: TaskDelegation[];
+}
+
+export type SessionRepositoryBackend = 'file' | 'sqlite';
+
+export const DEFAULT_SESSION_DIRECTORY = './data/sessions';
+export const DEFAULT_SESSION_DATABASE = './data/sessions.sqlite';
+
+type StoredTask = Omit<TaskDelegation, 'createdAt'> & { createdAt: string };
+
+function serializeTask(task: TaskDelegation): StoredTask {
+  return { ...task, createdAt: task.createdAt.toISOString() };
+}
+
+function deserializeTask(stored: StoredTask): TaskDelegation {
+  return { ...stored, createdAt: new Date(stored.createdAt) };
+}
+
+export class InMemorySessionRepository implements SessionRepository {
+  protected sessions: Map<string, string> = new Map();
+  protected tasks: Map<string, string> = new Map();
+
+  async saveSession(session: SessionContext): Promise<void> {
+    this.sessions.set(session.sessionId, JSON.stringify(session));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async saveTask(task: TaskDelegation): Promise<void> {
+    this.tasks.set(task.taskId, JSON.stringify(serializeTask(task)));
+  }
+
+  async deleteTask(taskId: string): Promise<void> {
+    this.tasks.delete(taskId);
+  }
+
+  async loadAll(): Promise<SessionSnapshot> {
+    return {
+      sessions: Array.from(this.sessions.values()).map(data => JSON.parse(data) as SessionContext),
+      tasks: Array.from(this.tasks.values()).map(data => deserializeTask(JSON.parse(data) as StoredTask))
+    };
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * File-backed repository keeping one JSON file per session and per task under
+ * `sessions/` and `tasks/`. Files are rewritten atomically (write + rename)
+ * and writes are serialized so an older snapshot never replaces a newer one.
+ */
+export class FileSessionRepository implements SessionRepository {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string) {
+    fs.mkdirSync(path.join(this.directory, 'sessions'), { recursive: true });
+    fs.mkdirSync(path.join(this.directory, 'tasks'), { recursive: true });
+  }
+
+  saveSession(session: SessionContext): Promise<void> {
+    return this.write(this.getFilePath('sessions', session.sessionId), JSON.stringify(session));
+  }
+
+  deleteSession(sessionId: string): Promise<void> {
+    return this.write(this.getFilePath('sessions', sessionId), null);
+  }
+
+  saveTask(task: TaskDelegation): Promise<void> {
+    return this.write(this.getFilePath('tasks', task.taskId), JSON.stringify(serializeTask(task)));
+  }
+
+  deleteTask(taskId: string): Promise<void> {
+    return this.write(this.getFilePath('tasks', taskId), null);
+  }
+
+  async loadAll(): Promise<SessionSnapshot> {
+    await this.pendingWrite;
+    const sessions = await this.readAll<SessionContext>('sessions');
+    const tasks = await this.readAll<StoredTask>('tasks');
+    return { sessions, tasks: tasks.map(deserializeTask) };
+  }
+
+  async close(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  private write(filePath: string, content: string | null): Promise<void> {
+    this.pendingWrite = this.pendingWrite.catch(() => undefined).then(async () => {
+      if (content === null) {
+        await fs.promises.rm(filePath, { force: true });
+        return;
+      }
+
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, content, 'utf8');
+      await fs.promises.rename(tempPath, filePath);
+    });
+
+    return this.pendingWrite;
+  }
+
+  private async readAll<T>(kind: 'sessions' | 'tasks'): Promise<T[]> {
+    const directory = path.join(this.directory, kind);
+    const files = (await fs.promises.readdir(directory)).filter(file => file.endsWith('.json'));
+
+    return Promise.all(files.map(async file => {
+      const content = await fs.promises.readFile(path.join(directory, file), 'utf8');
+      try {
+        return JSON.parse(content) as T;
+      } catch (error) {
+        throw new Error(`Failed to load ${kind} snapshot ${file}: ${(error as Error).message}`);
+      }
+    }));
+  }
+
+  private getFilePath(kind: 'sessions' | 'tasks', id: string): string {
+    return path.join(this.directory, kind, `${encodeURIComponent(id)}.json`);
+  }
+}
+
+/**
+ * SQLite-backed repository storing each session and task as a JSON row.
+ * Requires the optional `better-sqlite3` dependency.
+ */
+export class SqliteSessionRepository implements SessionRepository {
+  private db: BetterSqlite3.Database;
+
+  constructor(filename: string) {
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = require('better-sqlite3');
+    } catch {
+      throw new Error('SQLite session persistence requires the better-sqlite3 package');
+    }
+
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS tasks (
+        task_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+    `);
+  }
+
+  async saveSession(session: SessionContext): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO sessions (session_id, data, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(session_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(session.sessionId, JSON.stringify(session), session.updated_at);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE session_id = ?').run(sessionId);
+  }
+
+  async saveTask(task: TaskDelegation): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO tasks (task_id, session_id, status, data) VALUES (?, ?, ?, ?)
+      ON CONFLICT(task_id) DO UPDATE SET status = excluded.status, data = excluded.data
+    `).run(task.taskId, task.sessionId, task.status, JSON.stringify(serializeTask(task)));
+  }
+
+  async deleteTask(taskId: string): Promise<void> {
+    this.db.prepare('DELETE FROM tasks WHERE task_id = ?').run(taskId);
+  }
+
+  async loadAll(): Promise<SessionSnapshot> {
+    const sessions = this.db.prepare('SELECT data FROM sessions').all() as Array<{ data: string }>;
+    const tasks = this.db.prepare('SELECT data FROM tasks').all() as Array<{ data: string }>;
+
+    return {
+      sessions: sessions.map(row => JSON.parse(row.data) as SessionContext),
+      tasks: tasks.map(row => deserializeTask(JSON.parse(row.data) as StoredTask))
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.db.open) {
+      this.db.close();
+    }
+  }
+}
+
+/**
+ * Select the session repository backend. Returns undefined when persistence
+ * is disabled.
+ */
+export function createSessionRepository(options: {
+  persistenceEnabled?: boolean;
+  persistenceBackend?: SessionRepositoryBackend;
+  persistencePath?: string;
+}): SessionRepository | undefined {
+  if (!options.persistenceEnabled) {
+    return undefined;
+  }
+
+  if (options.persistenceBackend === 'sqlite') {
+    return new SqliteSessionRepository(path.resolve(options.persistencePath ?? DEFAULT_SESSION_DATABASE));
+  }
+
+  return new FileSessionRepository(path.resolve(options.persistencePath ?? DEFAULT_SESSION_DIRECTORY));
+}
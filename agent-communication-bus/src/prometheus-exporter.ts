@@ -0,0 +1,191 @@
+import { AgentMessage } from './types/protocol';
+
+export type MetricLabels = Record<string, string>;
+
+export interface GaugeFamily {
+  name: string;
+  help: string;
+  samples: Array<{ labels?: MetricLabels; value: number }>;
+}
+
+interface CounterFamily {
+  help: string;
+  values: Map<string, { labels: MetricLabels; value: number }>;
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+interface HistogramFamily {
+  help: string;
+  bounds: number[];
+  series: Map<string, HistogramSeries>;
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const METRIC_PREFIX = 'agent_bus_';
+
+// Task durations range from quick lookups to multi-minute code reviews
+const TASK_DURATION_BUCKETS = [0.5, 1, 5, 15, 30, 60, 120, 300, 600, 1800];
+
+/**
+ * Accumulates counters and histograms for the bus and renders them, together
+ * with point-in-time gauges, in the Prometheus text exposition format.
+ */
+export class PrometheusExporter {
+  private counters: Map<string, CounterFamily> = new Map();
+  private histograms: Map<string, HistogramFamily> = new Map();
+
+  constructor() {
+    this.defineCounter('messages_total', 'Messages submitted to the bus by message type and priority');
+    this.defineCounter('message_failures_total', 'Messages that could not be delivered by message type and priority');
+    this.defineCounter('routing_decisions_total', 'Routing decisions by routing strategy and outcome');
+    this.defineHistogram('task_duration_seconds', 'Time from task delegation to its final status', TASK_DURATION_BUCKETS);
+  }
+
+  /**
+   * Count a message submitted to the bus
+   */
+  recordMessage(message: AgentMessage): void {
+    this.increment('messages_total', this.messageLabels(message));
+  }
+
+  /**
+   * Count a message the bus gave up on
+   */
+  recordFailure(message: AgentMessage): void {
+    this.increment('message_failures_total', this.messageLabels(message));
+  }
+
+  /**
+   * Count a routing decision. Failed decisions have no strategy and are
+   * labelled `none`.
+   */
+  recordRouting(strategy: string | undefined, success: boolean): void {
+    this.increment('routing_decisions_total', {
+      strategy: strategy || 'none',
+      outcome: success ? 'success' : 'failure'
+    });
+  }
+
+  /**
+   * Record how long a delegated task took to reach its final status
+   */
+  observeTaskDuration(taskType: string, status: string, durationSeconds: number): void {
+    this.observe('task_duration_seconds', { task_type: taskType, status }, durationSeconds);
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  render(gauges: GaugeFamily[] = []): string {
+    const lines: string[] = [];
+
+    for (const [name, family] of this.counters) {
+      const metricName = METRIC_PREFIX + name;
+      lines.push(`# HELP ${metricName} ${family.help}`, `# TYPE ${metricName} counter`);
+      for (const { labels, value } of family.values.values()) {
+        lines.push(`${metricName}${this.formatLabels(labels)} ${value}`);
+      }
+    }
+
+    for (const [name, family] of this.histograms) {
+      const metricName = METRIC_PREFIX + name;
+      lines.push(`# HELP ${metricName} ${family.help}`, `# TYPE ${metricName} histogram`);
+      for (const series of family.series.values()) {
+        family.bounds.forEach((bound, index) => {
+          const labels = this.formatLabels({ ...series.labels, le: String(bound) });
+          lines.push(`${metricName}_bucket${labels} ${series.buckets[index]}`);
+        });
+        lines.push(`${metricName}_bucket${this.formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+        lines.push(`${metricName}_sum${this.formatLabels(series.labels)} ${series.sum}`);
+        lines.push(`${metricName}_count${this.formatLabels(series.labels)} ${series.count}`);
+      }
+    }
+
+    for (const gauge of gauges) {
+      const metricName = METRIC_PREFIX + gauge.name;
+      lines.push(`# HELP ${metricName} ${gauge.help}`, `# TYPE ${metricName} gauge`);
+      for (const sample of gauge.samples) {
+        lines.push(`${metricName}${this.formatLabels(sample.labels || {})} ${sample.value}`);
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Reset all counters and histograms
+   */
+  reset(): void {
+    this.counters.forEach(family => family.values.clear());
+    this.histograms.forEach(family => family.series.clear());
+  }
+
+  private defineCounter(name: string, help: string): void {
+    this.counters.set(name, { help, values: new Map() });
+  }
+
+  private defineHistogram(name: string, help: string, bounds: number[]): void {
+    this.histograms.set(name, { help, bounds, series: new Map() });
+  }
+
+  private increment(name: string, labels: MetricLabels, amount: number = 1): void {
+    const family = this.counters.get(name)!;
+    const key = this.labelKey(labels);
+    const entry = family.values.get(key);
+    if (entry) {
+      entry.value += amount;
+    } else {
+      family.values.set(key, { labels, value: amount });
+    }
+  }
+
+  private observe(name: string, labels: MetricLabels, value: number): void {
+    const family = this.histograms.get(name)!;
+    const key = this.labelKey(labels);
+    let series = family.series.get(key);
+    if (!series) {
+      series = { labels, buckets: family.bounds.map(() => 0), sum: 0, count: 0 };
+      family.series.set(key, series);
+    }
+
+    // Buckets are cumulative: a value counts towards every bound it fits under
+    family.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        series!.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  private messageLabels(message: AgentMessage): MetricLabels {
+    return {
+      message_type: message.message_type,
+      priority: message.priority || 'medium'
+    };
+  }
+
+  private labelKey(labels: MetricLabels): string {
+    return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',');
+  }
+
+  private formatLabels(labels: MetricLabels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) {
+      return '';
+    }
+
+    const formatted = entries.map(([key, value]) => {
+      const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+      return `${key}="${escaped}"`;
+    });
+    return `{${formatted.join(',')}}`;
+  }
+}
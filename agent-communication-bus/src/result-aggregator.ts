@@ -1,33 +1,109 @@
 import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import {
   ResultAggregation,
   AgentResult,
   ResultSynthesis,
-  Conflict
+  Conflict,
+  SynthesisMethod,
+  VoteTally
 } from './types/protocol';
+import { ResultComparator, DEFAULT_RESULT_COMPARATORS } from './result-comparators';
+
+export const SYNTHESIS_METHODS: SynthesisMethod[] = [
+  'consensus',
+  'specialist_priority',
+  'confidence_weighted',
+  'manual',
+  'majority_vote',
+  'quorum',
+  'referee'
+];
+
+// Share of the votes the winning result needs
+export const DEFAULT_MAJORITY_THRESHOLD = 0.5;
+export const DEFAULT_QUORUM_THRESHOLD = 2 / 3;
+export const DEFAULT_REFEREE_TIMEOUT = 120000;
+
+export type AggregationCompletion = 'all_responded' | 'quorum' | 'closed';
 
 export interface AggregationRequest {
   sessionId: string;
   taskType: string;
   agentResults: AgentResult[];
-  synthesisMethod: 'consensus' | 'specialist_priority' | 'confidence_weighted' | 'manual';
+  synthesisMethod: SynthesisMethod;
   weights?: Record<string, number>; // For confidence_weighted method
   specialistAgents?: string[]; // For specialist_priority method
+  threshold?: number; // For majority_vote and quorum methods
+  referee?: string; // For referee method: the judge agent
+  refereeTimeout?: number;
+  // Agents results are still awaited from; the aggregation completes once all have reported
+  expectedAgents?: string[];
   timeout?: number;
 }
 
+export type ManualResolutionStrategy = 'choose_agent' | 'merge' | 'custom';
+
+export const MANUAL_RESOLUTION_STRATEGIES: ManualResolutionStrategy[] = ['choose_agent', 'merge', 'custom'];
+
+/**
+ * A reviewer's decision on one conflict of a manual aggregation
+ */
+export interface ManualResolution {
+  strategy: ManualResolutionStrategy;
+  agent_id?: string; // For choose_agent
+  agent_ids?: string[]; // For merge; defaults to the agents in the conflict
+  result?: any; // For custom
+  rationale?: string;
+}
+
+/**
+ * What a referee agent is asked to judge
+ */
+export interface RefereeRequest {
+  aggregation_id: string;
+  session_id: string;
+  task_type: string;
+  agent_results: AgentResult[];
+  conflicts: Conflict[];
+}
+
+/**
+ * Hands results to a referee agent and resolves with its raw answer, which
+ * should carry a `winner` agent ID and/or a `merged_result`, plus an optional
+ * `rationale` and `confidence`
+ */
+export type RefereeJudge = (referee: string, request: RefereeRequest, timeout: number) => Promise<any>;
+
+interface ParsedVerdict {
+  winner?: AgentResult;
+  merged_result?: any;
+  rationale?: string;
+  confidence?: number;
+}
+
 export interface ConflictResolution {
   conflict: Conflict;
   resolution: string;
   confidence: number;
   resolver: string;
+  // Set for resolutions submitted by a reviewer
+  strategy?: ManualResolutionStrategy;
+  result?: any;
 }
 
 export class ResultAggregator extends EventEmitter {
   private activeAggregations: Map<string, ResultAggregation> = new Map();
+  private aggregationRequests: Map<string, AggregationRequest> = new Map();
   private conflictResolvers: Map<string, ConflictResolution[]> = new Map();
+  // Reviewer decisions per aggregation, keyed by conflict ID in submission order
+  private manualResolutions: Map<string, Map<string, ConflictResolution>> = new Map();
   private agentSpecializations: Map<string, string[]> = new Map();
+  private comparators: ResultComparator[] = [...DEFAULT_RESULT_COMPARATORS];
+  private refereeJudge: RefereeJudge | undefined;
+  // Pending or settled referee answer per aggregation and the results it judges
+  private refereeVerdicts: Map<string, { results: string; answer: Promise<any> }> = new Map();
 
   constructor() {
     super();
@@ -42,6 +118,9 @@ export class ResultAggregator extends EventEmitter {
     if (!request.agentResults || request.agentResults.length === 0) {
       throw new Error('No agent results provided for aggregation');
     }
+    if (request.synthesisMethod === 'referee' && !request.referee) {
+      throw new Error('Referee synthesis needs a referee agent');
+    }
 
     const aggregationId = `agg_${Date.now()}_${uuidv4().substring(0, 8)}`;
     
@@ -49,6 +128,7 @@ export class ResultAggregator extends EventEmitter {
       aggregation_id: aggregationId,
       session_id: request.sessionId,
       task_type: request.taskType,
+      status: 'collecting',
       agent_results: request.agentResults,
       synthesis: {
         unified_result: null,
@@ -66,6 +146,7 @@ export class ResultAggregator extends EventEmitter {
     };
 
     this.activeAggregations.set(aggregationId, aggregation);
+    this.aggregationRequests.set(aggregationId, request);
     this.emit('aggregation_started', { aggregationId, request });
 
     // Start synthesis process
@@ -91,6 +172,9 @@ export class ResultAggregator extends EventEmitter {
     }
 
     this.activeAggregations.delete(aggregationId);
+    this.aggregationRequests.delete(aggregationId);
+    this.manualResolutions.delete(aggregationId);
+    this.refereeVerdicts.delete(aggregationId);
     this.emit('aggregation_cancelled', { aggregation_id: aggregationId });
     
     return true;
@@ -114,18 +198,74 @@ export class ResultAggregator extends EventEmitter {
     }
 
     // Re-run synthesis with new result
-    this.performSynthesis(aggregationId, {
-      sessionId: aggregation.session_id,
-      taskType: aggregation.task_type,
-      agentResults: aggregation.agent_results,
-      synthesisMethod: aggregation.synthesis.synthesis_method
-    });
+    this.performSynthesis(aggregationId, this.buildSynthesisRequest(aggregationId, aggregation));
 
     this.emit('agent_result_added', { aggregation_id: aggregationId, result });
     
     return true;
   }
 
+  /**
+   * Stop waiting for missing agents: re-run synthesis over the results
+   * collected so far and resolve with the completed aggregation
+   */
+  async completeAggregation(aggregationId: string): Promise<ResultAggregation | null> {
+    const aggregation = this.activeAggregations.get(aggregationId);
+    if (!aggregation) {
+      return null;
+    }
+
+    await this.performSynthesis(aggregationId, this.buildSynthesisRequest(aggregationId, aggregation), true);
+    this.markCompleted(aggregation, 'closed');
+    this.updateReviewStatus(aggregation);
+    return aggregation;
+  }
+
+  /**
+   * Settle a conflict of a manual aggregation by choosing one agent's result,
+   * merging the results of several agents, or supplying a custom result.
+   * Synthesis re-runs afterwards; once no conflict is left unresolved the
+   * aggregation becomes `resolved` and `aggregation_resolved` is emitted.
+   * Resolving a conflict again replaces the earlier decision.
+   */
+  async resolveConflict(
+    aggregationId: string,
+    conflictId: string,
+    decision: ManualResolution,
+    resolver: string
+  ): Promise<ConflictResolution> {
+    const aggregation = this.activeAggregations.get(aggregationId);
+    if (!aggregation) {
+      throw new Error(`Aggregation ${aggregationId} not found`);
+    }
+    if (aggregation.synthesis.synthesis_method !== 'manual') {
+      throw new Error(`Aggregation ${aggregationId} uses ${aggregation.synthesis.synthesis_method} synthesis; only manual aggregations take conflict resolutions`);
+    }
+    const conflict = aggregation.synthesis.conflicts.find(candidate => candidate.conflict_id === conflictId);
+    if (!conflict) {
+      throw new Error(`Conflict ${conflictId} not found in aggregation ${aggregationId}`);
+    }
+
+    const { result, summary } = this.applyManualResolution(aggregation, conflict, decision);
+    const resolution: ConflictResolution = {
+      conflict,
+      resolution: decision.rationale ? `${summary}: ${decision.rationale}` : summary,
+      confidence: 1,
+      resolver,
+      strategy: decision.strategy,
+      result
+    };
+
+    const resolutions = this.manualResolutions.get(aggregationId) || new Map<string, ConflictResolution>();
+    resolutions.delete(conflictId);
+    resolutions.set(conflictId, resolution);
+    this.manualResolutions.set(aggregationId, resolutions);
+    this.emit('conflict_resolved', { aggregation_id: aggregationId, conflict_id: conflictId, resolution });
+
+    await this.performSynthesis(aggregationId, this.buildSynthesisRequest(aggregationId, aggregation));
+    return resolution;
+  }
+
   /**
    * Register agent specializations
    */
@@ -134,17 +274,54 @@ export class ResultAggregator extends EventEmitter {
     this.emit('specialization_registered', { agent_id: agentId, specializations });
   }
 
+  /**
+   * Set how referee agents are consulted; the bus sends them a task_request
+   */
+  setRefereeJudge(judge: RefereeJudge): void {
+    this.refereeJudge = judge;
+  }
+
+  /**
+   * Compare results of a new shape structurally. Comparators registered later
+   * take precedence over earlier and built-in ones.
+   */
+  registerComparator(comparator: ResultComparator): void {
+    this.comparators.unshift(comparator);
+    this.emit('comparator_registered', { name: comparator.name });
+  }
+
   /**
    * Get conflict resolution strategies
    */
   getConflictResolutions(aggregationId: string): ConflictResolution[] {
-    return this.conflictResolvers.get(aggregationId) || [];
+    const manual = this.manualResolutions.get(aggregationId);
+    return (this.conflictResolvers.get(aggregationId) || [])
+      .map(resolution => manual?.get(resolution.conflict.conflict_id) || resolution);
   }
 
   /**
-   * Private synthesis methods
+   * Keep the weights and specialists of the original request when synthesis
+   * re-runs over a changed set of results
    */
-  private async performSynthesis(aggregationId: string, request: AggregationRequest): Promise<void> {
+  private buildSynthesisRequest(aggregationId: string, aggregation: ResultAggregation): AggregationRequest {
+    return {
+      sessionId: aggregation.session_id,
+      taskType: aggregation.task_type,
+      synthesisMethod: aggregation.synthesis.synthesis_method,
+      ...this.aggregationRequests.get(aggregationId),
+      agentResults: aggregation.agent_results
+    };
+  }
+
+  /**
+   * Private synthesis methods. `closing` means no further results will be
+   * waited for.
+   */
+  private async performSynthesis(
+    aggregationId: string,
+    request: AggregationRequest,
+    closing: boolean = false
+  ): Promise<void> {
     const aggregation = this.activeAggregations.get(aggregationId);
     if (!aggregation) {
       return;
@@ -182,7 +359,18 @@ export class ResultAggregator extends EventEmitter {
           );
           break;
         case 'manual':
-          synthesis = this.manualSynthesis(aggregation.agent_results, conflicts);
+          synthesis = this.manualSynthesis(
+            aggregation.agent_results,
+            conflicts,
+            this.manualResolutions.get(aggregationId) || new Map()
+          );
+          break;
+        case 'majority_vote':
+        case 'quorum':
+          synthesis = this.voteSynthesis(aggregation.agent_results, conflicts, request);
+          break;
+        case 'referee':
+          synthesis = await this.refereeSynthesis(aggregation, conflicts, request, closing);
           break;
         default:
           throw new Error(`Unknown synthesis method: ${request.synthesisMethod}`);
@@ -200,6 +388,8 @@ export class ResultAggregator extends EventEmitter {
 
       this.activeAggregations.set(aggregationId, aggregation);
       this.emit('synthesis_completed', { aggregation_id: aggregationId, synthesis });
+      this.checkCompletion(aggregation, request);
+      this.updateReviewStatus(aggregation);
 
     } catch (error) {
       this.emit('synthesis_failed', { 
@@ -218,11 +408,15 @@ export class ResultAggregator extends EventEmitter {
         const result1 = results[i];
         const result2 = results[j];
 
-        if (this.haveConflictingResults(result1, result2)) {
+        const disagreements = this.findDisagreements(result1, result2);
+        if (disagreements) {
           conflicts.push({
+            conflict_id: this.conflictId('result_disagreement', [result1.agent_id, result2.agent_id]),
             type: 'result_disagreement',
             agents: [result1.agent_id, result2.agent_id],
-            description: `Conflicting results between ${result1.agent_id} and ${result2.agent_id}`
+            description: disagreements.length > 0
+              ? `${result1.agent_id} and ${result2.agent_id} disagree: ${disagreements.join('; ')}`
+              : `Conflicting results between ${result1.agent_id} and ${result2.agent_id}`
           });
         }
       }
@@ -232,6 +426,7 @@ export class ResultAggregator extends EventEmitter {
     const approaches = this.extractApproaches(results);
     if (approaches.length > 1) {
       conflicts.push({
+        conflict_id: this.conflictId('approach_difference', results.map(r => r.agent_id)),
         type: 'approach_difference',
         agents: results.map(r => r.agent_id),
         description: `Different approaches detected: ${approaches.join(', ')}`
@@ -354,33 +549,530 @@ export class ResultAggregator extends EventEmitter {
     };
   }
 
-  private manualSynthesis(_results: AgentResult[], conflicts: Conflict[]): ResultSynthesis {
+  /**
+   * Conflicts wait for a reviewer; once every one is resolved the reviewers'
+   * decisions are merged into the unified result. Decisions that contradict
+   * each other reopen the conflicts they settled.
+   */
+  private manualSynthesis(
+    results: AgentResult[],
+    conflicts: Conflict[],
+    resolutions: Map<string, ConflictResolution>
+  ): ResultSynthesis {
+    const decisions = conflicts
+      .map(conflict => resolutions.get(conflict.conflict_id))
+      .filter((resolution): resolution is ConflictResolution => resolution !== undefined);
+    const contradictions = this.contradictingDecisions(decisions);
+    conflicts.forEach(conflict => {
+      const resolution = resolutions.get(conflict.conflict_id);
+      if (resolution && !contradictions.conflictIds.has(conflict.conflict_id)) {
+        conflict.resolution = resolution.resolution;
+      }
+    });
+    const unresolved = conflicts.filter(conflict => conflict.resolution === undefined);
+
+    if (conflicts.length === 0) {
+      const successful = results.filter(result => !result.error);
+      return {
+        unified_result: this.findCommonElements(results),
+        confidence_score: successful.length > 0
+          ? successful.reduce((sum, result) => sum + result.confidence, 0) / successful.length
+          : 0,
+        conflicts,
+        recommendations: ['No conflicts to review'],
+        synthesis_method: 'manual'
+      };
+    }
+
+    if (unresolved.length > 0) {
+      return {
+        unified_result: null, // Requires manual intervention
+        confidence_score: 0,
+        conflicts,
+        recommendations: [
+          `${unresolved.length} of ${conflicts.length} conflicts awaiting review`,
+          ...(contradictions.conflictIds.size > 0
+            ? [`Decisions for ${contradictions.conflictIds.size} conflicts disagree on ${
+              contradictions.fields.length > 0 ? contradictions.fields.join(', ') : 'the result'}; resolve them again`]
+            : []),
+          'Review all agent results carefully',
+          'Consider domain expertise for final decision'
+        ],
+        synthesis_method: 'manual'
+      };
+    }
+
+    const distinct = new Set(decisions.map(resolution => JSON.stringify(resolution.result)));
     return {
-      unified_result: null, // Requires manual intervention
-      confidence_score: 0,
+      unified_result: distinct.size > 1
+        ? Object.assign({}, ...decisions.map(resolution => resolution.result))
+        : decisions[0].result,
+      confidence_score: 1,
       conflicts,
       recommendations: [
-        'Manual synthesis required due to complexity',
-        'Review all agent results carefully',
-        'Consider domain expertise for final decision'
+        `All ${conflicts.length} conflicts resolved by review`,
+        ...(distinct.size > 1 ? [`Merged the decisions for ${decisions.length} conflicts`] : [])
       ],
       synthesis_method: 'manual'
     };
   }
 
+  /**
+   * Conflicts whose decisions cannot be merged: object results that give a
+   * field different values, or any other results that differ at all
+   */
+  private contradictingDecisions(decisions: ConflictResolution[]): { conflictIds: Set<string>; fields: string[] } {
+    const isObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+    if (!decisions.every(decision => isObject(decision.result))) {
+      const distinct = new Set(decisions.map(decision => JSON.stringify(decision.result)));
+      return {
+        conflictIds: new Set(distinct.size > 1 ? decisions.map(decision => decision.conflict.conflict_id) : []),
+        fields: []
+      };
+    }
+
+    // Field -> serialized value -> conflicts whose decision gives the field that value
+    const values = new Map<string, Map<string, string[]>>();
+    decisions.forEach(decision => Object.entries(decision.result).forEach(([field, value]) => {
+      const byValue = values.get(field) || new Map<string, string[]>();
+      const key = JSON.stringify(value);
+      byValue.set(key, [...(byValue.get(key) || []), decision.conflict.conflict_id]);
+      values.set(field, byValue);
+    }));
+    const fields = Array.from(values.keys()).filter(field => values.get(field)!.size > 1);
+    return {
+      conflictIds: new Set(fields.flatMap(field => Array.from(values.get(field)!.values()).flat())),
+      fields
+    };
+  }
+
+  /**
+   * The result a reviewer's decision stands for, and how to describe it
+   */
+  private applyManualResolution(
+    aggregation: ResultAggregation,
+    conflict: Conflict,
+    decision: ManualResolution
+  ): { result: any; summary: string } {
+    const resultOf = (agentId: string) => {
+      const agentResult = aggregation.agent_results.find(result => result.agent_id === agentId);
+      if (!agentResult || agentResult.error) {
+        throw new Error(`Agent ${agentId} has no successful result in aggregation ${aggregation.aggregation_id}`);
+      }
+      return agentResult;
+    };
+
+    switch (decision.strategy) {
+      case 'choose_agent': {
+        if (!decision.agent_id || !conflict.agents.includes(decision.agent_id)) {
+          throw new Error(`agent_id must be one of ${conflict.agents.join(', ')}`);
+        }
+        return { result: resultOf(decision.agent_id).result, summary: `Chose the result of ${decision.agent_id}` };
+      }
+      case 'merge': {
+        const agentIds = decision.agent_ids && decision.agent_ids.length > 0 ? decision.agent_ids : conflict.agents;
+        const results = agentIds.map(resultOf);
+        const comparator = this.findComparator(results);
+        if (comparator) {
+          return { result: comparator.merge(results), summary: `Merged the results of ${agentIds.join(', ')}` };
+        }
+        if (!results.every(result => result.result && typeof result.result === 'object' && !Array.isArray(result.result))) {
+          throw new Error('Only object results can be merged; choose an agent or submit a custom result');
+        }
+        return {
+          result: Object.assign({}, ...results.map(result => result.result)),
+          summary: `Merged the results of ${agentIds.join(', ')}`
+        };
+      }
+      case 'custom':
+        if (!('result' in decision)) {
+          throw new Error('A custom resolution needs a result');
+        }
+        return { result: decision.result, summary: 'Replaced with a custom result' };
+      default:
+        throw new Error(`strategy must be one of ${MANUAL_RESOLUTION_STRATEGIES.join(', ')}`);
+    }
+  }
+
+  /**
+   * Group matching results and pick the group with the most agents. Ties go
+   * to the group with more agents specialized in the task type, then to the
+   * more confident one. majority_vote counts the successful results; quorum
+   * counts every expected agent, so missing and failed agents count against
+   * the winner.
+   */
+  private voteSynthesis(
+    results: AgentResult[],
+    conflicts: Conflict[],
+    request: AggregationRequest
+  ): ResultSynthesis {
+    const method = request.synthesisMethod as 'majority_vote' | 'quorum';
+    const successful = results.filter(result => !result.error);
+    const groups = this.groupMatchingResults(successful);
+    const threshold = request.threshold ??
+      (method === 'quorum' ? DEFAULT_QUORUM_THRESHOLD : DEFAULT_MAJORITY_THRESHOLD);
+    const electorate = method === 'quorum'
+      ? Math.max(request.expectedAgents?.length ?? 0, results.length)
+      : successful.length;
+    const requiredVotes = Math.max(1, Math.ceil(threshold * electorate));
+
+    const ranked = [...groups].sort((a, b) => b.length - a.length);
+    const tied = ranked.filter(group => ranked.length > 0 && group.length === ranked[0].length);
+    const { group: leader, tieBrokenBy } = this.breakTie(tied, request.taskType);
+    const won = leader !== undefined && leader.length >= requiredVotes;
+
+    const votes: VoteTally = {
+      groups: ranked.map(group => ({ agents: group.map(result => result.agent_id), votes: group.length })),
+      required_votes: requiredVotes,
+      winners: won ? leader.map(result => result.agent_id) : [],
+      ...(won && tieBrokenBy && { tie_broken_by: tieBrokenBy })
+    };
+
+    if (!won) {
+      return {
+        unified_result: null,
+        confidence_score: 0,
+        conflicts,
+        recommendations: [
+          `No result reached ${requiredVotes} of ${electorate} votes`,
+          ...(method === 'quorum' && electorate > results.length
+            ? [`Waiting for ${electorate - results.length} more agents`]
+            : [])
+        ],
+        synthesis_method: method,
+        votes
+      };
+    }
+
+    const comparator = this.findComparator(leader);
+    const averageConfidence = leader.reduce((sum, result) => sum + result.confidence, 0) / leader.length;
+    return {
+      unified_result: comparator ? comparator.merge(leader) : leader[0].result,
+      confidence_score: averageConfidence * (leader.length / Math.max(electorate, 1)),
+      conflicts,
+      recommendations: [
+        `${leader.length} of ${electorate} agents agree`,
+        ...(tieBrokenBy ? [`Tie between ${tied.length} results broken by ${tieBrokenBy}`] : [])
+      ],
+      synthesis_method: method,
+      votes
+    };
+  }
+
+  /**
+   * Each result joins the first group whose first result gives the same answer
+   */
+  private groupMatchingResults(results: AgentResult[]): AgentResult[][] {
+    const groups: AgentResult[][] = [];
+    results.forEach(result => {
+      const group = groups.find(candidate => this.resultsEquivalent(candidate[0], result));
+      if (group) {
+        group.push(result);
+      } else {
+        groups.push([result]);
+      }
+    });
+    return groups;
+  }
+
+  private breakTie(
+    tied: AgentResult[][],
+    taskType: string
+  ): { group?: AgentResult[]; tieBrokenBy?: VoteTally['tie_broken_by'] } {
+    if (tied.length <= 1) {
+      return tied.length === 1 ? { group: tied[0] } : {};
+    }
+
+    const specialists = (group: AgentResult[]) => group
+      .filter(result => this.agentSpecializations.get(result.agent_id)?.includes(taskType))
+      .length;
+    const confidence = (group: AgentResult[]) => group.reduce((sum, result) => sum + result.confidence, 0);
+
+    const bySpecialization = this.pickUnique(tied, specialists);
+    if (bySpecialization) {
+      return { group: bySpecialization, tieBrokenBy: 'specialization' };
+    }
+    const byConfidence = this.pickUnique(tied, confidence);
+    if (byConfidence) {
+      return { group: byConfidence, tieBrokenBy: 'confidence' };
+    }
+    return { group: tied[0], tieBrokenBy: 'order' };
+  }
+
+  /**
+   * The group with the highest score, unless several share it
+   */
+  private pickUnique(groups: AgentResult[][], score: (group: AgentResult[]) => number): AgentResult[] | undefined {
+    const scores = groups.map(score);
+    const best = Math.max(...scores);
+    return scores.filter(value => value === best).length === 1 ? groups[scores.indexOf(best)] : undefined;
+  }
+
+  /**
+   * Let the referee agent pick or merge the results once every expected
+   * agent has reported. Until then, and when the referee gives no usable
+   * verdict in time, the result with the highest weight stands as it is.
+   */
+  private async refereeSynthesis(
+    aggregation: ResultAggregation,
+    conflicts: Conflict[],
+    request: AggregationRequest,
+    closing: boolean
+  ): Promise<ResultSynthesis> {
+    const results = aggregation.agent_results;
+    const referee = request.referee!;
+    const best = this.highestWeightedResult(results, request.weights || {});
+    const fallback: ResultSynthesis = {
+      unified_result: best.result,
+      confidence_score: best.confidence,
+      conflicts,
+      recommendations: [],
+      synthesis_method: 'referee'
+    };
+
+    const reported = new Set(results.map(result => result.agent_id));
+    if (!closing && request.expectedAgents?.some(agentId => !reported.has(agentId))) {
+      return { ...fallback, recommendations: [`Waiting for all results before consulting referee ${referee}`] };
+    }
+
+    let verdict: ParsedVerdict;
+    try {
+      verdict = this.parseRefereeVerdict(await this.askReferee(aggregation, conflicts, request), results);
+    } catch (error) {
+      const reason = (error as Error).message;
+      return {
+        ...fallback,
+        recommendations: [`Referee ${referee} gave no verdict (${reason}); using the result of ${best.agent_id}, which has the highest weight`],
+        verdict: { referee, fallback: { method: 'highest_weighted', agent_id: best.agent_id, reason } }
+      };
+    }
+
+    const merged = verdict.merged_result !== undefined;
+    const successful = results.filter(result => !result.error);
+    const averageConfidence = successful.length > 0
+      ? successful.reduce((sum, result) => sum + result.confidence, 0) / successful.length
+      : 0;
+    conflicts.forEach(conflict => {
+      conflict.resolution = `Decided by referee ${referee}`;
+    });
+
+    return {
+      unified_result: merged ? verdict.merged_result : verdict.winner!.result,
+      confidence_score: verdict.confidence ?? (merged ? averageConfidence : verdict.winner!.confidence),
+      conflicts,
+      recommendations: [
+        merged
+          ? `Referee ${referee} merged the results${verdict.winner ? `, starting from ${verdict.winner.agent_id}` : ''}`
+          : `Referee ${referee} chose the result of ${verdict.winner!.agent_id}`,
+        ...(verdict.rationale ? [verdict.rationale] : [])
+      ],
+      synthesis_method: 'referee',
+      verdict: {
+        referee,
+        ...(verdict.winner && { winner: verdict.winner.agent_id }),
+        ...(merged && { merged: true }),
+        ...(verdict.rationale && { rationale: verdict.rationale })
+      }
+    };
+  }
+
+  /**
+   * The successful result with the highest weight (its confidence unless
+   * `weights` names the agent), then the highest confidence, then the first
+   */
+  private highestWeightedResult(results: AgentResult[], weights: Record<string, number>): AgentResult {
+    const successful = results.filter(result => !result.error);
+    const candidates = successful.length > 0 ? successful : results;
+    const weightOf = (result: AgentResult) => weights[result.agent_id] || result.confidence;
+    return candidates.reduce((best, current) => {
+      const difference = weightOf(current) - weightOf(best);
+      return difference > 0 || (difference === 0 && current.confidence > best.confidence) ? current : best;
+    });
+  }
+
+  /**
+   * Consult the referee once per set of results, however often synthesis
+   * re-runs over them
+   */
+  private askReferee(aggregation: ResultAggregation, conflicts: Conflict[], request: AggregationRequest): Promise<any> {
+    const results = JSON.stringify(aggregation.agent_results);
+    const cached = this.refereeVerdicts.get(aggregation.aggregation_id);
+    if (cached && cached.results === results) {
+      return cached.answer;
+    }
+
+    const referee = request.referee!;
+    const timeout = request.refereeTimeout ?? DEFAULT_REFEREE_TIMEOUT;
+    const judge = this.refereeJudge;
+    const answer = new Promise<any>((resolve, reject) => {
+      if (!judge) {
+        reject(new Error('No referee judge registered'));
+        return;
+      }
+      const timer = setTimeout(() => reject(new Error(`Referee ${referee} did not answer within ${timeout}ms`)), timeout);
+      Promise.resolve()
+        .then(() => judge(referee, {
+          aggregation_id: aggregation.aggregation_id,
+          session_id: aggregation.session_id,
+          task_type: aggregation.task_type,
+          agent_results: aggregation.agent_results,
+          conflicts
+        }, timeout))
+        .then(value => {
+          clearTimeout(timer);
+          resolve(value);
+        }, error => {
+          clearTimeout(timer);
+          reject(error);
+        });
+    });
+
+    this.refereeVerdicts.set(aggregation.aggregation_id, { results, answer });
+    this.emit('referee_consulted', { aggregation_id: aggregation.aggregation_id, referee });
+    answer.catch(error => this.emit('referee_fallback', {
+      aggregation_id: aggregation.aggregation_id,
+      referee,
+      reason: (error as Error).message
+    }));
+    return answer;
+  }
+
+  /**
+   * Accept the verdict as an object, wrapped in `verdict`, or as text holding
+   * JSON the way LLM agents tend to answer
+   */
+  private parseRefereeVerdict(answer: any, results: AgentResult[]): ParsedVerdict {
+    let verdict = answer?.verdict ?? answer;
+    if (typeof verdict === 'string') {
+      const json = verdict.match(/\{[\s\S]*\}/);
+      try {
+        verdict = json ? JSON.parse(json[0]) : undefined;
+      } catch {
+        verdict = undefined;
+      }
+    }
+    if (!verdict || typeof verdict !== 'object') {
+      throw new Error('Referee verdict is not an object');
+    }
+
+    const parsed: ParsedVerdict = {};
+    if (verdict.winner !== undefined && verdict.winner !== null) {
+      const winner = results.find(result => result.agent_id === verdict.winner && !result.error);
+      if (!winner) {
+        throw new Error(`Referee chose ${verdict.winner}, which has no successful result`);
+      }
+      parsed.winner = winner;
+    }
+    if (verdict.merged_result !== undefined) {
+      parsed.merged_result = verdict.merged_result;
+    }
+    if (!parsed.winner && parsed.merged_result === undefined) {
+      throw new Error('Referee verdict names neither a winner nor a merged result');
+    }
+    if (typeof verdict.rationale === 'string' && verdict.rationale.trim()) {
+      parsed.rationale = verdict.rationale.trim();
+    }
+    if (typeof verdict.confidence === 'number' && verdict.confidence >= 0 && verdict.confidence <= 1) {
+      parsed.confidence = verdict.confidence;
+    }
+    return parsed;
+  }
+
+  /**
+   * Complete the aggregation once every expected agent has reported, or as
+   * soon as a quorum of matching results is in
+   */
+  private checkCompletion(aggregation: ResultAggregation, request: AggregationRequest): void {
+    if (aggregation.status !== 'collecting') {
+      return;
+    }
+
+    const reported = new Set(aggregation.agent_results.map(result => result.agent_id));
+    if (!request.expectedAgents || request.expectedAgents.every(agentId => reported.has(agentId))) {
+      this.markCompleted(aggregation, 'all_responded');
+    } else if (request.synthesisMethod === 'quorum' && aggregation.synthesis.votes?.winners.length) {
+      this.markCompleted(aggregation, 'quorum');
+    }
+  }
+
+  private markCompleted(aggregation: ResultAggregation, reason: AggregationCompletion): void {
+    if (aggregation.status !== 'collecting') {
+      return;
+    }
+    aggregation.status = 'completed';
+    this.emit('aggregation_completed', { aggregation_id: aggregation.aggregation_id, reason, aggregation });
+  }
+
+  /**
+   * Move a collected manual aggregation between pending review and resolved
+   * as conflicts appear and get resolved
+   */
+  private updateReviewStatus(aggregation: ResultAggregation): void {
+    if (aggregation.synthesis.synthesis_method !== 'manual' || aggregation.status === 'collecting') {
+      return;
+    }
+
+    const unresolved = aggregation.synthesis.conflicts.filter(conflict => conflict.resolution === undefined);
+    if (unresolved.length > 0 && aggregation.status !== 'pending_review') {
+      aggregation.status = 'pending_review';
+      this.emit('aggregation_pending_review', {
+        aggregation_id: aggregation.aggregation_id,
+        conflicts: unresolved
+      });
+    } else if (unresolved.length === 0 && aggregation.status === 'pending_review') {
+      aggregation.status = 'resolved';
+      this.emit('aggregation_resolved', { aggregation_id: aggregation.aggregation_id, aggregation });
+    }
+  }
+
+  /**
+   * Hash of the conflict type and agents, so a conflict keeps its ID when
+   * synthesis re-runs
+   */
+  private conflictId(type: Conflict['type'], agents: string[]): string {
+    return `conflict_${createHash('sha1').update(`${type}|${agents.join(',')}`).digest('hex').substring(0, 12)}`;
+  }
+
   // Helper methods
-  private haveConflictingResults(result1: AgentResult, result2: AgentResult): boolean {
-    // Simple conflict detection - can be made more sophisticated
+  /**
+   * Null when the results agree, otherwise what they disagree on; an empty
+   * list means they differ in a way no comparator can itemize
+   */
+  private findDisagreements(result1: AgentResult, result2: AgentResult): string[] | null {
     if (result1.error && result2.error) {
-      return false; // Both failed, not a conflict
+      return null; // Both failed, not a conflict
     }
     
     if (result1.error || result2.error) {
-      return true; // One succeeded, one failed
+      return []; // One succeeded, one failed
+    }
+
+    const comparator = this.findComparator([result1, result2]);
+    if (comparator) {
+      const disagreements = comparator.compare(result1.result, result2.result);
+      return disagreements.length > 0 ? disagreements : null;
     }
 
-    // Compare result structures (simplified)
-    return JSON.stringify(result1.result) !== JSON.stringify(result2.result);
+    return JSON.stringify(result1.result) !== JSON.stringify(result2.result) ? [] : null;
+  }
+
+  /**
+   * Whether two successful results give the same answer. Not disagreeing is
+   * not enough: a review without issues and one with a critical issue do not
+   * disagree on any finding, but they are different answers.
+   */
+  private resultsEquivalent(result1: AgentResult, result2: AgentResult): boolean {
+    const comparator = this.findComparator([result1, result2]);
+    return comparator
+      ? comparator.equivalent(result1.result, result2.result)
+      : JSON.stringify(result1.result) === JSON.stringify(result2.result);
+  }
+
+  /**
+   * The first comparator that understands every one of the results
+   */
+  private findComparator(results: AgentResult[]): ResultComparator | undefined {
+    return this.comparators.find(comparator => results.every(result => comparator.applies(result.result)));
   }
 
   private extractApproaches(results: AgentResult[]): string[] {
@@ -404,8 +1096,13 @@ export class ResultAggregator extends EventEmitter {
       return null;
     }
 
-    // For now, return the most common successful result
-    // This can be made more sophisticated with proper diffing
+    // Structured results merge their findings; anything else falls back to
+    // the most common successful result
+    const comparator = this.findComparator(successfulResults);
+    if (comparator) {
+      return comparator.merge(successfulResults);
+    }
+
     const resultStrings = successfulResults.map(r => JSON.stringify(r.result));
     const frequency: Record<string, number> = {};
     
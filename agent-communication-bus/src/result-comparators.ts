@@ -0,0 +1,375 @@
+import { AgentResult } from './types/protocol';
+
+/**
+ * Compares agent results of one shape. Findings are keyed by what they are
+ * about rather than how they are worded, so two agents reporting the same
+ * thing agree and only real disagreements count as conflicts.
+ */
+export interface ResultComparator {
+  name: string;
+  applies(result: any): boolean;
+  // One description per disagreement between the two results
+  compare(first: any, second: any): string[];
+  // Whether the two results report the same thing, so they count as one answer in a vote
+  equivalent(first: any, second: any): boolean;
+  // Combine results, keeping each distinct finding once with the agents that reported it
+  merge(results: AgentResult[]): any;
+}
+
+export interface ReviewIssue {
+  file: string;
+  line?: number;
+  severity: string;
+  message?: string;
+  reported_by?: string[];
+  [key: string]: any;
+}
+
+export interface DiffHunk {
+  file: string;
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  lines: string[];
+  reported_by?: string[];
+}
+
+export interface TestCase {
+  name: string;
+  status?: string;
+  reported_by?: string[];
+  [key: string]: any;
+}
+
+/**
+ * Code reviews: `{ issues: [{ file, line, severity, message }], approved? }`.
+ * Issues on the same line with the same severity are the same finding; the
+ * same line rated with different severities is a disagreement.
+ */
+export const codeReviewComparator: ResultComparator = {
+  name: 'code_review',
+
+  applies: result => Array.isArray(result?.issues) &&
+    result.issues.every((issue: any) => typeof issue?.file === 'string'),
+
+  compare(first, second) {
+    const disagreements: string[] = [];
+    if (typeof first.approved === 'boolean' && typeof second.approved === 'boolean' && first.approved !== second.approved) {
+      disagreements.push('one approves and the other requests changes');
+    }
+
+    const firstSeverities = severitiesByLocation(first.issues);
+    const secondSeverities = severitiesByLocation(second.issues);
+    firstSeverities.forEach((severities, location) => {
+      const other = secondSeverities.get(location);
+      if (other && !sameMembers(severities, other)) {
+        disagreements.push(`${location} rated ${[...severities].join('/')} vs ${[...other].join('/')}`);
+      }
+    });
+    return disagreements;
+  },
+
+  equivalent(first, second) {
+    return first.approved === second.approved && sameMembers(findingKeys(first.issues), findingKeys(second.issues));
+  },
+
+  merge(results) {
+    const issues = new Map<string, ReviewIssue>();
+    results.forEach(({ agent_id, result }) => {
+      (result.issues as ReviewIssue[]).forEach(raw => {
+        const issue = normalizeIssue(raw);
+        const key = `${issueLocation(issue)}:${issue.severity}`;
+        const existing = issues.get(key);
+        if (existing) {
+          addReporter(existing, agent_id);
+        } else {
+          issues.set(key, { ...issue, reported_by: [agent_id] });
+        }
+      });
+    });
+
+    const verdicts = results
+      .map(({ result }) => result.approved)
+      .filter((approved): approved is boolean => typeof approved === 'boolean');
+
+    return {
+      issues: Array.from(issues.values()).sort((a, b) =>
+        a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0)),
+      ...(verdicts.length > 0 && { approved: verdicts.every(Boolean) })
+    };
+  }
+};
+
+/**
+ * Generated code as a unified diff in `diff` or `patch`. Hunks with the same
+ * changed lines agree whatever their context or line offsets; hunks that
+ * change overlapping lines of a file differently disagree.
+ */
+export const unifiedDiffComparator: ResultComparator = {
+  name: 'unified_diff',
+
+  applies: result => diffHunks(result).length > 0,
+
+  compare(first, second) {
+    const disagreements = new Set<string>();
+    const secondHunks = diffHunks(second);
+    diffHunks(first).forEach(hunk => {
+      secondHunks
+        .filter(other => hunksOverlap(hunk, other) && hunkKey(hunk) !== hunkKey(other))
+        .forEach(other => {
+          const start = Math.max(hunk.oldStart, other.oldStart);
+          const end = Math.min(hunkEnd(hunk), hunkEnd(other));
+          disagreements.add(`${hunk.file} lines ${start}-${end} changed differently`);
+        });
+    });
+    return Array.from(disagreements);
+  },
+
+  equivalent(first, second) {
+    return sameMembers(new Set(diffHunks(first).map(hunkKey)), new Set(diffHunks(second).map(hunkKey)));
+  },
+
+  merge(results) {
+    const hunks = new Map<string, DiffHunk>();
+    results.forEach(({ agent_id, result }) => {
+      diffHunks(result).forEach(hunk => {
+        const existing = hunks.get(hunkKey(hunk));
+        if (existing) {
+          addReporter(existing, agent_id);
+        } else {
+          hunks.set(hunkKey(hunk), { ...hunk, reported_by: [agent_id] });
+        }
+      });
+    });
+
+    // Of overlapping alternatives, keep the hunk most agents produced
+    const kept: DiffHunk[] = [];
+    const conflicting: DiffHunk[] = [];
+    Array.from(hunks.values())
+      .sort((a, b) => b.reported_by!.length - a.reported_by!.length)
+      .forEach(hunk => (kept.some(other => hunksOverlap(hunk, other)) ? conflicting : kept).push(hunk));
+    kept.sort((a, b) => a.file.localeCompare(b.file) || a.oldStart - b.oldStart);
+
+    return {
+      diff: formatUnifiedDiff(kept),
+      hunks: kept,
+      ...(conflicting.length > 0 && { conflicting_hunks: conflicting })
+    };
+  }
+};
+
+/**
+ * Test cases: `{ tests: [{ name, status | passed }] }`. Tests are matched by
+ * name; the same test reported with different outcomes is a disagreement.
+ */
+export const testCaseComparator: ResultComparator = {
+  name: 'test_cases',
+
+  applies: result => Array.isArray(result?.tests) &&
+    result.tests.every((test: any) => typeof test?.name === 'string'),
+
+  compare(first, second) {
+    const secondStatuses = new Map((second.tests as TestCase[]).map(test => [test.name, testStatus(test)]));
+    return (first.tests as TestCase[])
+      .filter(test => {
+        const status = testStatus(test);
+        const other = secondStatuses.get(test.name);
+        return status !== undefined && other !== undefined && status !== other;
+      })
+      .map(test => `test "${test.name}" ${testStatus(test)} vs ${secondStatuses.get(test.name)}`);
+  },
+
+  equivalent(first, second) {
+    const outcomes = (result: any) => new Set((result.tests as TestCase[]).map(test => `${test.name}:${testStatus(test)}`));
+    return sameMembers(outcomes(first), outcomes(second));
+  },
+
+  merge(results) {
+    const tests = new Map<string, TestCase & { statuses: Set<string> }>();
+    results.forEach(({ agent_id, result }) => {
+      (result.tests as TestCase[]).forEach(test => {
+        const status = testStatus(test);
+        const existing = tests.get(test.name);
+        if (existing) {
+          addReporter(existing, agent_id);
+          if (status !== undefined) {
+            existing.statuses.add(status);
+          }
+        } else {
+          tests.set(test.name, { ...test, reported_by: [agent_id], statuses: new Set(status === undefined ? [] : [status]) });
+        }
+      });
+    });
+
+    return {
+      tests: Array.from(tests.values()).map(({ statuses, status: _status, passed: _passed, ...test }) => ({
+        ...test,
+        ...(statuses.size > 0 && { status: statuses.size === 1 ? [...statuses][0] : 'disputed' })
+      }))
+    };
+  }
+};
+
+export const DEFAULT_RESULT_COMPARATORS: ResultComparator[] = [
+  codeReviewComparator,
+  unifiedDiffComparator,
+  testCaseComparator
+];
+
+/**
+ * Split a unified diff into hunks, skipping anything that is not a hunk. A
+ * hunk ends once it has as many old and new lines as its `@@` header
+ * declares, so changed lines such as `-- comment` or `++i` are not mistaken
+ * for file headers.
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let file = '';
+  let current: DiffHunk | undefined;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  diff.split('\n').forEach(line => {
+    if (current && (oldRemaining > 0 || newRemaining > 0)) {
+      if (/^[ +\-\\]/.test(line)) {
+        current.lines.push(line);
+        oldRemaining -= line.startsWith(' ') || line.startsWith('-') ? 1 : 0;
+        newRemaining -= line.startsWith(' ') || line.startsWith('+') ? 1 : 0;
+        return;
+      }
+      // The hunk is shorter than its header says
+      current = undefined;
+    }
+
+    // "\ No newline at end of file" may follow the last line of a hunk
+    if (current && line.startsWith('\\')) {
+      current.lines.push(line);
+      return;
+    }
+
+    if (line.startsWith('+++ ')) {
+      file = line.slice(4).trim().replace(/^b\//, '');
+      current = undefined;
+      return;
+    }
+    if (line.startsWith('--- ') || line.startsWith('diff ')) {
+      current = undefined;
+      return;
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (header) {
+      current = {
+        file,
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        lines: []
+      };
+      oldRemaining = current.oldLines;
+      newRemaining = header[3] === undefined ? 1 : Number(header[3]);
+      hunks.push(current);
+      return;
+    }
+
+    current = undefined;
+  });
+
+  return hunks;
+}
+
+function formatUnifiedDiff(hunks: DiffHunk[]): string {
+  const lines: string[] = [];
+  let file: string | undefined;
+  hunks.forEach(hunk => {
+    if (hunk.file !== file) {
+      file = hunk.file;
+      lines.push(`--- a/${file}`, `+++ b/${file}`);
+    }
+    lines.push(hunk.header, ...hunk.lines);
+  });
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+const parsedDiffs = new WeakMap<object, { text: string; hunks: DiffHunk[] }>();
+
+/**
+ * Hunks of a result's diff, parsed once per result however many comparisons
+ * it takes part in
+ */
+function diffHunks(result: any): DiffHunk[] {
+  const text = diffText(result);
+  if (text === undefined) {
+    return [];
+  }
+  const parsed = parsedDiffs.get(result);
+  if (parsed && parsed.text === text) {
+    return parsed.hunks;
+  }
+  const hunks = parseUnifiedDiff(text);
+  parsedDiffs.set(result, { text, hunks });
+  return hunks;
+}
+
+function diffText(result: any): string | undefined {
+  if (typeof result?.diff === 'string') {
+    return result.diff;
+  }
+  return typeof result?.patch === 'string' ? result.patch : undefined;
+}
+
+/**
+ * Only added and removed lines identify a hunk; whitespace is collapsed
+ */
+function hunkKey(hunk: DiffHunk): string {
+  return [hunk.file, ...hunk.lines
+    .filter(line => line.startsWith('+') || line.startsWith('-'))
+    .map(line => `${line[0]}${line.slice(1).trim().replace(/\s+/g, ' ')}`)
+  ].join('\n');
+}
+
+function hunkEnd(hunk: DiffHunk): number {
+  return hunk.oldStart + Math.max(hunk.oldLines, 1) - 1;
+}
+
+function hunksOverlap(first: DiffHunk, second: DiffHunk): boolean {
+  return first.file === second.file && first.oldStart <= hunkEnd(second) && second.oldStart <= hunkEnd(first);
+}
+
+function normalizeIssue(issue: ReviewIssue): ReviewIssue {
+  return { ...issue, severity: String(issue.severity ?? 'unknown').toLowerCase() };
+}
+
+function issueLocation(issue: ReviewIssue): string {
+  return issue.line === undefined ? issue.file : `${issue.file}:${issue.line}`;
+}
+
+function findingKeys(issues: ReviewIssue[]): Set<string> {
+  return new Set(issues.map(normalizeIssue).map(issue => `${issueLocation(issue)}:${issue.severity}`));
+}
+
+function severitiesByLocation(issues: ReviewIssue[]): Map<string, Set<string>> {
+  const locations = new Map<string, Set<string>>();
+  issues.map(normalizeIssue).forEach(issue => {
+    const location = issueLocation(issue);
+    locations.set(location, (locations.get(location) || new Set()).add(issue.severity));
+  });
+  return locations;
+}
+
+function testStatus(test: TestCase): string | undefined {
+  if (typeof test.status === 'string') {
+    return test.status;
+  }
+  return typeof test.passed === 'boolean' ? (test.passed ? 'passed' : 'failed') : undefined;
+}
+
+function sameMembers(first: Set<string>, second: Set<string>): boolean {
+  return first.size === second.size && [...first].every(member => second.has(member));
+}
+
+function addReporter(item: { reported_by?: string[] }, agentId: string): void {
+  if (!item.reported_by!.includes(agentId)) {
+    item.reported_by!.push(agentId);
+  }
+}
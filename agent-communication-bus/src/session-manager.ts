@@ -1,12 +1,37 @@
 import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
-import { SessionContext, AgentParticipant, WorkflowStep } from './types/protocol';
+import {
+  SessionContext,
+  AgentParticipant,
+  WorkflowStep,
+  SharedContextChange,
+  DelegationPolicy
+} from './types/protocol';
+import { WorkflowRunner, WORKFLOW_EVENTS } from './workflow-runner';
+import {
+  SessionRepository,
+  SessionRepositoryBackend,
+  createSessionRepository
+} from './persistence/session-repository';
 
 export interface SessionConfig {
   timeout?: number;
   maxParticipants?: number;
   autoCleanup?: boolean;
   persistenceEnabled?: boolean;
+  persistenceBackend?: SessionRepositoryBackend;
+  persistencePath?: string;
+  repository?: SessionRepository;
+  retryPolicy?: Partial<TaskRetryPolicy>;
+  retryBaseDelay?: number;
+}
+
+export interface TaskRetryPolicy {
+  maxRetries: number;
+  backoffMultiplier: number;
+  maxDelay: number;
+  // Agent to hand the task to for the final attempt
+  reassignTo?: string;
 }
 
 export interface TaskDelegation {
@@ -18,19 +43,64 @@ export interface TaskDelegation {
   payload: any;
   priority: 'low' | 'medium' | 'high' | 'critical';
   timeout: number;
-  retryPolicy: {
-    maxRetries: number;
-    backoffMultiplier: number;
-    maxDelay: number;
-  };
+  retryPolicy: TaskRetryPolicy;
   createdAt: Date;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'timeout';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'timeout' | 'cancelled';
+  // Dispatches so far, including the first one
+  attempts: number;
+  lastAttemptAt?: string;
+  nextRetryAt?: string;
+  lastError?: string;
+}
+
+// Keys the bus maintains itself; agents cannot overwrite them
+const RESERVED_CONTEXT_KEYS = ['created_at', 'updated_at', 'task_progress', 'workflow_outputs', 'step_results'];
+const MAX_CONTEXT_HISTORY = 200;
+
+/**
+ * Whether a task is still waiting for its result
+ */
+function isOpen(task: TaskDelegation): boolean {
+  return task.status === 'pending' || task.status === 'in_progress';
+}
+
+export interface SharedContextSnapshot {
+  context: Record<string, any>;
+  versions: Record<string, number>;
 }
 
+export class ContextConflictError extends Error {
+  constructor(
+    public readonly sessionId: string,
+    public readonly conflicts: Array<{ key: string; expected: number; actual: number }>
+  ) {
+    super(`Stale shared context write for session ${sessionId}: ${conflicts
+      .map(conflict => `${conflict.key} is at version ${conflict.actual}, not ${conflict.expected}`)
+      .join('; ')}`);
+  }
+}
+
+export class DelegationRejectedError extends Error {
+  constructor(public readonly sessionId: string, public readonly delegator: string) {
+    super(`Session ${sessionId} only accepts tasks delegated by its orchestrator, not ${delegator}`);
+  }
+}
+
+// Participants free to take a task come first; busy ones only when no one else has the role
+const PARTICIPANT_AVAILABILITY: Partial<Record<AgentParticipant['status'], number>> = {
+  active: 0,
+  waiting: 1,
+  busy: 2
+};
+
 export class SessionManager extends EventEmitter {
   private sessions: Map<string, SessionContext> = new Map();
   private taskDelegations: Map<string, TaskDelegation> = new Map();
   private config: SessionConfig;
+  private workflowRunner: WorkflowRunner;
+  private repository: SessionRepository | undefined;
+  private taskTimers: Map<string, NodeJS.Timeout> = new Map();
+  private cleanupInterval: NodeJS.Timeout | undefined;
 
   constructor(config: SessionConfig = {}) {
     super();
@@ -39,13 +109,95 @@ export class SessionManager extends EventEmitter {
       maxParticipants: 10,
       autoCleanup: true,
       persistenceEnabled: false,
+      retryBaseDelay: 1000,
       ...config
     };
 
+    this.repository = this.config.repository ?? createSessionRepository(this.config);
+
+    this.workflowRunner = new WorkflowRunner(this);
+    WORKFLOW_EVENTS.forEach(event => {
+      this.workflowRunner.on(event, data => {
+        this.persistSession(data.sessionId);
+        this.emit(event, data);
+      });
+    });
+
     // Setup cleanup interval
     if (this.config.autoCleanup) {
-      setInterval(() => this.cleanupExpiredSessions(), 300000); // 5 minutes
+      this.cleanupInterval = setInterval(() => this.cleanupExpiredSessions(), 300000); // 5 minutes
+    }
+  }
+
+  /**
+   * Load persisted sessions and tasks, re-arm timeouts for tasks still in
+   * flight and resume running workflows. Terminated sessions, and finished
+   * tasks outside a live session, are removed from the repository instead.
+   * Call once before using the manager.
+   */
+  async restore(): Promise<{ sessions: number; tasks: number }> {
+    if (!this.repository) {
+      return { sessions: 0, tasks: 0 };
+    }
+
+    const snapshot = await this.repository.loadAll();
+    snapshot.sessions.forEach(session => this.sessions.set(session.sessionId, session));
+
+    // Drop whatever finished before it could be pruned, e.g. in a store
+    // written by an older version
+    const tasks = snapshot.tasks.filter(task => {
+      if (!this.isPrunable(task)) {
+        return true;
+      }
+      this.unpersistTask(task.taskId);
+      return false;
+    });
+    const sessions = snapshot.sessions.filter(session => {
+      if (!session.terminated_at) {
+        return true;
+      }
+      this.sessions.delete(session.sessionId);
+      this.unpersistSession(session.sessionId);
+      return false;
+    });
+
+    tasks
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .forEach(task => {
+        this.taskDelegations.set(task.taskId, task);
+        if (task.status !== 'pending' && task.status !== 'in_progress') {
+          return;
+        }
+        if (task.nextRetryAt) {
+          this.startRetryTimer(task.taskId, Math.max(new Date(task.nextRetryAt).getTime() - Date.now(), 0));
+          return;
+        }
+        const startedAt = task.lastAttemptAt ? new Date(task.lastAttemptAt).getTime() : task.createdAt.getTime();
+        this.startTaskTimeout(task.taskId, Math.max(startedAt + task.timeout - Date.now(), 0));
+      });
+
+    const restored = { sessions: sessions.length, tasks: tasks.length };
+    this.emit('sessions_restored', restored);
+
+    sessions
+      .filter(session => session.workflow.status === 'running')
+      .forEach(session => this.workflowRunner.resume(session.sessionId));
+
+    return restored;
+  }
+
+  /**
+   * Stop timers and flush pending writes to the repository
+   */
+  async close(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = undefined;
     }
+    this.taskTimers.forEach(timer => clearTimeout(timer));
+    this.taskTimers.clear();
+
+    await this.repository?.close();
   }
 
   /**
@@ -54,7 +206,8 @@ export class SessionManager extends EventEmitter {
   createSession(
     orchestrator: string,
     participants: AgentParticipant[] = [],
-    workflow: WorkflowStep[] = []
+    workflow: WorkflowStep[] = [],
+    options: { delegationPolicy?: DelegationPolicy } = {}
   ): string {
     const sessionId = `sess_${Date.now()}_${uuidv4().substring(0, 8)}`;
     
@@ -82,10 +235,12 @@ export class SessionManager extends EventEmitter {
         updated_at: new Date().toISOString()
       },
       created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
+      updated_at: new Date().toISOString(),
+      ...(options.delegationPolicy && { delegation_policy: options.delegationPolicy })
     };
 
     this.sessions.set(sessionId, session);
+    this.persistSession(sessionId);
     this.emit('session_created', { sessionId, session });
     
     return sessionId;
@@ -111,6 +266,7 @@ export class SessionManager extends EventEmitter {
     session.updated_at = new Date().toISOString();
     
     this.sessions.set(sessionId, session);
+    this.persistSession(sessionId);
     this.emit('participant_added', { sessionId, participant });
     
     return true;
@@ -137,13 +293,69 @@ export class SessionManager extends EventEmitter {
     session.updated_at = new Date().toISOString();
     
     this.sessions.set(sessionId, session);
+    this.persistSession(sessionId);
     this.emit('participant_removed', { sessionId, agentId, participant });
     
     return true;
   }
 
   /**
-   * Delegate task from one agent to another
+   * Mark a participant as active, waiting or busy. Delegating a task marks
+   * its delegatee busy until it has no open tasks left in the session.
+   */
+  setParticipantStatus(
+    sessionId: string,
+    agentId: string,
+    status: Extract<AgentParticipant['status'], 'active' | 'waiting' | 'busy'>
+  ): boolean {
+    const session = this.sessions.get(sessionId);
+    const participant = session?.participants.find(p => p.agent_id === agentId);
+    if (!session || !participant || PARTICIPANT_AVAILABILITY[participant.status] === undefined) {
+      return false;
+    }
+
+    if (participant.status !== status) {
+      participant.status = status;
+      session.updated_at = new Date().toISOString();
+      this.persistSession(sessionId);
+      this.emit('participant_status_changed', { sessionId, agentId, status });
+    }
+    return true;
+  }
+
+  /**
+   * Pick the participant with the given role to hand a task to. Active
+   * participants come before waiting ones and busy ones come last; ties go
+   * to the participant with the fewest open tasks in the session, then to
+   * whoever joined first.
+   */
+  selectParticipant(sessionId: string, role: string): AgentParticipant | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const openTasks = new Map<string, number>();
+    this.taskDelegations.forEach(task => {
+      if (task.sessionId === sessionId && (task.status === 'pending' || task.status === 'in_progress')) {
+        openTasks.set(task.delegatee, (openTasks.get(task.delegatee) || 0) + 1);
+      }
+    });
+
+    const candidates = session.participants
+      .filter(participant => participant.role === role && PARTICIPANT_AVAILABILITY[participant.status] !== undefined)
+      .sort((a, b) =>
+        PARTICIPANT_AVAILABILITY[a.status]! - PARTICIPANT_AVAILABILITY[b.status]! ||
+        (openTasks.get(a.agent_id) || 0) - (openTasks.get(b.agent_id) || 0));
+    return candidates[0] || null;
+  }
+
+  /**
+   * Delegate task from one agent to another. Within a session the delegatee
+   * may be a role instead of an agent ID (a name without `://` that is not a
+   * participant's ID), in which case `selectParticipant` picks the agent. Sessions with the
+   * `orchestrator_only` delegation policy reject tasks from anyone but the
+   * orchestrator with a DelegationRejectedError.
    */
   delegateTask(
     delegator: string,
@@ -154,8 +366,22 @@ export class SessionManager extends EventEmitter {
       priority?: TaskDelegation['priority'];
       timeout?: number;
       sessionId?: string;
+      retryPolicy?: Partial<TaskRetryPolicy>;
     } = {}
   ): string {
+    const session = options.sessionId ? this.sessions.get(options.sessionId) : undefined;
+    if (session && !this.canDelegate(session, delegator)) {
+      throw new DelegationRejectedError(session.sessionId, delegator);
+    }
+
+    if (session && !delegatee.includes('://') && !session.participants.some(p => p.agent_id === delegatee)) {
+      const participant = this.selectParticipant(session.sessionId, delegatee);
+      if (!participant) {
+        throw new Error(`No participant with role ${delegatee} in session ${session.sessionId}`);
+      }
+      delegatee = participant.agent_id;
+    }
+
     const taskId = `task_${Date.now()}_${uuidv4().substring(0, 8)}`;
     
     const delegation: TaskDelegation = {
@@ -168,16 +394,22 @@ export class SessionManager extends EventEmitter {
       priority: options.priority || 'medium',
       timeout: options.timeout || 300000, // 5 minutes default
       retryPolicy: {
-        maxRetries: 3,
+        // Retries are opt-in; a retried task may repeat side effects
+        maxRetries: 0,
         backoffMultiplier: 2,
-        maxDelay: 30000 // 30 seconds
+        maxDelay: 30000, // 30 seconds
+        ...this.config.retryPolicy,
+        ...options.retryPolicy
       },
       createdAt: new Date(),
-      status: 'pending'
+      status: 'pending',
+      attempts: 1
     };
 
     this.taskDelegations.set(taskId, delegation);
+    this.persistTask(taskId);
     this.emit('task_delegated', { taskId, delegation });
+    this.updateParticipantLoad(delegation.sessionId, delegatee);
     
     // Start task execution timeout
     this.startTaskTimeout(taskId, delegation.timeout);
@@ -190,17 +422,26 @@ export class SessionManager extends EventEmitter {
    */
   updateTaskStatus(taskId: string, status: TaskDelegation['status'], result?: any): boolean {
     const delegation = this.taskDelegations.get(taskId);
-    if (!delegation) {
+    // Late responses from an agent must not revive a finished task
+    if (!delegation || !isOpen(delegation)) {
       return false;
     }
 
+    if ((status === 'failed' || status === 'timeout') && this.scheduleRetry(delegation, status, result)) {
+      return true;
+    }
+
+    this.clearTaskTimer(taskId);
+    delete delegation.nextRetryAt;
     delegation.status = status;
     if (result) {
       (delegation as any).result = result;
     }
 
     this.taskDelegations.set(taskId, delegation);
+    this.persistTask(taskId);
     this.emit('task_updated', { taskId, delegation, status, result });
+    this.updateParticipantLoad(delegation.sessionId, delegation.delegatee);
     
     // Update session if applicable
     if (delegation.sessionId !== 'ad-hoc') {
@@ -210,6 +451,39 @@ export class SessionManager extends EventEmitter {
     return true;
   }
 
+  /**
+   * Hand an unfinished task to another agent, e.g. when its message was
+   * rerouted to a fallback agent
+   */
+  reassignTask(taskId: string, delegatee: string): boolean {
+    const delegation = this.taskDelegations.get(taskId);
+    if (!delegation || !isOpen(delegation)) {
+      return false;
+    }
+
+    const previousDelegatee = delegation.delegatee;
+    delegation.delegatee = delegatee;
+    this.persistTask(taskId);
+    this.updateParticipantLoad(delegation.sessionId, previousDelegatee);
+    this.updateParticipantLoad(delegation.sessionId, delegatee);
+    return true;
+  }
+
+  /**
+   * Cancel a task that has not finished yet, including one waiting to be
+   * retried. Emits task_cancelled so the bus can tell the agent to stop.
+   */
+  cancelTask(taskId: string, reason?: string): boolean {
+    const delegation = this.taskDelegations.get(taskId);
+    if (!delegation || !isOpen(delegation)) {
+      return false;
+    }
+
+    this.updateTaskStatus(taskId, 'cancelled', reason ? { reason } : undefined);
+    this.emit('task_cancelled', { taskId, delegation, ...(reason !== undefined && { reason }) });
+    return true;
+  }
+
   /**
    * Get session information
    */
@@ -217,6 +491,97 @@ export class SessionManager extends EventEmitter {
     return this.sessions.get(sessionId) || null;
   }
 
+  /**
+   * Shared context of a session with the current version of each key
+   * agents have written
+   */
+  getSharedContext(sessionId: string): SharedContextSnapshot | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    return { context: session.shared_context, versions: { ...session.context_versions } };
+  }
+
+  /**
+   * Change history of a session's shared context, oldest first
+   */
+  getContextHistory(sessionId: string, key?: string): SharedContextChange[] {
+    const history = this.sessions.get(sessionId)?.context_history || [];
+    return key === undefined ? [...history] : history.filter(change => change.key === key);
+  }
+
+  /**
+   * Write keys of a session's shared context; a `null` value deletes the key.
+   * Keys listed in `expectedVersions` are only written if they are still at
+   * that version (0 for a key that was never written); otherwise the whole
+   * update is rejected with a ContextConflictError.
+   */
+  updateSharedContext(
+    sessionId: string,
+    agentId: string,
+    changes: Record<string, unknown>,
+    expectedVersions: Record<string, number> = {}
+  ): Record<string, number> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (!this.isSessionActive(session)) {
+      throw new Error(`Session ${sessionId} is no longer active`);
+    }
+    if (!session.participants.some(participant => participant.agent_id === agentId && participant.status !== 'left')) {
+      throw new Error(`Agent ${agentId} is not a participant in session ${sessionId}`);
+    }
+
+    const keys = Object.keys(changes);
+    if (keys.length === 0) {
+      throw new Error('Shared context update must change at least one key');
+    }
+    const reserved = keys.find(key => RESERVED_CONTEXT_KEYS.includes(key));
+    if (reserved) {
+      throw new Error(`Shared context key ${reserved} is managed by the bus`);
+    }
+
+    const versions = session.context_versions || {};
+    const conflicts = Object.entries(expectedVersions)
+      .filter(([key, expected]) => (versions[key] ?? 0) !== expected)
+      .map(([key, expected]) => ({ key, expected, actual: versions[key] ?? 0 }));
+    if (conflicts.length > 0) {
+      throw new ContextConflictError(sessionId, conflicts);
+    }
+
+    const updatedAt = new Date().toISOString();
+    const applied: SharedContextChange[] = keys.map(key => {
+      const version = (versions[key] ?? 0) + 1;
+      versions[key] = version;
+      const value = changes[key];
+      if (value === null || value === undefined) {
+        delete session.shared_context[key];
+        return { key, version, deleted: true, updated_by: agentId, updated_at: updatedAt };
+      }
+      session.shared_context[key] = value;
+      return { key, version, value, updated_by: agentId, updated_at: updatedAt };
+    });
+
+    session.context_versions = versions;
+    session.context_history = [...(session.context_history || []), ...applied].slice(-MAX_CONTEXT_HISTORY);
+    session.shared_context.updated_at = updatedAt;
+    session.updated_at = updatedAt;
+    this.persistSession(sessionId);
+    this.emit('context_updated', { sessionId, updatedBy: agentId, changes: applied, versions: { ...versions } });
+
+    return { ...versions };
+  }
+
+  /**
+   * Get all sessions, including terminated and expired ones
+   */
+  getSessions(): SessionContext[] {
+    return Array.from(this.sessions.values());
+  }
+
   /**
    * Get all active sessions
    */
@@ -225,6 +590,41 @@ export class SessionManager extends EventEmitter {
       .filter(session => this.isSessionActive(session));
   }
 
+  /**
+   * Get session and task counts
+   */
+  getSessionStats(): {
+    totalSessions: number;
+    activeSessions: number;
+    terminatedSessions: number;
+    expiredSessions: number;
+    tasksByStatus: Record<TaskDelegation['status'], number>;
+  } {
+    const sessions = Array.from(this.sessions.values());
+    const activeSessions = sessions.filter(session => this.isSessionActive(session)).length;
+    const terminatedSessions = sessions.filter(session => session.terminated_at).length;
+
+    const tasksByStatus: Record<TaskDelegation['status'], number> = {
+      pending: 0,
+      in_progress: 0,
+      completed: 0,
+      failed: 0,
+      timeout: 0,
+      cancelled: 0
+    };
+    this.taskDelegations.forEach(delegation => {
+      tasksByStatus[delegation.status]++;
+    });
+
+    return {
+      totalSessions: sessions.length,
+      activeSessions,
+      terminatedSessions,
+      expiredSessions: sessions.length - activeSessions - terminatedSessions,
+      tasksByStatus
+    };
+  }
+
   /**
    * Get task delegation information
    */
@@ -240,6 +640,24 @@ export class SessionManager extends EventEmitter {
       .filter(task => task.delegatee === agentId && task.status === 'pending');
   }
 
+  /**
+   * List delegated tasks in any status, oldest first, optionally narrowed to
+   * a session, delegatee, delegator or status
+   */
+  getTasks(filter: {
+    sessionId?: string;
+    delegatee?: string;
+    delegator?: string;
+    status?: TaskDelegation['status'];
+  } = {}): TaskDelegation[] {
+    return Array.from(this.taskDelegations.values())
+      .filter(task => filter.sessionId === undefined || task.sessionId === filter.sessionId)
+      .filter(task => filter.delegatee === undefined || task.delegatee === filter.delegatee)
+      .filter(task => filter.delegator === undefined || task.delegator === filter.delegator)
+      .filter(task => filter.status === undefined || task.status === filter.status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
   /**
    * Get session workflow progress
    */
@@ -305,12 +723,34 @@ export class SessionManager extends EventEmitter {
 
     session.updated_at = new Date().toISOString();
     this.sessions.set(sessionId, session);
+    this.persistSession(sessionId);
     
     this.emit('workflow_advanced', { sessionId, currentStep: session.workflow.current_step });
     
     return true;
   }
 
+  /**
+   * Run the session's workflow as a DAG, delegating each step to its required
+   * agents once its dependencies complete. Throws if the steps reference an
+   * unknown dependency or contain a cycle.
+   */
+  startWorkflow(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || !this.isSessionActive(session)) {
+      return false;
+    }
+
+    return this.workflowRunner.start(sessionId);
+  }
+
+  /**
+   * Stop driving a session's workflow
+   */
+  stopWorkflow(sessionId: string): boolean {
+    return this.workflowRunner.stop(sessionId);
+  }
+
   /**
    * Terminate session
    */
@@ -331,6 +771,7 @@ export class SessionManager extends EventEmitter {
     session.updated_at = new Date().toISOString();
 
     this.sessions.set(sessionId, session);
+    this.persistSession(sessionId);
     this.emit('session_terminated', { sessionId, reason });
     
     return true;
@@ -340,10 +781,41 @@ export class SessionManager extends EventEmitter {
    * Private helper methods
    */
   private extractFramework(agentId: string): string {
-    const match = agentId.match(/^(\w+):\/\//);
+    const match = agentId.match(/^([\w-]+):\/\//);
     return match ? match[1] : 'unknown';
   }
 
+  private canDelegate(session: SessionContext, delegator: string): boolean {
+    if (session.delegation_policy !== 'orchestrator_only' || delegator === session.orchestrator) {
+      return true;
+    }
+    return session.participants.some(participant =>
+      participant.agent_id === delegator &&
+      participant.role === 'orchestrator' &&
+      PARTICIPANT_AVAILABILITY[participant.status] !== undefined);
+  }
+
+  /**
+   * Participants are busy while they have open tasks in the session and
+   * active again once the last one finishes
+   */
+  private updateParticipantLoad(sessionId: string, agentId: string): void {
+    const participant = this.sessions.get(sessionId)?.participants.find(p => p.agent_id === agentId);
+    if (!participant) {
+      return;
+    }
+
+    const hasOpenTasks = Array.from(this.taskDelegations.values()).some(task =>
+      task.sessionId === sessionId &&
+      task.delegatee === agentId &&
+      (task.status === 'pending' || task.status === 'in_progress'));
+    if (hasOpenTasks && (participant.status === 'active' || participant.status === 'waiting')) {
+      this.setParticipantStatus(sessionId, agentId, 'busy');
+    } else if (!hasOpenTasks && participant.status === 'busy') {
+      this.setParticipantStatus(sessionId, agentId, 'active');
+    }
+  }
+
   private isSessionActive(session: SessionContext): boolean {
     if (session.terminated_at) {
       return false;
@@ -353,13 +825,171 @@ export class SessionManager extends EventEmitter {
     return sessionAge < this.config.timeout!;
   }
 
+  /**
+   * Put a failed or timed-out task back to pending and re-dispatch it after an
+   * exponential backoff. A timed-out attempt is cancelled first. Returns false
+   * once the retry policy is exhausted or the session has ended, leaving the
+   * failure to be recorded as usual.
+   */
+  private scheduleRetry(delegation: TaskDelegation, status: 'failed' | 'timeout', result?: any): boolean {
+    const { maxRetries, backoffMultiplier, maxDelay } = delegation.retryPolicy;
+    if (delegation.attempts > maxRetries) {
+      return false;
+    }
+    if (delegation.sessionId !== 'ad-hoc') {
+      const session = this.sessions.get(delegation.sessionId);
+      if (!session || session.terminated_at) {
+        return false;
+      }
+    }
+
+    const delay = Math.min(
+      this.config.retryBaseDelay! * Math.pow(backoffMultiplier, delegation.attempts - 1),
+      maxDelay
+    );
+    delegation.status = 'pending';
+    delegation.lastError = result?.error || (status === 'timeout' ? 'Task timed out' : 'Task failed');
+    delegation.nextRetryAt = new Date(Date.now() + delay).toISOString();
+    this.persistTask(delegation.taskId);
+
+    // The timed-out attempt may still be running; stop it before the retry
+    // hands the same work out again
+    if (status === 'timeout') {
+      this.emit('task_attempt_cancelled', { taskId: delegation.taskId, delegation, reason: delegation.lastError });
+    }
+    this.emit('task_retry_scheduled', {
+      taskId: delegation.taskId,
+      attempt: delegation.attempts + 1,
+      delay,
+      status,
+      error: delegation.lastError
+    });
+    this.startRetryTimer(delegation.taskId, delay);
+    return true;
+  }
+
+  private startRetryTimer(taskId: string, delay: number): void {
+    this.clearTaskTimer(taskId);
+    const timer = setTimeout(() => {
+      this.taskTimers.delete(taskId);
+      this.retryTask(taskId);
+    }, delay);
+    this.taskTimers.set(taskId, timer);
+  }
+
+  private retryTask(taskId: string): void {
+    const delegation = this.taskDelegations.get(taskId);
+    if (!delegation || delegation.status !== 'pending' || !delegation.nextRetryAt) {
+      return;
+    }
+
+    const previousDelegatee = delegation.delegatee;
+    delegation.attempts++;
+    delegation.lastAttemptAt = new Date().toISOString();
+    delete delegation.nextRetryAt;
+
+    const reassignTo = delegation.retryPolicy.reassignTo;
+    const finalAttempt = delegation.attempts > delegation.retryPolicy.maxRetries;
+    if (finalAttempt && reassignTo && reassignTo !== previousDelegatee) {
+      delegation.delegatee = reassignTo;
+    }
+
+    this.persistTask(taskId);
+    if (delegation.delegatee !== previousDelegatee) {
+      this.updateParticipantLoad(delegation.sessionId, previousDelegatee);
+      this.updateParticipantLoad(delegation.sessionId, delegation.delegatee);
+    }
+    this.emit('task_retry', {
+      taskId,
+      delegation,
+      attempt: delegation.attempts,
+      previousDelegatee,
+      reassigned: delegation.delegatee !== previousDelegatee
+    });
+    this.startTaskTimeout(taskId, delegation.timeout);
+  }
+
+  private clearTaskTimer(taskId: string): void {
+    const timer = this.taskTimers.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.taskTimers.delete(taskId);
+    }
+  }
+
   private startTaskTimeout(taskId: string, timeout: number): void {
-    setTimeout(() => {
+    this.clearTaskTimer(taskId);
+    const timer = setTimeout(() => {
+      this.taskTimers.delete(taskId);
       const delegation = this.taskDelegations.get(taskId);
       if (delegation && delegation.status === 'pending') {
         this.updateTaskStatus(taskId, 'timeout');
       }
     }, timeout);
+    this.taskTimers.set(taskId, timer);
+  }
+
+  private persistSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!this.repository || !session) {
+      return;
+    }
+    if (session.terminated_at) {
+      this.unpersistSession(sessionId);
+      return;
+    }
+
+    this.repository.saveSession(session).catch(error => {
+      this.emit('persistence_failed', { sessionId, error: (error as Error).message });
+    });
+  }
+
+  private persistTask(taskId: string): void {
+    const delegation = this.taskDelegations.get(taskId);
+    if (!this.repository || !delegation) {
+      return;
+    }
+    if (this.isPrunable(delegation)) {
+      this.unpersistTask(taskId);
+      return;
+    }
+
+    this.repository.saveTask(delegation).catch(error => {
+      this.emit('persistence_failed', { taskId, error: (error as Error).message });
+    });
+  }
+
+  /**
+   * Remove a terminated session and all of its tasks from the repository
+   */
+  private unpersistSession(sessionId: string): void {
+    this.repository?.deleteSession(sessionId).catch(error => {
+      this.emit('persistence_failed', { sessionId, error: (error as Error).message });
+    });
+    this.taskDelegations.forEach(task => {
+      if (task.sessionId === sessionId) {
+        this.unpersistTask(task.taskId);
+      }
+    });
+  }
+
+  private unpersistTask(taskId: string): void {
+    this.repository?.deleteTask(taskId).catch(error => {
+      this.emit('persistence_failed', { taskId, error: (error as Error).message });
+    });
+  }
+
+  /**
+   * Tasks of a live session are kept until the session terminates, since a
+   * resumed workflow reads its steps' finished tasks. Other tasks only need
+   * storing until they finish.
+   */
+  private isPrunable(task: TaskDelegation): boolean {
+    const session = task.sessionId !== 'ad-hoc' ? this.sessions.get(task.sessionId) : undefined;
+    if (session) {
+      return session.terminated_at !== undefined;
+    }
+    return !isOpen(task);
   }
 
   private updateSessionProgress(sessionId: string, taskId: string, status: TaskDelegation['status']): void {
@@ -380,6 +1010,7 @@ export class SessionManager extends EventEmitter {
 
     session.updated_at = new Date().toISOString();
     this.sessions.set(sessionId, session);
+    this.persistSession(sessionId);
   }
 
   private cleanupExpiredSessions(): void {
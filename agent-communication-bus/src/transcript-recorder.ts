@@ -0,0 +1,199 @@
+import { AgentMessage } from './types/protocol';
+
+export type TranscriptEntryKind = 'session' | 'message' | 'task' | 'workflow';
+export type TranscriptFormat = 'json' | 'jsonl' | 'markdown';
+
+/**
+ * One recorded event in a session. `sequence` is 1-based and keeps counting
+ * when old entries are dropped, so gaps show where a transcript was trimmed.
+ */
+export interface TranscriptEntry {
+  sequence: number;
+  timestamp: string;
+  session_id: string;
+  kind: TranscriptEntryKind;
+  event: string;
+  message?: AgentMessage;
+  task_id?: string;
+  status?: string;
+  data?: Record<string, any>;
+}
+
+export type TranscriptDetails = Pick<TranscriptEntry, 'message' | 'task_id' | 'status' | 'data'>;
+
+export const DEFAULT_MAX_TRANSCRIPT_ENTRIES = 5000;
+export const DEFAULT_MAX_TRANSCRIPT_SESSIONS = 100;
+
+interface Transcript {
+  entries: TranscriptEntry[];
+  nextSequence: number;
+}
+
+/**
+ * Keeps an in-memory transcript of every message, task status change and
+ * workflow transition per session. Entries are copied when recorded so later
+ * changes to the original objects do not rewrite history.
+ */
+export class TranscriptRecorder {
+  private transcripts: Map<string, Transcript> = new Map();
+
+  constructor(
+    private maxEntriesPerSession: number = DEFAULT_MAX_TRANSCRIPT_ENTRIES,
+    private maxSessions: number = DEFAULT_MAX_TRANSCRIPT_SESSIONS
+  ) {}
+
+  record(sessionId: string, kind: TranscriptEntryKind, event: string, details: TranscriptDetails = {}): TranscriptEntry {
+    let transcript = this.transcripts.get(sessionId);
+    if (!transcript) {
+      transcript = { entries: [], nextSequence: 1 };
+      this.transcripts.set(sessionId, transcript);
+      this.evictOldestSessions();
+    }
+
+    const entry: TranscriptEntry = JSON.parse(JSON.stringify({
+      sequence: transcript.nextSequence++,
+      timestamp: new Date().toISOString(),
+      session_id: sessionId,
+      kind,
+      event,
+      ...details
+    }));
+    transcript.entries.push(entry);
+
+    // Drop the oldest entries but keep session_created, which replay starts from
+    if (transcript.entries.length > this.maxEntriesPerSession) {
+      const start = transcript.entries[0].event === 'session_created' ? 1 : 0;
+      transcript.entries.splice(start, transcript.entries.length - this.maxEntriesPerSession);
+    }
+
+    return entry;
+  }
+
+  getTranscript(sessionId: string): TranscriptEntry[] {
+    return [...(this.transcripts.get(sessionId)?.entries || [])];
+  }
+
+  hasTranscript(sessionId: string): boolean {
+    return this.transcripts.has(sessionId);
+  }
+
+  getSessionIds(): string[] {
+    return Array.from(this.transcripts.keys());
+  }
+
+  delete(sessionId: string): boolean {
+    return this.transcripts.delete(sessionId);
+  }
+
+  clear(): void {
+    this.transcripts.clear();
+  }
+
+  /**
+   * Maps iterate in insertion order, so the first transcript is the oldest
+   */
+  private evictOldestSessions(): void {
+    while (this.transcripts.size > this.maxSessions) {
+      const oldest = this.transcripts.keys().next().value;
+      if (oldest === undefined) {
+        return;
+      }
+      this.transcripts.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Serialize a transcript as JSON Lines, one entry per line
+ */
+export function toJsonLines(entries: TranscriptEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : '');
+}
+
+/**
+ * Parse a JSON Lines transcript, skipping blank lines
+ */
+export function parseJsonLines(source: string): TranscriptEntry[] {
+  return source.split('\n')
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, number }) => {
+      let entry: TranscriptEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`Invalid transcript line ${number}: ${(error as Error).message}`);
+      }
+      if (typeof entry.sequence !== 'number' || typeof entry.session_id !== 'string' || typeof entry.event !== 'string') {
+        throw new Error(`Invalid transcript line ${number}: expected sequence, session_id and event`);
+      }
+      return entry;
+    });
+}
+
+/**
+ * Render a transcript as a Markdown timeline for reading in issues and PRs
+ */
+export function toMarkdown(sessionId: string, entries: TranscriptEntry[]): string {
+  const lines = [`# Session ${sessionId}`, ''];
+  if (entries.length === 0) {
+    lines.push('_No recorded events._', '');
+    return lines.join('\n');
+  }
+
+  lines.push(
+    `${entries.length} events from ${entries[0].timestamp} to ${entries[entries.length - 1].timestamp}.`,
+    '',
+    '| # | Time | Event | Details |',
+    '| --- | --- | --- | --- |'
+  );
+  entries.forEach(entry => {
+    lines.push(`| ${entry.sequence} | ${entry.timestamp} | ${entry.event} | ${escapeCell(describeEntry(entry))} |`);
+  });
+
+  const payloads = entries.filter(entry => entry.message && entry.message.message_type !== 'heartbeat');
+  if (payloads.length > 0) {
+    lines.push('', '## Messages');
+    payloads.forEach(entry => {
+      const message = entry.message!;
+      lines.push(
+        '',
+        `### ${entry.sequence}. ${message.message_type} from ${message.sender.agent_id} to ${message.recipient.agent_id}`,
+        '',
+        '```json',
+        JSON.stringify(message.payload ?? null, null, 2),
+        '```'
+      );
+    });
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function describeEntry(entry: TranscriptEntry): string {
+  if (entry.message) {
+    const { message } = entry;
+    const arrow = `${message.sender.agent_id} → ${message.recipient.agent_id}`;
+    return `${message.message_type} ${arrow}${entry.data?.error ? ` (${entry.data.error})` : ''}`;
+  }
+
+  const parts: string[] = [];
+  if (entry.task_id) {
+    parts.push(`task ${entry.task_id}`);
+  }
+  if (entry.status) {
+    parts.push(entry.status);
+  }
+  if (entry.data?.step) {
+    parts.push(`step ${entry.data.step}`);
+  }
+  const reason = entry.data?.error ?? entry.data?.reason;
+  if (reason) {
+    parts.push(typeof reason === 'string' ? reason : JSON.stringify(reason));
+  }
+  return parts.join(', ');
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
@@ -0,0 +1,459 @@
+import WebSocket from 'ws';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AgentDescriptor,
+  AgentMessage,
+  AgentParticipant,
+  DelegationPolicy,
+  DeliveryFrame,
+  WorkflowStep
+} from './types/protocol';
+import type { CommunicationBus } from './communication-bus';
+import type { TaskDelegation } from './session-manager';
+import { isDeliveryFrame } from './delivery-tracker';
+import { TranscriptEntry } from './transcript-recorder';
+
+export interface ReplayOptions {
+  // How long to wait for the bus to send the message a recorded reply answers
+  stepTimeout?: number;
+}
+
+export interface ReplayResult {
+  sessionId: string;
+  // Transcript the bus recorded for the replayed session
+  transcript: TranscriptEntry[];
+  // Recorded agent replies the replayed run never asked for
+  unmatched: TranscriptEntry[];
+  // Messages the bus sent that have no recorded counterpart
+  unexpected: AgentMessage[];
+}
+
+const DEFAULT_STEP_TIMEOUT = 5000;
+const POLL_INTERVAL = 5;
+
+/**
+ * Stand-in for an agent that connects to a running bus through the normal
+ * WebSocket handshake, authenticating with the API key the agent registered
+ * with. Acknowledges every message the bus sends and answers it with the
+ * replies returned by `respond`.
+ */
+export class StubAgentConnection {
+  received: AgentMessage[] = [];
+
+  private constructor(
+    readonly agentId: string,
+    private ws: WebSocket,
+    private respond: (message: AgentMessage) => AgentMessage[]
+  ) {
+    ws.on('message', data => this.handle(data.toString()));
+  }
+
+  /**
+   * Connect as a registered agent; rejects if the bus refuses the connection
+   */
+  static connect(
+    busUrl: string,
+    agentId: string,
+    apiKey: string,
+    respond: (message: AgentMessage) => AgentMessage[] = () => []
+  ): Promise<StubAgentConnection> {
+    const url = new URL(busUrl.replace(/^http/, 'ws'));
+    url.searchParams.set('agent_id', agentId);
+    const ws = new WebSocket(url, { headers: { 'x-agent-api-key': apiKey } });
+    // Listen before the handshake completes: the bus flushes queued messages right away
+    const connection = new StubAgentConnection(agentId, ws, respond);
+
+    return new Promise((resolve, reject) => {
+      ws.once('open', () => resolve(connection));
+      ws.once('unexpected-response', (_request, response) =>
+        reject(new Error(`Bus refused connection for ${agentId}: HTTP ${response.statusCode}`)));
+      ws.once('error', reject);
+    });
+  }
+
+  isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Send a message or delivery frame to the bus as this agent
+   */
+  deliver(data: AgentMessage | DeliveryFrame): void {
+    this.ws.send(JSON.stringify(data));
+  }
+
+  close(): Promise<void> {
+    if (this.ws.readyState === WebSocket.CLOSED) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.ws.once('close', () => resolve());
+      this.ws.close();
+    });
+  }
+
+  private handle(data: string): void {
+    const parsed = JSON.parse(data);
+    if (isDeliveryFrame(parsed)) {
+      return;
+    }
+
+    const message = parsed as AgentMessage;
+    this.received.push(message);
+    this.deliver({ frame_type: 'ack', message_id: message.message_id, agent_id: this.agentId });
+    this.respond(message).forEach(reply => this.deliver(reply));
+  }
+}
+
+/**
+ * Re-feeds a recorded session transcript through a CommunicationBus with a
+ * stub connection standing in for every agent. Messages agents sent on their
+ * own are replayed in recorded order; replies are sent when the bus sends the
+ * message they answered. Session, task and message IDs are rewritten to the
+ * ones of the replayed run.
+ *
+ * The bus must be started and should have no live agents: replay registers
+ * the session's agents itself, connects them like any other agent and
+ * unregisters them afterwards.
+ */
+export class TranscriptReplayer {
+  private stepTimeout: number;
+
+  constructor(private bus: CommunicationBus, options: ReplayOptions = {}) {
+    this.stepTimeout = options.stepTimeout ?? DEFAULT_STEP_TIMEOUT;
+  }
+
+  async replay(entries: TranscriptEntry[]): Promise<ReplayResult> {
+    const ordered = [...entries].sort((a, b) => a.sequence - b.sequence);
+    const created = ordered.find(entry => entry.event === 'session_created');
+    if (!created) {
+      throw new Error('Transcript has no session_created entry and cannot be replayed');
+    }
+
+    const busUrl = this.bus.getUrl();
+    if (!busUrl) {
+      throw new Error('Replay needs a started bus');
+    }
+
+    const run = new ReplayRun(ordered);
+    const agents = run.getAgents(created);
+    agents.forEach(agentId => {
+      if (this.bus.getAgent(agentId)) {
+        throw new Error(`Agent ${agentId} is already registered; replay needs a bus without live agents`);
+      }
+    });
+
+    const stubs = new Map<string, StubAgentConnection>();
+    for (const agentId of agents) {
+      const apiKey = `replay-${uuidv4()}`;
+      await this.bus.registerAgent({
+        agent_descriptor: createStubDescriptor(agentId),
+        health_check_url: '',
+        authentication: { type: 'api_key', credentials: apiKey }
+      });
+      stubs.set(agentId, await StubAgentConnection.connect(busUrl, agentId, apiKey, message => run.respond(agentId, message)));
+    }
+
+    const onTaskDelegated = ({ delegation }: { delegation: TaskDelegation }) => run.mapTask(delegation);
+    this.bus.on('task_delegated', onTaskDelegated);
+
+    try {
+      const { orchestrator, participants, steps, delegation_policy: delegationPolicy } = created.data as {
+        orchestrator: string;
+        participants: AgentParticipant[];
+        steps: WorkflowStep[];
+        delegation_policy?: DelegationPolicy;
+      };
+      run.sessionId = this.bus.createSession(orchestrator, [...participants, ...run.getAddedParticipants()], steps, {
+        ...(delegationPolicy && { delegationPolicy })
+      });
+
+      for (const stimulus of run.getStimuli()) {
+        await this.waitFor(() => run.repliedBefore(stimulus.sequence) && this.busReceivedAll(run));
+
+        if (stimulus.event === 'workflow_started') {
+          this.bus.startWorkflow(run.sessionId);
+        } else if (stimulus.event === 'task_cancelled') {
+          this.bus.cancelTask(run.mapTaskId(stimulus.task_id!), stimulus.data?.reason);
+        } else {
+          const message = stimulus.message!;
+          stubs.get(message.sender.agent_id)!.deliver(run.rewrite(message));
+        }
+      }
+
+      await this.waitFor(() => run.repliedBefore(Infinity) && this.busReceivedAll(run));
+
+      return {
+        sessionId: run.sessionId,
+        transcript: this.bus.getTranscript(run.sessionId),
+        unmatched: run.getUnmatchedReplies(),
+        unexpected: run.unexpected
+      };
+    } finally {
+      this.bus.off('task_delegated', onTaskDelegated);
+      for (const [agentId, stub] of stubs) {
+        await stub.close();
+        await this.bus.unregisterAgent(agentId);
+      }
+    }
+  }
+
+  /**
+   * Agent messages travel over real sockets; the bus has handled them once
+   * they are in its transcript
+   */
+  private busReceivedAll(run: ReplayRun): boolean {
+    const received = new Set(this.bus.getTranscript(run.sessionId)
+      .filter(entry => entry.event === 'message_received')
+      .map(entry => entry.message!.message_id));
+    return run.getDeliveredIds().every(messageId => received.has(messageId));
+  }
+
+  private async waitFor(condition: () => boolean): Promise<boolean> {
+    const deadline = Date.now() + this.stepTimeout;
+    while (!condition()) {
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+    return true;
+  }
+}
+
+/**
+ * ID mappings and reply bookkeeping for one replay
+ */
+class ReplayRun {
+  sessionId = '';
+  unexpected: AgentMessage[] = [];
+
+  private originalSessionId: string;
+  // Recorded messages the bus sent, per recipient, not yet matched to the replay
+  private outbound: Map<string, TranscriptEntry[]> = new Map();
+  // Recorded agent replies keyed by the sequence of the message they answered
+  private replies: Map<number, TranscriptEntry[]> = new Map();
+  private replied: Set<number> = new Set();
+  private stimuli: TranscriptEntry[] = [];
+  // Recorded task IDs per delegatee and task type, in delegation order
+  private delegations: Map<string, string[]> = new Map();
+  private taskIds: Map<string, string> = new Map();
+  private messageIds: Map<string, string> = new Map();
+  // IDs of the agent messages handed to the bus
+  private delivered: string[] = [];
+
+  constructor(private entries: TranscriptEntry[]) {
+    this.originalSessionId = entries[0]?.session_id ?? '';
+    const sent: TranscriptEntry[] = [];
+    let lastReceived: TranscriptEntry | undefined;
+
+    entries.forEach(entry => {
+      switch (entry.event) {
+        case 'message_sent': {
+          const recipient = entry.message!.recipient.agent_id;
+          this.outbound.set(recipient, [...(this.outbound.get(recipient) || []), entry]);
+          sent.push(entry);
+          break;
+        }
+        case 'message_received': {
+          const answered = findAnsweredMessage(sent, entry);
+          if (answered) {
+            this.replies.set(answered.sequence, [...(this.replies.get(answered.sequence) || []), entry]);
+          } else {
+            this.stimuli.push(entry);
+          }
+          lastReceived = entry;
+          break;
+        }
+        case 'task_delegated': {
+          const key = delegationKey(entry.data?.delegatee, entry.data?.task_type);
+          this.delegations.set(key, [...(this.delegations.get(key) || []), entry.task_id!]);
+          break;
+        }
+        case 'task_cancelled': {
+          // Cancellations requested over a cancel message replay with that message
+          const message = lastReceived?.message;
+          if (message?.message_type !== 'cancel' || getTaskId(message) !== entry.task_id) {
+            this.stimuli.push(entry);
+          }
+          break;
+        }
+        case 'workflow_started':
+          this.stimuli.push(entry);
+          break;
+      }
+    });
+  }
+
+  getAgents(created: TranscriptEntry): string[] {
+    const agents = new Set<string>([
+      created.data?.orchestrator,
+      ...(created.data?.participants || []).map((participant: AgentParticipant) => participant.agent_id),
+      ...this.getAddedParticipants().map(participant => participant.agent_id)
+    ]);
+    this.entries.forEach(entry => {
+      if (entry.event === 'message_received') {
+        agents.add(entry.message!.sender.agent_id);
+      } else if (entry.event === 'message_sent') {
+        agents.add(entry.message!.recipient.agent_id);
+      }
+    });
+    agents.delete('communication-bus');
+    return Array.from(agents).filter(agentId => typeof agentId === 'string');
+  }
+
+  /**
+   * Participants that joined later are part of the replayed session from the start
+   */
+  getAddedParticipants(): AgentParticipant[] {
+    return this.entries
+      .filter(entry => entry.event === 'participant_added')
+      .map(entry => entry.data!.participant as AgentParticipant);
+  }
+
+  getDeliveredIds(): string[] {
+    return this.delivered;
+  }
+
+  getStimuli(): TranscriptEntry[] {
+    return this.stimuli;
+  }
+
+  repliedBefore(sequence: number): boolean {
+    return Array.from(this.replies.values())
+      .every(replies => replies.every(reply => reply.sequence > sequence || this.replied.has(reply.sequence)));
+  }
+
+  getUnmatchedReplies(): TranscriptEntry[] {
+    return Array.from(this.replies.values())
+      .flat()
+      .filter(reply => !this.replied.has(reply.sequence))
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+
+  mapTask(delegation: TaskDelegation): void {
+    if (delegation.sessionId !== this.sessionId) {
+      return;
+    }
+    const recorded = this.delegations.get(delegationKey(delegation.delegatee, delegation.taskType))?.shift();
+    if (recorded) {
+      this.taskIds.set(recorded, delegation.taskId);
+    }
+  }
+
+  mapTaskId(taskId: string): string {
+    return this.taskIds.get(taskId) ?? taskId;
+  }
+
+  /**
+   * Match a message the bus sent during replay to its recorded counterpart
+   * and return the recorded replies to it
+   */
+  respond(agentId: string, message: AgentMessage): AgentMessage[] {
+    const candidates = this.outbound.get(agentId) || [];
+    const taskId = getTaskId(message);
+    const index = candidates.findIndex(entry => {
+      const recorded = entry.message!;
+      const recordedTaskId = getTaskId(recorded);
+      return recorded.message_type === message.message_type &&
+        (recordedTaskId === undefined || this.mapTaskId(recordedTaskId) === taskId);
+    });
+    if (index === -1) {
+      this.unexpected.push(message);
+      return [];
+    }
+
+    const [counterpart] = candidates.splice(index, 1);
+    this.messageIds.set(counterpart.message!.message_id, message.message_id);
+    return (this.replies.get(counterpart.sequence) || []).map(reply => {
+      this.replied.add(reply.sequence);
+      return this.rewrite(reply.message!);
+    });
+  }
+
+  /**
+   * Copy a recorded agent message with the IDs of the replayed run
+   */
+  rewrite(recorded: AgentMessage): AgentMessage {
+    const message: AgentMessage = JSON.parse(JSON.stringify(recorded));
+    message.message_id = uuidv4();
+    message.timestamp = new Date().toISOString();
+    this.messageIds.set(recorded.message_id, message.message_id);
+    this.delivered.push(message.message_id);
+
+    [message.sender, message.recipient].forEach(party => {
+      if (party.session_id !== undefined) {
+        party.session_id = this.mapSessionId(party.session_id);
+      }
+    });
+    if (message.metadata) {
+      if (message.metadata.correlation_id !== undefined) {
+        message.metadata.correlation_id = this.messageIds.get(message.metadata.correlation_id) ?? message.metadata.correlation_id;
+      }
+      if (message.metadata.task_id !== undefined) {
+        message.metadata.task_id = this.mapTaskId(message.metadata.task_id);
+      }
+      if (message.metadata.session_id !== undefined) {
+        message.metadata.session_id = this.mapSessionId(message.metadata.session_id);
+      }
+    }
+    if (message.payload && typeof message.payload === 'object' && message.payload.task_id !== undefined) {
+      message.payload.task_id = this.mapTaskId(message.payload.task_id);
+    }
+
+    return message;
+  }
+
+  private mapSessionId(sessionId: string): string {
+    return sessionId === this.originalSessionId ? this.sessionId : sessionId;
+  }
+}
+
+/**
+ * The latest message the bus sent to the reply's sender that the reply
+ * correlates with, by message ID or task ID
+ */
+function findAnsweredMessage(sent: TranscriptEntry[], reply: TranscriptEntry): TranscriptEntry | undefined {
+  const message = reply.message!;
+  const correlationId = message.metadata?.correlation_id;
+  const taskId = getTaskId(message);
+
+  for (let i = sent.length - 1; i >= 0; i--) {
+    const candidate = sent[i].message!;
+    if (candidate.recipient.agent_id !== message.sender.agent_id) {
+      continue;
+    }
+    if ((correlationId && candidate.message_id === correlationId) ||
+        (taskId && getTaskId(candidate) === taskId && candidate.message_type !== 'cancel')) {
+      return sent[i];
+    }
+  }
+  return undefined;
+}
+
+function getTaskId(message: AgentMessage): string | undefined {
+  return message.metadata?.task_id ?? message.payload?.task_id;
+}
+
+function delegationKey(delegatee: string, taskType: string): string {
+  return `${delegatee}|${taskType}`;
+}
+
+function createStubDescriptor(agentId: string): AgentDescriptor {
+  const match = agentId.match(/^([\w-]+):\/\//);
+  return {
+    agent_id: agentId,
+    framework: match ? match[1] : 'unknown',
+    capabilities: {
+      input_types: [],
+      output_types: [],
+      languages: [],
+      tools: [],
+      model_preferences: [],
+      optimal_tasks: [],
+      performance_profile: { avg_response_time: '0s', success_rate: 1, concurrent_capacity: 1 }
+    },
+    endpoints: {},
+    metadata: { version: '0.0.0', author: 'transcript-replay', tags: ['replay'] }
+  };
+}
@@ -3,13 +3,20 @@ export interface AgentMessage {
   timestamp: string;
   sender: AgentIdentifier;
   recipient: AgentIdentifier;
-  message_type: 'task_request' | 'task_response' | 'status_update' | 'error' | 'heartbeat';
+  message_type: 'task_request' | 'task_response' | 'status_update' | 'error' | 'heartbeat' | 'cancel';
   priority: 'low' | 'medium' | 'high' | 'critical';
   payload: any;
   routing: MessageRouting;
   metadata?: Record<string, any>;
 }
 
+export interface DeliveryFrame {
+  frame_type: 'ack' | 'nack';
+  message_id: string;
+  agent_id?: string;
+  reason?: string;
+}
+
 export interface AgentIdentifier {
   agent_id: string;
   framework: string;
@@ -36,8 +43,26 @@ export interface SessionContext {
   updated_at: string;
   terminated_at?: string;
   termination_reason?: string;
+  // Who may delegate tasks within the session; defaults to 'open'
+  delegation_policy?: DelegationPolicy;
+  context_versions?: Record<string, number>;
+  context_history?: SharedContextChange[];
 }
 
+/**
+ * One write to a shared context key. `deleted` changes carry no value.
+ */
+export interface SharedContextChange {
+  key: string;
+  version: number;
+  value?: unknown;
+  deleted?: boolean;
+  updated_by: string;
+  updated_at: string;
+}
+
+export type DelegationPolicy = 'open' | 'orchestrator_only';
+
 export interface AgentParticipant {
   agent_id: string;
   framework: string;
@@ -54,6 +79,13 @@ export interface WorkflowState {
   completed_steps: string[];
   pending_steps: string[];
   steps?: WorkflowStep[];
+  status?: 'pending' | 'running' | 'completed' | 'failed';
+  running_steps?: string[];
+  failed_steps?: string[];
+  skipped_steps?: string[];
+  iterations?: Record<string, number>;
+  step_tasks?: Record<string, string[]>;
+  error?: string;
 }
 
 export interface WorkflowStep {
@@ -63,7 +95,45 @@ export interface WorkflowStep {
   optional_agents?: string[];
   estimated_duration: number;
   dependencies?: string[];
+  inputs?: string[];
   outputs: string[];
+  timeout?: number;
+  condition?: WorkflowCondition;
+  loop?: WorkflowLoop;
+  on_failure?: string;
+}
+
+export type WorkflowConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'contains'
+  | 'exists'
+  | 'truthy';
+
+/**
+ * Guard evaluated against `{ outputs, context }`, where `outputs` holds the
+ * workflow outputs produced so far and `context` is the session's shared context
+ */
+export type WorkflowCondition =
+  | { path: string; operator?: WorkflowConditionOperator; value?: unknown }
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] }
+  | { not: WorkflowCondition };
+
+/**
+ * Send the workflow back to `target` (this step or one of its ancestors) while
+ * `when` holds after the step completes, at most `max_iterations` times
+ */
+export interface WorkflowLoop {
+  target: string;
+  when: WorkflowCondition;
+  max_iterations: number;
+  on_exhausted?: 'continue' | 'fail';
 }
 
 export interface AgentCapability {
@@ -111,10 +181,15 @@ export interface ModelDescriptor {
   };
 }
 
+// `collecting` while results from expected agents are still outstanding;
+// manual aggregations are `pending_review` until every conflict is resolved
+export type AggregationStatus = 'collecting' | 'completed' | 'pending_review' | 'resolved';
+
 export interface ResultAggregation {
   aggregation_id: string;
   session_id: string;
   task_type: string;
+  status: AggregationStatus;
   agent_results: AgentResult[];
   synthesis: ResultSynthesis;
   metadata: AggregationMetadata;
@@ -129,15 +204,58 @@ export interface AgentResult {
   metrics?: Record<string, number>;
 }
 
+export type SynthesisMethod =
+  | 'consensus'
+  | 'specialist_priority'
+  | 'confidence_weighted'
+  | 'manual'
+  | 'majority_vote'
+  | 'quorum'
+  | 'referee';
+
 export interface ResultSynthesis {
   unified_result: any;
   confidence_score: number;
   conflicts: Conflict[];
   recommendations: string[];
-  synthesis_method: 'consensus' | 'specialist_priority' | 'confidence_weighted' | 'manual';
+  synthesis_method: SynthesisMethod;
+  // Set by majority_vote and quorum
+  votes?: VoteTally;
+  // Set by referee
+  verdict?: RefereeVerdict;
+}
+
+/**
+ * How the referee agent decided. `fallback` is set when it gave no usable
+ * verdict in time and the result of the highest-weighted agent was used
+ * instead.
+ */
+export interface RefereeVerdict {
+  referee: string;
+  winner?: string;
+  merged?: boolean;
+  rationale?: string;
+  fallback?: {
+    method: 'highest_weighted';
+    agent_id: string;
+    reason: string;
+  };
+}
+
+/**
+ * Agents whose results match are grouped and each group gets one vote per
+ * agent. `winners` is empty when no group reached `required_votes`.
+ */
+export interface VoteTally {
+  groups: Array<{ agents: string[]; votes: number }>;
+  required_votes: number;
+  winners: string[];
+  tie_broken_by?: 'specialization' | 'confidence' | 'order';
 }
 
 export interface Conflict {
+  // Stable across re-synthesis: derived from the type and the agents involved
+  conflict_id: string;
   type: 'result_disagreement' | 'approach_difference' | 'priority_conflict';
   agents: string[];
   description: string;
@@ -167,8 +285,42 @@ export interface CommunicationBusConfig {
   heartbeatInterval: number;
   messageTimeout: number;
   persistenceEnabled: boolean;
+  persistenceDirectory?: string;
+  sessionStore?: 'file' | 'sqlite';
+  sessionStorePath?: string;
+  maxQueuedMessages?: number;
+  ackTimeout?: number;
+  // Retries for failed or timed-out tasks, workflow steps included; off (0) by default
+  taskMaxRetries?: number;
+  // Milliseconds after its creation that a session expires, restored sessions included; 1 hour by default
+  sessionTimeout?: number;
   encryptionEnabled: boolean;
   apiKey?: string;
+  jwtSecret?: string;
+  authorization?: AuthorizationPolicy;
+  // Judge agent for the referee synthesis method, unless a request names its own
+  refereeAgent?: string;
+}
+
+/**
+ * Ordered allow/deny rules deciding which messages agents may send. The first
+ * rule whose conditions all match decides; omitted conditions match anything.
+ */
+export interface AuthorizationPolicy {
+  defaultEffect: 'allow' | 'deny';
+  rules: AuthorizationRule[];
+}
+
+export interface AuthorizationRule {
+  id: string;
+  effect: 'allow' | 'deny';
+  description?: string;
+  senders?: string[];
+  recipients?: string[];
+  messageTypes?: Array<AgentMessage['message_type']>;
+  taskTypes?: string[];
+  sessionRoles?: string[];
+  payload?: Record<string, unknown>;
 }
 
 export interface AgentRegistration {
@@ -203,4 +355,14 @@ export interface BusMetrics {
   error_rate: number;
   uptime: number;
   throughput: number;
+  by_agent?: Record<string, MetricsBreakdown>;
+  by_task_type?: Record<string, MetricsBreakdown>;
+}
+
+export interface MetricsBreakdown {
+  messages: number;
+  failures: number;
+  error_rate: number;
+  throughput: number;
+  average_response_time: number;
 }
\ No newline at end of file
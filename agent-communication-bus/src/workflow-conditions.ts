@@ -0,0 +1,114 @@
+import { WorkflowCondition, WorkflowConditionOperator } from './types/protocol';
+
+export const CONDITION_OPERATORS: WorkflowConditionOperator[] = [
+  'equals',
+  'not_equals',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'contains',
+  'exists',
+  'truthy'
+];
+
+/**
+ * Values a condition can refer to: `outputs.<name>` and `context.<key>`
+ */
+export interface ConditionScope {
+  outputs: Record<string, unknown>;
+  context: Record<string, unknown>;
+}
+
+/**
+ * Evaluate a workflow guard. Comparisons default to `equals` when a value is
+ * given and `truthy` otherwise; ordering operators only match numbers.
+ */
+export function evaluateCondition(condition: WorkflowCondition, scope: ConditionScope): boolean {
+  if ('all' in condition) {
+    return condition.all.every(entry => evaluateCondition(entry, scope));
+  }
+  if ('any' in condition) {
+    return condition.any.some(entry => evaluateCondition(entry, scope));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, scope);
+  }
+
+  const actual = condition.path.split('.').reduce<any>((value, key) => value?.[key], scope);
+  const expected = condition.value;
+  const operator = condition.operator ?? ('value' in condition ? 'equals' : 'truthy');
+
+  switch (operator) {
+    case 'equals':
+      return isEqual(actual, expected);
+    case 'not_equals':
+      return !isEqual(actual, expected);
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    case 'in':
+      return Array.isArray(expected) && expected.some(entry => isEqual(actual, entry));
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some(entry => isEqual(entry, expected));
+      }
+      return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'truthy':
+      return Array.isArray(actual) ? actual.length > 0 : Boolean(actual);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check the shape of a condition, throwing with the offending field
+ */
+export function validateCondition(condition: unknown, field: string): WorkflowCondition {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+    throw new Error(`Workflow condition ${field} must be an object`);
+  }
+  const record = condition as Record<string, unknown>;
+
+  for (const key of ['all', 'any'] as const) {
+    if (key in record) {
+      const entries = record[key];
+      if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error(`Workflow condition ${field}.${key} must be a non-empty array`);
+      }
+      entries.forEach((entry, index) => validateCondition(entry, `${field}.${key}[${index}]`));
+      return condition as WorkflowCondition;
+    }
+  }
+
+  if ('not' in record) {
+    validateCondition(record.not, `${field}.not`);
+    return condition as WorkflowCondition;
+  }
+
+  if (typeof record.path !== 'string' || !/^(outputs|context)\.[^.]/.test(record.path)) {
+    throw new Error(`Workflow condition ${field}.path must start with 'outputs.' or 'context.'`);
+  }
+  if (record.operator !== undefined && !CONDITION_OPERATORS.includes(record.operator as WorkflowConditionOperator)) {
+    throw new Error(`Workflow condition ${field}.operator '${record.operator}' is not supported`);
+  }
+  return condition as WorkflowCondition;
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (left && right && typeof left === 'object' && typeof right === 'object') {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  return false;
+}
@@ -0,0 +1,642 @@
+import { EventEmitter } from 'events';
+import { SessionContext, WorkflowStep } from './types/protocol';
+import type { SessionManager, TaskDelegation } from './session-manager';
+import { ConditionScope, evaluateCondition, validateCondition } from './workflow-conditions';
+
+interface WorkflowRun {
+  taskSteps: Map<string, string>;
+  ancestors: Map<string, Set<string>>;
+  handlers: Set<string>;
+  // Handler step -> the failure it was dispatched for
+  failures: Map<string, { step: string; error: string }>;
+  // Loop target -> outputs of the step that sent the workflow back
+  feedback: Map<string, { step: string; iteration: number; outputs: Record<string, unknown> }>;
+}
+
+// Steps without a timeout get this multiple of their estimated_duration, so
+// a step that runs somewhat over its estimate is not stopped
+export const ESTIMATE_TIMEOUT_FACTOR = 3;
+
+export const WORKFLOW_EVENTS = [
+  'workflow_started',
+  'workflow_resumed',
+  'workflow_step_started',
+  'workflow_step_completed',
+  'workflow_step_failed',
+  'workflow_step_skipped',
+  'workflow_branch_taken',
+  'workflow_loop',
+  'workflow_loop_exhausted',
+  'workflow_completed',
+  'workflow_failed'
+] as const;
+
+/**
+ * Runs a session's workflow as a DAG: each step is delegated to its
+ * `required_agents` once all of its dependencies have completed, independent
+ * steps run in parallel, and declared outputs are collected into the session's
+ * `shared_context` and handed to downstream steps as `inputs`.
+ *
+ * Steps may carry a `condition` (skipped when false), a `loop` that sends the
+ * workflow back to an earlier step while its guard holds, and an `on_failure`
+ * handler step that runs in place of failing the workflow. A step whose
+ * failure was handled counts as done once its handler completes.
+ */
+export class WorkflowRunner extends EventEmitter {
+  private runs: Map<string, WorkflowRun> = new Map();
+
+  constructor(private sessionManager: SessionManager) {
+    super();
+    this.sessionManager.on('task_updated', ({ taskId, status }) => {
+      this.handleTaskUpdate(taskId, status);
+    });
+    this.sessionManager.on('session_terminated', ({ sessionId }) => {
+      this.stop(sessionId);
+    });
+  }
+
+  /**
+   * Order steps so every step comes after its dependencies. Throws if a
+   * dependency is unknown or the steps contain a cycle.
+   */
+  static topologicalOrder(steps: WorkflowStep[]): string[] {
+    const names = new Set<string>();
+    steps.forEach(step => {
+      if (names.has(step.name)) {
+        throw new Error(`Duplicate workflow step: ${step.name}`);
+      }
+      names.add(step.name);
+    });
+
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+    steps.forEach(step => {
+      inDegree.set(step.name, 0);
+      dependents.set(step.name, []);
+    });
+
+    steps.forEach(step => {
+      (step.dependencies || []).forEach(dependency => {
+        if (!names.has(dependency)) {
+          throw new Error(`Workflow step ${step.name} depends on unknown step ${dependency}`);
+        }
+        dependents.get(dependency)!.push(step.name);
+        inDegree.set(step.name, inDegree.get(step.name)! + 1);
+      });
+    });
+
+    // Kahn's algorithm, keeping declaration order among ready steps
+    const order: string[] = [];
+    const ready = steps.filter(step => inDegree.get(step.name) === 0).map(step => step.name);
+    while (ready.length > 0) {
+      const name = ready.shift()!;
+      order.push(name);
+      dependents.get(name)!.forEach(dependent => {
+        const remaining = inDegree.get(dependent)! - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) {
+          ready.push(dependent);
+        }
+      });
+    }
+
+    if (order.length !== steps.length) {
+      const blocked = steps.filter(step => !order.includes(step.name)).map(step => step.name);
+      throw new Error(`Workflow contains a dependency cycle involving: ${blocked.join(', ')}`);
+    }
+
+    return order;
+  }
+
+  /**
+   * Every step each step transitively depends on
+   */
+  static ancestorsOf(steps: WorkflowStep[]): Map<string, Set<string>> {
+    const stepsByName = new Map(steps.map(step => [step.name, step]));
+    const ancestors = new Map<string, Set<string>>();
+
+    WorkflowRunner.topologicalOrder(steps).forEach(name => {
+      const stepAncestors = new Set<string>();
+      (stepsByName.get(name)!.dependencies || []).forEach(dependency => {
+        stepAncestors.add(dependency);
+        ancestors.get(dependency)!.forEach(ancestor => stepAncestors.add(ancestor));
+      });
+      ancestors.set(name, stepAncestors);
+    });
+
+    return ancestors;
+  }
+
+  /**
+   * Check dependencies, conditions, loops and failure branches, returning the
+   * steps in dependency order
+   */
+  static validate(steps: WorkflowStep[]): string[] {
+    const order = WorkflowRunner.topologicalOrder(steps);
+    const ancestors = WorkflowRunner.ancestorsOf(steps);
+
+    steps.forEach(step => {
+      if (step.condition) {
+        validateCondition(step.condition, `${step.name}.condition`);
+      }
+
+      if (step.on_failure !== undefined) {
+        if (!ancestors.has(step.on_failure)) {
+          throw new Error(`Workflow step ${step.name} has unknown on_failure step ${step.on_failure}`);
+        }
+        if (step.on_failure === step.name || ancestors.get(step.name)!.has(step.on_failure)) {
+          throw new Error(`Workflow step ${step.name} cannot use itself or a dependency as its on_failure step`);
+        }
+      }
+
+      if (step.loop) {
+        const { target, max_iterations: maxIterations, on_exhausted: onExhausted } = step.loop;
+        if (target !== step.name && !ancestors.get(step.name)!.has(target)) {
+          throw new Error(`Workflow step ${step.name} can only loop back to itself or one of its dependencies, not ${target}`);
+        }
+        if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+          throw new Error(`Workflow step ${step.name} loop.max_iterations must be a positive integer`);
+        }
+        if (onExhausted !== undefined && onExhausted !== 'continue' && onExhausted !== 'fail') {
+          throw new Error(`Workflow step ${step.name} loop.on_exhausted must be 'continue' or 'fail'`);
+        }
+        validateCondition(step.loop.when, `${step.name}.loop.when`);
+      }
+    });
+
+    return order;
+  }
+
+  /**
+   * Start running a session's workflow
+   */
+  start(sessionId: string): boolean {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session || !session.workflow.steps || session.workflow.steps.length === 0) {
+      return false;
+    }
+
+    if (this.runs.has(sessionId)) {
+      throw new Error(`Workflow for session ${sessionId} is already running`);
+    }
+
+    const order = WorkflowRunner.validate(session.workflow.steps);
+    const stepsByName = new Map(session.workflow.steps.map(step => [step.name, step]));
+    session.workflow.steps = order.map(name => stepsByName.get(name)!);
+
+    session.workflow.status = 'running';
+    session.workflow.completed_steps = [];
+    session.workflow.pending_steps = [...order];
+    session.workflow.running_steps = [];
+    session.workflow.failed_steps = [];
+    session.workflow.skipped_steps = [];
+    session.workflow.iterations = {};
+    session.workflow.step_tasks = {};
+    delete session.workflow.error;
+    session.shared_context.workflow_outputs = {};
+    session.shared_context.step_results = {};
+
+    this.runs.set(sessionId, this.createRun(session.workflow.steps));
+    this.emit('workflow_started', { sessionId, order });
+
+    this.dispatchReadySteps(session);
+    return true;
+  }
+
+  /**
+   * Pick up a running workflow restored from persistence. Tasks of running
+   * steps are reattached, and steps whose tasks finished while the bus was
+   * down are completed or failed before dispatching whatever is ready next.
+   */
+  resume(sessionId: string): boolean {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session || session.workflow.status !== 'running' || this.runs.has(sessionId)) {
+      return false;
+    }
+
+    const run = this.createRun(session.workflow.steps || []);
+    Object.entries(session.workflow.step_tasks || {}).forEach(([stepName, taskIds]) => {
+      taskIds.forEach(taskId => run.taskSteps.set(taskId, stepName));
+    });
+    this.runs.set(sessionId, run);
+    this.emit('workflow_resumed', { sessionId, running: [...(session.workflow.running_steps || [])] });
+
+    [...(session.workflow.running_steps || [])].forEach(stepName => {
+      const step = session.workflow.steps?.find(candidate => candidate.name === stepName);
+      if (step && this.runs.has(sessionId)) {
+        this.evaluateStep(session, step);
+      }
+    });
+
+    this.dispatchReadySteps(session);
+    return true;
+  }
+
+  /**
+   * Stop tracking a session's workflow; tasks already delegated are left alone
+   */
+  stop(sessionId: string): boolean {
+    return this.runs.delete(sessionId);
+  }
+
+  /**
+   * Whether a session's workflow is currently running
+   */
+  isRunning(sessionId: string): boolean {
+    return this.runs.has(sessionId);
+  }
+
+  private createRun(steps: WorkflowStep[]): WorkflowRun {
+    return {
+      taskSteps: new Map(),
+      ancestors: WorkflowRunner.ancestorsOf(steps),
+      handlers: new Set(steps.flatMap(step => step.on_failure ? [step.on_failure] : [])),
+      failures: new Map(),
+      feedback: new Map()
+    };
+  }
+
+  private dispatchReadySteps(session: SessionContext): void {
+    let step = this.nextReadyStep(session);
+    while (step && this.runs.has(session.sessionId)) {
+      if (step.condition && !evaluateCondition(step.condition, this.conditionScope(session))) {
+        this.skipStep(session, step.name, 'Condition not met');
+      } else {
+        this.dispatchStep(session, step);
+      }
+      step = this.nextReadyStep(session);
+    }
+
+    this.checkCompletion(session);
+  }
+
+  private nextReadyStep(session: SessionContext): WorkflowStep | undefined {
+    const run = this.runs.get(session.sessionId);
+    if (!run) {
+      return undefined;
+    }
+
+    // Failure handlers only run when the step they handle fails
+    return (session.workflow.steps || []).find(step =>
+      session.workflow.pending_steps.includes(step.name) &&
+      !run.handlers.has(step.name) &&
+      (step.dependencies || []).every(dependency => this.isSatisfied(session, dependency))
+    );
+  }
+
+  private isSatisfied(session: SessionContext, stepName: string): boolean {
+    const workflow = session.workflow;
+    if (workflow.completed_steps.includes(stepName) || workflow.skipped_steps?.includes(stepName)) {
+      return true;
+    }
+
+    const handler = workflow.steps?.find(step => step.name === stepName)?.on_failure;
+    return !!handler && !!workflow.failed_steps?.includes(stepName) && this.isSatisfied(session, handler);
+  }
+
+  private dispatchStep(session: SessionContext, step: WorkflowStep): void {
+    const run = this.runs.get(session.sessionId)!;
+    const workflow = session.workflow;
+
+    workflow.pending_steps = workflow.pending_steps.filter(name => name !== step.name);
+    workflow.running_steps = [...(workflow.running_steps || []), step.name];
+    workflow.current_step = workflow.running_steps[0];
+    (session.shared_context.step_results as Record<string, unknown>)[step.name] = {};
+    this.touch(session);
+
+    let agentIds: string[];
+    try {
+      agentIds = step.required_agents.map(agent => this.resolveAgent(session, agent));
+    } catch (error) {
+      this.failStep(session, step.name, (error as Error).message);
+      return;
+    }
+
+    const failure = run.failures.get(step.name);
+    const feedback = run.feedback.get(step.name);
+    const payload = {
+      task_type: step.name,
+      description: step.description,
+      workflow_step: step.name,
+      expected_outputs: step.outputs,
+      inputs: this.collectInputs(session, step),
+      ...(failure && { failure }),
+      ...(feedback && { loop: feedback })
+    };
+
+    const taskTimeout = step.timeout ?? step.estimated_duration * ESTIMATE_TIMEOUT_FACTOR;
+    const taskIds = agentIds.map(agentId => this.sessionManager.delegateTask(
+      session.orchestrator,
+      agentId,
+      step.name,
+      payload,
+      {
+        sessionId: session.sessionId,
+        // timeout and estimated_duration are in seconds
+        ...(taskTimeout > 0 && { timeout: taskTimeout * 1000 })
+      }
+    ));
+
+    session.workflow.step_tasks = { ...session.workflow.step_tasks, [step.name]: taskIds };
+    taskIds.forEach(taskId => run.taskSteps.set(taskId, step.name));
+
+    const tasks = taskIds
+      .map(taskId => this.sessionManager.getTaskDelegation(taskId))
+      .filter((task): task is TaskDelegation => task !== null);
+    this.emit('workflow_step_started', { sessionId: session.sessionId, step: step.name, tasks });
+
+    // Steps without agents act as checkpoints and complete immediately
+    if (taskIds.length === 0) {
+      this.completeStep(session, step);
+    }
+  }
+
+  private handleTaskUpdate(taskId: string, status: TaskDelegation['status']): void {
+    const delegation = this.sessionManager.getTaskDelegation(taskId);
+    const run = delegation ? this.runs.get(delegation.sessionId) : undefined;
+    const stepName = run?.taskSteps.get(taskId);
+    if (!delegation || !run || !stepName) {
+      return;
+    }
+
+    const session = this.sessionManager.getSession(delegation.sessionId);
+    const step = session?.workflow.steps?.find(candidate => candidate.name === stepName);
+    if (!session || !step || !session.workflow.running_steps?.includes(stepName) ||
+        !session.workflow.step_tasks?.[stepName]?.includes(taskId)) {
+      return;
+    }
+
+    if (status === 'completed' || status === 'failed' || status === 'timeout' || status === 'cancelled') {
+      this.evaluateStep(session, step);
+    }
+  }
+
+  /**
+   * Fail a running step if any of its tasks failed, or complete it once they
+   * have all completed
+   */
+  private evaluateStep(session: SessionContext, step: WorkflowStep): void {
+    const tasks = (session.workflow.step_tasks?.[step.name] || [])
+      .map(taskId => this.sessionManager.getTaskDelegation(taskId));
+
+    const failed = tasks.find(task => !task || ['failed', 'timeout', 'cancelled'].includes(task.status));
+    if (failed !== undefined) {
+      this.failStep(session, step.name, failed
+        ? `Task ${failed.taskId} for ${failed.delegatee} ended with status ${failed.status}`
+        : `A task for step ${step.name} no longer exists`);
+      return;
+    }
+
+    const stepResults = session.shared_context.step_results as Record<string, Record<string, unknown>>;
+    stepResults[step.name] = {};
+    tasks.forEach(task => {
+      if (task!.status === 'completed') {
+        stepResults[step.name][task!.delegatee] = this.unwrapResult((task as TaskDelegation & { result?: unknown }).result);
+      }
+    });
+
+    if (tasks.every(task => task!.status === 'completed')) {
+      this.completeStep(session, step);
+    }
+  }
+
+  private completeStep(session: SessionContext, step: WorkflowStep): void {
+    const workflow = session.workflow;
+    const outputs = this.extractOutputs(session, step);
+    Object.assign(session.shared_context.workflow_outputs, outputs);
+
+    const loopAction = step.loop ? this.evaluateLoop(session, step) : 'continue';
+    if (loopAction === 'exhausted') {
+      this.failStep(
+        session,
+        step.name,
+        `Loop from ${step.name} to ${step.loop!.target} still active after ${step.loop!.max_iterations} iterations`
+      );
+      return;
+    }
+
+    workflow.running_steps = (workflow.running_steps || []).filter(name => name !== step.name);
+    workflow.completed_steps = [...workflow.completed_steps, step.name];
+    this.touch(session);
+
+    this.emit('workflow_step_completed', { sessionId: session.sessionId, step: step.name, outputs });
+
+    if (loopAction === 'repeat') {
+      this.repeatFrom(session, step, outputs);
+    }
+    this.dispatchReadySteps(session);
+  }
+
+  private evaluateLoop(session: SessionContext, step: WorkflowStep): 'continue' | 'repeat' | 'exhausted' {
+    const loop = step.loop!;
+    if (!evaluateCondition(loop.when, this.conditionScope(session))) {
+      return 'continue';
+    }
+
+    const iterations = session.workflow.iterations?.[step.name] || 0;
+    if (iterations < loop.max_iterations) {
+      return 'repeat';
+    }
+
+    this.emit('workflow_loop_exhausted', {
+      sessionId: session.sessionId,
+      step: step.name,
+      target: loop.target,
+      iterations
+    });
+    return loop.on_exhausted === 'continue' ? 'continue' : 'exhausted';
+  }
+
+  /**
+   * Put the loop target and every step between it and the looping step back
+   * into pending so they run again
+   */
+  private repeatFrom(session: SessionContext, step: WorkflowStep, outputs: Record<string, unknown>): void {
+    const run = this.runs.get(session.sessionId)!;
+    const workflow = session.workflow;
+    const { target } = step.loop!;
+
+    const iteration = (workflow.iterations?.[step.name] || 0) + 1;
+    workflow.iterations = { ...workflow.iterations, [step.name]: iteration };
+
+    const inLoop = (name: string) =>
+      (name === target || run.ancestors.get(name)!.has(target)) &&
+      (name === step.name || run.ancestors.get(step.name)!.has(name));
+    const resetSteps = (workflow.steps || []).map(candidate => candidate.name).filter(inLoop);
+
+    workflow.completed_steps = workflow.completed_steps.filter(name => !inLoop(name));
+    workflow.skipped_steps = (workflow.skipped_steps || []).filter(name => !inLoop(name));
+    workflow.failed_steps = (workflow.failed_steps || []).filter(name => !inLoop(name));
+    const pending = new Set([...workflow.pending_steps, ...resetSteps]);
+    workflow.pending_steps = (workflow.steps || []).map(candidate => candidate.name).filter(name => pending.has(name));
+    this.touch(session);
+
+    run.feedback.set(target, { step: step.name, iteration, outputs });
+    this.emit('workflow_loop', { sessionId: session.sessionId, step: step.name, target, iteration });
+  }
+
+  private failStep(session: SessionContext, stepName: string, error: string): void {
+    const run = this.runs.get(session.sessionId);
+    const workflow = session.workflow;
+    workflow.running_steps = (workflow.running_steps || []).filter(name => name !== stepName);
+    workflow.failed_steps = [...(workflow.failed_steps || []), stepName];
+    this.touch(session);
+
+    this.emit('workflow_step_failed', { sessionId: session.sessionId, step: stepName, error });
+
+    const handlerName = workflow.steps?.find(step => step.name === stepName)?.on_failure;
+    const handler = workflow.steps?.find(step => step.name === handlerName);
+    if (run && handler && workflow.pending_steps.includes(handler.name)) {
+      run.failures.set(handler.name, { step: stepName, error });
+      this.emit('workflow_branch_taken', { sessionId: session.sessionId, step: stepName, handler: handler.name, error });
+      this.dispatchStep(session, handler);
+      return;
+    }
+
+    workflow.status = 'failed';
+    workflow.current_step = 'failed';
+    workflow.error = error;
+
+    this.runs.delete(session.sessionId);
+    this.emit('workflow_failed', { sessionId: session.sessionId, step: stepName, error });
+  }
+
+  private skipStep(session: SessionContext, stepName: string, reason: string): void {
+    const workflow = session.workflow;
+    workflow.pending_steps = workflow.pending_steps.filter(name => name !== stepName);
+    workflow.skipped_steps = [...(workflow.skipped_steps || []), stepName];
+    this.touch(session);
+
+    this.emit('workflow_step_skipped', { sessionId: session.sessionId, step: stepName, reason });
+  }
+
+  private checkCompletion(session: SessionContext): void {
+    const workflow = session.workflow;
+    if (!this.runs.has(session.sessionId) || (workflow.running_steps || []).length > 0) {
+      return;
+    }
+
+    // Whatever is still pending can no longer run, e.g. handlers nothing failed for
+    [...workflow.pending_steps].forEach(name => this.skipStep(session, name, 'Not reached'));
+
+    workflow.status = 'completed';
+    workflow.current_step = 'completed';
+    this.touch(session);
+
+    this.runs.delete(session.sessionId);
+    this.emit('workflow_completed', {
+      sessionId: session.sessionId,
+      outputs: session.shared_context.workflow_outputs
+    });
+  }
+
+  /**
+   * Map a required agent to a session participant, by agent ID or by role.
+   * Roles go to the most available participant holding them.
+   */
+  private resolveAgent(session: SessionContext, agent: string): string {
+    const byId = session.participants.find(participant =>
+      participant.agent_id === agent && participant.status !== 'left' && participant.status !== 'session_terminated'
+    );
+    if (byId) {
+      return byId.agent_id;
+    }
+
+    const byRole = this.sessionManager.selectParticipant(session.sessionId, agent);
+    if (byRole) {
+      return byRole.agent_id;
+    }
+
+    if (agent.includes('://')) {
+      return agent;
+    }
+
+    throw new Error(`No session participant matches required agent ${agent}`);
+  }
+
+  /**
+   * Gather a step's declared inputs from earlier outputs or the shared context.
+   * Steps without declared inputs receive their dependencies' outputs.
+   */
+  private collectInputs(session: SessionContext, step: WorkflowStep): Record<string, unknown> {
+    const workflowOutputs = session.shared_context.workflow_outputs as Record<string, unknown>;
+    const inputs: Record<string, unknown> = {};
+
+    if (step.inputs) {
+      step.inputs.forEach(input => {
+        if (input in workflowOutputs) {
+          inputs[input] = workflowOutputs[input];
+        } else if (input in session.shared_context) {
+          inputs[input] = session.shared_context[input];
+        }
+      });
+      return inputs;
+    }
+
+    (step.dependencies || []).forEach(dependency => {
+      const dependencyStep = session.workflow.steps?.find(candidate => candidate.name === dependency);
+      dependencyStep?.outputs.forEach(output => {
+        if (output in workflowOutputs) {
+          inputs[output] = workflowOutputs[output];
+        }
+      });
+    });
+
+    return inputs;
+  }
+
+  /**
+   * Pick each declared output from the agents' results, in required_agents
+   * order. A step with a single output falls back to the whole result.
+   */
+  private extractOutputs(session: SessionContext, step: WorkflowStep): Record<string, unknown> {
+    const results = Object.values(
+      (session.shared_context.step_results as Record<string, Record<string, unknown>>)[step.name] || {}
+    );
+    const outputs: Record<string, unknown> = {};
+
+    step.outputs.forEach(output => {
+      for (const result of results) {
+        const value = this.pickOutput(result, output);
+        if (value !== undefined) {
+          outputs[output] = value;
+          return;
+        }
+      }
+      if (step.outputs.length === 1 && results.length > 0) {
+        outputs[output] = results[0];
+      }
+    });
+
+    return outputs;
+  }
+
+  private pickOutput(result: unknown, output: string): unknown {
+    if (!result || typeof result !== 'object') {
+      return undefined;
+    }
+    const record = result as Record<string, any>;
+    return record[output] ?? record.outputs?.[output];
+  }
+
+  /**
+   * Task responses from adapters wrap the agent's output in `result`
+   */
+  private unwrapResult(result: unknown): unknown {
+    if (result && typeof result === 'object' && 'result' in (result as Record<string, unknown>)) {
+      return (result as Record<string, unknown>).result;
+    }
+    return result;
+  }
+
+  private conditionScope(session: SessionContext): ConditionScope {
+    return {
+      outputs: session.shared_context.workflow_outputs || {},
+      context: session.shared_context
+    };
+  }
+
+  private touch(session: SessionContext): void {
+    session.updated_at = new Date().toISOString();
+  }
+}
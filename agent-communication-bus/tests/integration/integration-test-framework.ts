@@ -82,7 +82,7 @@ export class IntegrationTestRunner {
       health_check_url: `http://localhost:3000/agents/${agentDescriptor.agent_id}/health`,
       authentication: {
         type: 'api_key',
-        credentials: 'test-api-key'
+        credentials: `key-${agentDescriptor.agent_id}`
       }
     };
 
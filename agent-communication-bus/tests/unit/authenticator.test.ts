@@ -0,0 +1,191 @@
+import {
+  Authenticator,
+  AuthenticationError,
+  extractCredentials,
+  signJwt
+} from '../../src/auth/authenticator';
+import { AgentRegistration } from '../../src/types/protocol';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('Authenticator', () => {
+  const busKey = 'bus-secret';
+  const jwtSecret = 'jwt-secret';
+  let authenticator: Authenticator;
+
+  const createRegistration = (
+    agentId: string,
+    authentication: AgentRegistration['authentication']
+  ): AgentRegistration => ({
+    agent_descriptor: MockDataGenerator.createAgentDescriptor({ agent_id: agentId }),
+    health_check_url: '',
+    authentication
+  });
+
+  beforeEach(() => {
+    MockDataGenerator.reset();
+    authenticator = new Authenticator({ apiKey: busKey, jwtSecret });
+  });
+
+  describe('HTTP authentication', () => {
+    it('should treat the bus API key as a bus principal', () => {
+      expect(authenticator.authenticate({ apiKey: busKey })).toEqual({ type: 'bus' });
+    });
+
+    it('should bind an agent API key to its agent', () => {
+      authenticator.registerCredentials(createRegistration('codex://frontend', {
+        type: 'api_key',
+        credentials: 'agent-key'
+      }));
+
+      expect(authenticator.authenticate({ apiKey: 'agent-key' })).toEqual({
+        type: 'agent',
+        agentId: 'codex://frontend'
+      });
+    });
+
+    it('should bind a JWT to its subject', () => {
+      const token = signJwt({ sub: 'opencode://reviewer' }, jwtSecret);
+
+      expect(authenticator.authenticate({ token })).toEqual({
+        type: 'agent',
+        agentId: 'opencode://reviewer'
+      });
+    });
+
+    it('should reject missing and unknown credentials', () => {
+      expect(() => authenticator.authenticate({})).toThrow('Missing credentials');
+      expect(() => authenticator.authenticate({ apiKey: 'wrong' })).toThrow('Invalid API key');
+    });
+
+    it('should allow everything when no secrets are configured', () => {
+      const open = new Authenticator();
+
+      expect(open.isEnabled()).toBe(false);
+      expect(open.authenticate({})).toEqual({ type: 'bus' });
+    });
+  });
+
+  describe('JWT verification', () => {
+    it('should reject tokens signed with another secret', () => {
+      const token = signJwt({ sub: 'opencode://reviewer' }, 'other-secret');
+
+      expect(() => authenticator.verifyJwt(token)).toThrow('Invalid token signature');
+    });
+
+    it('should reject expired tokens', () => {
+      const token = signJwt({ sub: 'opencode://reviewer', exp: Math.floor(Date.now() / 1000) - 10 }, jwtSecret);
+
+      expect(() => authenticator.verifyJwt(token)).toThrow('Token expired');
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(() => authenticator.verifyJwt('not-a-token')).toThrow('Malformed token');
+    });
+  });
+
+  describe('Agent connections', () => {
+    beforeEach(() => {
+      authenticator.registerCredentials(createRegistration('codex://frontend', {
+        type: 'api_key',
+        credentials: 'agent-key'
+      }));
+    });
+
+    it('should accept the agent\'s own API key', () => {
+      expect(() => authenticator.authenticateAgent('codex://frontend', { apiKey: 'agent-key' })).not.toThrow();
+    });
+
+    it('should not accept the bus API key for an agent connection', () => {
+      expect(() => authenticator.authenticateAgent('codex://frontend', { apiKey: busKey }))
+        .toThrow('Invalid API key for codex://frontend');
+    });
+
+    it('should reject a JWT issued for another agent with 403', () => {
+      const token = signJwt({ sub: 'opencode://reviewer' }, jwtSecret);
+      expect.assertions(2);
+
+      try {
+        authenticator.authenticateAgent('codex://frontend', { token });
+      } catch (error) {
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect((error as AuthenticationError).statusCode).toBe(403);
+      }
+    });
+
+    it('should forget credentials when an agent is removed', () => {
+      authenticator.removeCredentials('codex://frontend');
+
+      expect(() => authenticator.authenticateAgent('codex://frontend', { apiKey: 'agent-key' })).toThrow();
+    });
+  });
+
+  describe('Registration and authorization', () => {
+    it('should reject JWT registrations for a different agent', () => {
+      const token = signJwt({ sub: 'opencode://reviewer' }, jwtSecret);
+
+      expect(() => authenticator.registerCredentials(createRegistration('codex://frontend', {
+        type: 'jwt',
+        credentials: token
+      }))).toThrow('Token was not issued for codex://frontend');
+    });
+
+    it('should reject unsupported credential types', () => {
+      expect(() => authenticator.registerCredentials(createRegistration('codex://frontend', {
+        type: 'certificate',
+        credentials: '-----BEGIN CERTIFICATE-----'
+      }))).toThrow('Unsupported authentication type: certificate');
+    });
+
+    it('should reject an API key already registered to another agent', () => {
+      authenticator.registerCredentials(createRegistration('codex://frontend', { type: 'api_key', credentials: 'shared-key' }));
+
+      expect(() => authenticator.registerCredentials(createRegistration('opencode://reviewer', {
+        type: 'api_key',
+        credentials: 'shared-key'
+      }))).toThrow('API key is already registered to another agent');
+      expect(authenticator.authenticate({ apiKey: 'shared-key' })).toEqual({ type: 'agent', agentId: 'codex://frontend' });
+    });
+
+    it('should let a key be reused once its agent is removed', () => {
+      authenticator.registerCredentials(createRegistration('codex://frontend', { type: 'api_key', credentials: 'shared-key' }));
+      authenticator.removeCredentials('codex://frontend');
+
+      authenticator.registerCredentials(createRegistration('opencode://reviewer', { type: 'api_key', credentials: 'shared-key' }));
+
+      expect(authenticator.authenticate({ apiKey: 'shared-key' })).toEqual({ type: 'agent', agentId: 'opencode://reviewer' });
+    });
+
+    it('should reject the bus API key as agent credentials with 400', () => {
+      expect.assertions(3);
+
+      try {
+        authenticator.registerCredentials(createRegistration('codex://frontend', { type: 'api_key', credentials: busKey }));
+      } catch (error) {
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect((error as AuthenticationError).message).toBe('Agent API key must differ from the bus API key');
+        expect((error as AuthenticationError).statusCode).toBe(400);
+      }
+    });
+
+    it('should only let agent principals act as themselves', () => {
+      const principal = { type: 'agent' as const, agentId: 'codex://frontend' };
+
+      expect(() => authenticator.authorize(principal, 'codex://frontend')).not.toThrow();
+      expect(() => authenticator.authorize(principal, 'opencode://reviewer')).toThrow(AuthenticationError);
+      expect(() => authenticator.authorize({ type: 'bus' }, 'opencode://reviewer')).not.toThrow();
+    });
+  });
+
+  describe('Credential extraction', () => {
+    it('should read the API key header and bearer token', () => {
+      expect(extractCredentials({ 'x-agent-api-key': 'key', authorization: 'Bearer abc.def.ghi' })).toEqual({
+        apiKey: 'key',
+        token: 'abc.def.ghi'
+      });
+    });
+
+    it('should fall back to query parameters', () => {
+      expect(extractCredentials({}, new URLSearchParams('agent_id=a&api_key=key'))).toEqual({ apiKey: 'key' });
+    });
+  });
+});
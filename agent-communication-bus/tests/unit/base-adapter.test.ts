@@ -0,0 +1,107 @@
+import { CommunicationBus } from '../../src/communication-bus';
+import { AgentMessage } from '../../src/types/protocol';
+import { LiveBusHarness, RecordingAdapter, waitFor } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('BaseAdapter', () => {
+  let harness: LiveBusHarness;
+  let bus: CommunicationBus;
+  let adapters: RecordingAdapter[];
+
+  beforeEach(async () => {
+    harness = new LiveBusHarness();
+    adapters = [];
+    bus = await harness.startBus({ ackTimeout: 50 });
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.map(adapter => adapter.shutdown()));
+    await harness.cleanup();
+  });
+
+  async function startAdapter(handle: (message: AgentMessage) => Promise<void>): Promise<RecordingAdapter> {
+    const adapter = new RecordingAdapter('worker', bus.getUrl()!, handle);
+    adapters.push(adapter);
+    await adapter.initialize();
+    return adapter;
+  }
+
+  function taskFor(agentId: string): AgentMessage {
+    return MockDataGenerator.createAgentMessage({
+      recipient: { agent_id: agentId, framework: 'test' },
+      routing: { timeout: '30s', retry_policy: { max_retries: 2, backoff: 'linear' }, delivery_mode: 'async' }
+    });
+  }
+
+  it('should acknowledge a task on receipt while the handler outlives the ack timeout', async () => {
+    let finish: () => void = () => undefined;
+    const adapter = await startAdapter(() => new Promise<void>(resolve => { finish = resolve; }));
+    const events: string[] = [];
+    ['message_acknowledged', 'message_redelivered', 'message_failed', 'message_dead_lettered']
+      .forEach(event => bus.on(event, () => events.push(event)));
+
+    await bus.sendMessage(taskFor('worker'));
+    await waitFor(() => events.includes('message_acknowledged'));
+    await new Promise(resolve => setTimeout(resolve, 200));
+    finish();
+
+    expect(adapter.received).toHaveLength(1);
+    expect(events).toEqual(['message_acknowledged']);
+    expect(bus.getDeadLetters()).toEqual([]);
+  });
+
+  it('should stop a cancelled task and not report its outcome', async () => {
+    const outcomes: string[] = [];
+    const stopped: string[] = [];
+    class CancellableAdapter extends RecordingAdapter {
+      private fail: (error: Error) => void = () => undefined;
+
+      protected async handleMessage(message: AgentMessage): Promise<void> {
+        await super.handleMessage(message);
+        const task = new Promise((_resolve, reject) => { this.fail = reject; });
+        await this.runTask(message, task, async () => { outcomes.push('success'); }, async error => {
+          outcomes.push(error.message);
+        });
+      }
+
+      protected stopTask(messageId: string): void {
+        stopped.push(messageId);
+        this.fail(new Error('Killed'));
+      }
+    }
+    const adapter = new CancellableAdapter('worker', bus.getUrl()!);
+    adapters.push(adapter);
+    await adapter.initialize();
+    const task = MockDataGenerator.createTaskRequestMessage({
+      recipient: { agent_id: 'worker', framework: 'test' },
+      metadata: { task_id: 'task_1' }
+    });
+
+    await bus.sendMessage(task);
+    await waitFor(() => adapter.received.length === 1);
+    await bus.sendMessage(MockDataGenerator.createAgentMessage({
+      message_type: 'cancel',
+      recipient: { agent_id: 'worker', framework: 'test' },
+      payload: { task_id: 'task_1', reason: 'No longer needed' }
+    }));
+    await waitFor(() => stopped.length === 1);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(stopped).toEqual([task.message_id]);
+    expect(outcomes).toEqual([]);
+    expect(adapter.received).toHaveLength(1);
+  });
+
+  it('should still acknowledge a message whose handler fails', async () => {
+    const adapter = await startAdapter(async () => { throw new Error('boom'); });
+    const events: string[] = [];
+    ['message_acknowledged', 'message_redelivered'].forEach(event => bus.on(event, () => events.push(event)));
+
+    await bus.sendMessage(taskFor('worker'));
+    await waitFor(() => events.includes('message_acknowledged'));
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(adapter.received).toHaveLength(1);
+    expect(events).toEqual(['message_acknowledged']);
+  });
+});
@@ -0,0 +1,78 @@
+import { CommunicationBus } from '../../src/communication-bus';
+import { DeadLetter } from '../../src/dead-letter-queue';
+import { LiveBusHarness, agentApiKey } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('CommunicationBus dead-letter endpoints', () => {
+  let harness: LiveBusHarness;
+  let bus: CommunicationBus;
+  let fromAlice: DeadLetter;
+  let fromBob: DeadLetter;
+
+  beforeEach(async () => {
+    harness = new LiveBusHarness();
+    bus = await harness.startBus();
+    await harness.connectAgent(bus, 'alice');
+    await harness.connectAgent(bus, 'bob');
+
+    // Nobody is registered as the recipient, so routing fails and the message is dead-lettered
+    const undeliverable = (sender: string) => MockDataGenerator.createAgentMessage({
+      sender: { agent_id: sender, framework: 'test' },
+      recipient: { agent_id: 'nobody', framework: 'test' }
+    });
+    await bus.sendMessage(undeliverable('alice'));
+    await bus.sendMessage(undeliverable('bob'));
+    [fromAlice, fromBob] = bus.getDeadLetters() as [DeadLetter, DeadLetter];
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  const asAgent = (agentId: string, method: string, path: string) =>
+    harness.http(bus, method, path, undefined, agentApiKey(agentId));
+
+  it('should list every dead letter to the bus principal', async () => {
+    const { body } = await harness.http(bus, 'GET', '/dead-letters');
+
+    expect(body.total).toBe(2);
+  });
+
+  it('should list only the dead letters an agent sent or was meant to receive', async () => {
+    const { body } = await asAgent('alice', 'GET', '/dead-letters');
+
+    expect(body.dead_letters.map((deadLetter: DeadLetter) => deadLetter.dead_letter_id)).toEqual([fromAlice.dead_letter_id]);
+    expect(body.total).toBe(1);
+  });
+
+  it('should not let an agent replay or delete another agent\'s dead letter', async () => {
+    const replay = await asAgent('alice', 'POST', `/dead-letters/${fromBob.dead_letter_id}/replay`);
+    const remove = await asAgent('alice', 'DELETE', `/dead-letters/${fromBob.dead_letter_id}`);
+
+    expect(replay.status).toBe(403);
+    expect(remove.status).toBe(403);
+    expect(bus.getDeadLetter(fromBob.dead_letter_id)).not.toBeNull();
+  });
+
+  it('should let an agent delete its own dead letter', async () => {
+    const { status, body } = await asAgent('alice', 'DELETE', `/dead-letters/${fromAlice.dead_letter_id}`);
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ success: true });
+    expect(bus.getDeadLetter(fromAlice.dead_letter_id)).toBeNull();
+  });
+
+  it('should let the bus principal act on any dead letter', async () => {
+    const { status } = await harness.http(bus, 'DELETE', `/dead-letters/${fromBob.dead_letter_id}`);
+
+    expect(status).toBe(200);
+  });
+
+  it('should return 404 for unknown dead letters', async () => {
+    const replay = await asAgent('alice', 'POST', '/dead-letters/dl_missing/replay');
+    const remove = await harness.http(bus, 'DELETE', '/dead-letters/dl_missing');
+
+    expect(replay.status).toBe(404);
+    expect(remove.status).toBe(404);
+  });
+});
@@ -0,0 +1,241 @@
+import { CommunicationBus, FanOutTimeoutError } from '../../src/communication-bus';
+import { StubAgentConnection } from '../../src/transcript-replayer';
+import { AgentMessage } from '../../src/types/protocol';
+import { LiveBusHarness, replyTo as reply, waitFor } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('CommunicationBus fan-out', () => {
+  const lead = 'claude-code://lead';
+  const reviewers = ['opencode://reviewer', 'codex://reviewer', 'claude-code://reviewer'];
+  const harness = new LiveBusHarness();
+  let bus: CommunicationBus;
+
+  // Each stub answers task requests with whatever `answers` holds for it; agents without an answer stay silent
+  const connect = async (answers: Record<string, (message: AgentMessage) => AgentMessage>) => {
+    const connections = new Map<string, StubAgentConnection>();
+    for (const agentId of new Set([lead, ...reviewers, ...Object.keys(answers)])) {
+      const answer = answers[agentId];
+      connections.set(agentId, await harness.connectAgent(bus, agentId, message =>
+        message.message_type === 'task_request' && answer ? [answer(message)] : []));
+    }
+    return connections;
+  };
+
+  beforeEach(async () => {
+    bus = await harness.startBus();
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it('should aggregate the results of every recipient', async () => {
+    await connect(Object.fromEntries(reviewers.map(agentId => [agentId, (message: AgentMessage) =>
+      reply(message, 'task_response', { result: { approved: true }, confidence: 0.8 })])));
+    const completed = jest.fn();
+    bus.on('fan_out_completed', completed);
+
+    const aggregation = await bus.fanOut({ delegator: lead, taskType: 'code_review', payload: { pr: 42 } }, reviewers);
+
+    expect(aggregation.agent_results.map(result => result.agent_id).sort()).toEqual([...reviewers].sort());
+    expect(aggregation.synthesis.synthesis_method).toBe('consensus');
+    expect(aggregation.synthesis.unified_result.consensus).toEqual({ approved: true });
+    expect(aggregation.synthesis.confidence_score).toBeCloseTo(0.8);
+    expect(bus.getAggregation(aggregation.aggregation_id)).toBe(aggregation);
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({ reason: 'all_responded' }));
+  });
+
+  it('should stop waiting once a quorum succeeds and cancel the remaining task', async () => {
+    const connections = await connect({
+      [reviewers[0]]: message => reply(message, 'task_response', { approved: true }),
+      [reviewers[1]]: message => reply(message, 'task_response', { approved: true })
+    });
+
+    const aggregation = await bus.fanOut({ delegator: lead, taskType: 'code_review', quorum: 2 }, reviewers);
+
+    expect(aggregation.agent_results).toHaveLength(2);
+    expect(aggregation.agent_results[0].confidence).toBe(0.5);
+    const remaining = connections.get(reviewers[2])!;
+    await waitFor(() => remaining.received.length === 2);
+    expect(remaining.received.map(message => message.message_type)).toEqual(['task_request', 'cancel']);
+  });
+
+  it('should aggregate what arrived by the deadline, including failures', async () => {
+    await connect({
+      [reviewers[0]]: message => reply(message, 'task_response', { approved: true }),
+      [reviewers[1]]: message => reply(message, 'error', { error: 'Reviewer crashed' })
+    });
+    const completed = jest.fn();
+    bus.on('fan_out_completed', completed);
+
+    const aggregation = await bus.fanOut({ delegator: lead, taskType: 'code_review', timeout: 100 }, reviewers);
+
+    expect(aggregation.agent_results.find(result => result.agent_id === reviewers[1]))
+      .toEqual(expect.objectContaining({ error: 'Reviewer crashed', confidence: 0 }));
+    expect(aggregation.agent_results).toHaveLength(2);
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({ reason: 'deadline' }));
+  });
+
+  it('should finish as soon as the quorum method has enough matching results', async () => {
+    await connect({
+      [reviewers[0]]: message => reply(message, 'task_response', { decision: 'approve' }),
+      [reviewers[1]]: message => reply(message, 'task_response', { decision: 'approve' })
+    });
+    const completed = jest.fn();
+    bus.on('fan_out_completed', completed);
+
+    const aggregation = await bus.fanOut({ delegator: lead, taskType: 'code_review' }, reviewers, 'quorum');
+
+    expect(aggregation.synthesis.unified_result).toEqual({ decision: 'approve' });
+    expect(aggregation.synthesis.votes!.required_votes).toBe(2);
+    expect(completed).toHaveBeenCalledWith(expect.objectContaining({ reason: 'quorum' }));
+  });
+
+  it('should ask the referee agent to judge the results', async () => {
+    const judge = 'claude-code://judge';
+    const connections = await connect({
+      [reviewers[0]]: message => reply(message, 'task_response', { design: 'services' }),
+      [reviewers[1]]: message => reply(message, 'task_response', { design: 'monolith' }),
+      [reviewers[2]]: message => reply(message, 'task_response', { design: 'monolith' }),
+      [judge]: message => reply(message, 'task_response', {
+        winner: message.payload.agent_results[1].agent_id,
+        rationale: 'Simplest to operate'
+      })
+    });
+
+    const aggregation = await bus.fanOut(
+      { delegator: lead, taskType: 'architecture_design', referee: judge },
+      reviewers,
+      'referee'
+    );
+
+    const requests = connections.get(judge)!.received;
+    expect(requests).toHaveLength(1);
+    expect(requests[0].payload).toEqual(expect.objectContaining({
+      task_type: 'referee',
+      judged_task_type: 'architecture_design',
+      aggregation_id: aggregation.aggregation_id
+    }));
+    expect(aggregation.synthesis.unified_result).toEqual({ design: 'monolith' });
+    expect(aggregation.synthesis.verdict).toEqual(expect.objectContaining({ referee: judge, rationale: 'Simplest to operate' }));
+  });
+
+  it('should fall back when the referee replies with an error', async () => {
+    const judge = 'claude-code://judge';
+    await connect({
+      [reviewers[0]]: message => reply(message, 'task_response', { result: { design: 'services' }, confidence: 0.9 }),
+      [judge]: message => reply(message, 'error', { error: 'Judge overloaded' })
+    });
+
+    const aggregation = await bus.fanOut(
+      { delegator: lead, taskType: 'architecture_design', referee: judge, quorum: 1 },
+      reviewers,
+      'referee'
+    );
+
+    expect(aggregation.synthesis.verdict!.fallback).toEqual({
+      method: 'highest_weighted',
+      agent_id: reviewers[0],
+      reason: 'Judge overloaded'
+    });
+    expect(aggregation.synthesis.unified_result).toEqual({ design: 'services' });
+    expect(aggregation.synthesis.confidence_score).toBeCloseTo(0.9);
+  });
+
+  it('should reject referee synthesis without a referee agent', async () => {
+    await expect(bus.fanOut({ delegator: lead, taskType: 'architecture_design' }, reviewers, 'referee'))
+      .rejects.toThrow('Referee synthesis needs a referee agent');
+  });
+
+  it('should reject when nobody responds before the deadline', async () => {
+    await connect({});
+
+    await expect(bus.fanOut({ delegator: lead, taskType: 'code_review', timeout: 50 }, reviewers))
+      .rejects.toBeInstanceOf(FanOutTimeoutError);
+  });
+
+  it('should reject an unreachable quorum', async () => {
+    await expect(bus.fanOut({ delegator: lead, taskType: 'code_review', quorum: 4 }, reviewers))
+      .rejects.toThrow('quorum must be between 1 and 3');
+  });
+
+  it('should not leave tasks behind when a recipient cannot be resolved', async () => {
+    const connections = await connect({});
+    const sessionId = bus.createSession(lead, [
+      MockDataGenerator.createAgentParticipant({ agent_id: reviewers[0], role: 'reviewer' })
+    ]);
+
+    await expect(bus.fanOut({ delegator: lead, taskType: 'code_review', sessionId }, ['reviewer', 'security']))
+      .rejects.toThrow('No participant with role security');
+
+    expect(bus['sessionManager'].getTasks({ sessionId }).map(task => task.status)).toEqual(['cancelled']);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(connections.get(reviewers[0])!.received).toEqual([]);
+  });
+
+  it('should not count a result sent by an agent other than the recipient', async () => {
+    const connections = await connect({
+      [reviewers[0]]: message => reply(message, 'task_response', { approved: true })
+    });
+    const ignored: any[] = [];
+    bus.on('task_reply_ignored', event => ignored.push(event));
+
+    const pending = bus.fanOut({ delegator: lead, taskType: 'code_review', timeout: 300 }, reviewers);
+    const silent = connections.get(reviewers[1])!;
+    await waitFor(() => silent.received.length === 1);
+    connections.get(reviewers[2])!.deliver(reply({
+      ...silent.received[0]!,
+      recipient: { agent_id: reviewers[2], framework: 'claude-code' }
+    }, 'task_response', { approved: false }));
+    const aggregation = await pending;
+
+    expect(ignored).toHaveLength(1);
+    expect(aggregation.agent_results.map(result => result.agent_id)).toEqual([reviewers[0]]);
+  });
+
+  describe('POST /aggregations', () => {
+    it('should respond with the aggregation', async () => {
+      await connect(Object.fromEntries(reviewers.map(agentId => [agentId, (message: AgentMessage) =>
+        reply(message, 'task_response', { result: { approved: true }, confidence: 0.8 })])));
+
+      const { status, body } = await harness.http(bus, 'POST', '/aggregations', {
+        delegator: lead,
+        task_type: 'code_review',
+        recipients: reviewers
+      });
+
+      expect(status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.aggregation.agent_results).toHaveLength(3);
+      const stored = await harness.http(bus, 'GET', `/aggregations/${body.aggregation.aggregation_id}`);
+      expect(stored.body.aggregation.aggregation_id).toBe(body.aggregation.aggregation_id);
+    });
+
+    it('should return 504 when nobody responds within timeout_ms', async () => {
+      await connect({});
+
+      const { status, body } = await harness.http(bus, 'POST', '/aggregations', {
+        delegator: lead,
+        task_type: 'code_review',
+        recipients: reviewers,
+        timeout_ms: 50
+      });
+
+      expect(status).toBe(504);
+      expect(body.success).toBe(false);
+      expect(body.error).toMatch(/^No agent responded to fan-out .* within 50ms$/);
+    });
+
+    it('should return 400 for an invalid request', async () => {
+      const { status, body } = await harness.http(bus, 'POST', '/aggregations', {
+        delegator: lead,
+        task_type: 'code_review',
+        recipients: reviewers,
+        synthesis_method: 'coin_flip'
+      });
+
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/^synthesis_method must be one of/);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { CommunicationBus } from '../../src/communication-bus';
+import { AgentMessage, AgentParticipant } from '../../src/types/protocol';
+import { LiveBusHarness, replyTo, waitFor } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('CommunicationBus authorization policy', () => {
+  const lead = 'claude-code://lead';
+  const reviewer = 'codex://reviewer';
+  const judge = 'claude-code://judge';
+  let harness: LiveBusHarness;
+  let bus: CommunicationBus;
+  let denied: any[];
+
+  beforeEach(async () => {
+    harness = new LiveBusHarness();
+    bus = await harness.startBus({
+      authorization: {
+        defaultEffect: 'deny',
+        rules: [
+          { id: 'lead_delegates', effect: 'allow', senders: [lead] },
+          { id: 'replies', effect: 'allow', messageTypes: ['task_response', 'error'] }
+        ]
+      }
+    });
+    denied = [];
+    bus.on('message_denied', event => denied.push(event));
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  const participant = (agentId: string, role: string): AgentParticipant => ({
+    agent_id: agentId,
+    framework: agentId.split('://')[0]!,
+    role,
+    status: 'active',
+    join_time: new Date().toISOString()
+  });
+
+  it('should deliver shared-context broadcasts under a deny-by-default policy', async () => {
+    await harness.connectAgent(bus, lead);
+    const other = await harness.connectAgent(bus, reviewer);
+    const sessionId = bus.createSession(lead, [participant(lead, 'orchestrator'), participant(reviewer, 'reviewer')]);
+
+    const { status } = await harness.http(bus, 'PATCH', `/sessions/${sessionId}/context`, {
+      agent_id: lead,
+      changes: { plan: 'ship it' }
+    });
+    await waitFor(() => other.received.length === 1);
+
+    expect(status).toBe(200);
+    expect(other.received[0]).toMatchObject({
+      sender: { agent_id: 'communication-bus' },
+      message_type: 'status_update'
+    });
+    expect(denied).toEqual([]);
+  });
+
+  it('should send referee requests under a deny-by-default policy', async () => {
+    const answer = (payload: any) => (message: AgentMessage) => [replyTo(message, 'task_response', payload)];
+    await harness.connectAgent(bus, lead);
+    await harness.connectAgent(bus, reviewer, answer({ design: 'monolith' }));
+    const referee = await harness.connectAgent(bus, judge, message => [replyTo(message, 'task_response', {
+      winner: message.payload.agent_results[0].agent_id
+    })]);
+
+    const aggregation = await bus.fanOut({ delegator: lead, taskType: 'architecture_design', referee: judge }, [reviewer], 'referee');
+
+    expect(referee.received).toHaveLength(1);
+    expect(aggregation.synthesis.verdict).toEqual(expect.objectContaining({ referee: judge, winner: reviewer }));
+    expect(aggregation.synthesis.verdict!.fallback).toBeUndefined();
+    expect(denied).toEqual([]);
+  });
+
+  it('should still apply the policy to agents', async () => {
+    await harness.connectAgent(bus, lead);
+    await harness.connectAgent(bus, reviewer);
+
+    const sent = await bus.sendMessage(MockDataGenerator.createTaskRequestMessage({
+      sender: { agent_id: reviewer, framework: 'codex' },
+      recipient: { agent_id: lead, framework: 'claude-code' }
+    }));
+
+    expect(sent).toBe(false);
+    expect(denied).toHaveLength(1);
+  });
+
+  it('should not let an agent register as the bus', async () => {
+    await expect(bus.registerAgent(MockDataGenerator.createAgentRegistration({
+      agent_descriptor: MockDataGenerator.createAgentDescriptor({ agent_id: 'communication-bus' })
+    }))).rejects.toThrow('Agent ID communication-bus is reserved for the bus');
+  });
+});
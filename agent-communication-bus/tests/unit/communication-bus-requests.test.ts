@@ -0,0 +1,182 @@
+import { CommunicationBus, RequestTimeoutError } from '../../src/communication-bus';
+import { AgentMessage } from '../../src/types/protocol';
+import { LiveBusHarness, replyTo } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('CommunicationBus request/response', () => {
+  let harness: LiveBusHarness;
+  let bus: CommunicationBus;
+
+  beforeEach(async () => {
+    harness = new LiveBusHarness();
+    bus = await harness.startBus();
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  function taskFor(agentId: string, overrides: Partial<AgentMessage> = {}): AgentMessage {
+    return MockDataGenerator.createAgentMessage({
+      recipient: { agent_id: agentId, framework: 'test' },
+      ...overrides
+    });
+  }
+
+  const answer = (message: AgentMessage) => [replyTo(message, 'task_response', { status: 'completed', echo: message.message_id })];
+  const fail = (message: AgentMessage) => [replyTo(message, 'error', { error: 'cannot do it' })];
+
+  describe('request', () => {
+    it('should resolve with the reply correlated to the request', async () => {
+      await harness.connectAgent(bus, 'worker', answer);
+      const message = taskFor('worker');
+
+      const response = await bus.request(message, 2000);
+
+      expect(response.message_type).toBe('task_response');
+      expect(response.metadata?.correlation_id).toBe(message.message_id);
+      expect(response.payload.echo).toBe(message.message_id);
+      expect(bus['pendingRequests'].size).toBe(0);
+    });
+
+    it('should match a reply by task_id when it has no correlation_id', async () => {
+      await harness.connectAgent(bus, 'worker', message => {
+        const reply = replyTo(message, 'task_response', { status: 'completed' });
+        return [{ ...reply, metadata: { task_id: 'task-1' } }];
+      });
+
+      const response = await bus.request(taskFor('worker', { metadata: { task_id: 'task-1' } }), 2000);
+
+      expect(response.metadata).toEqual({ task_id: 'task-1' });
+    });
+
+    it('should keep concurrent requests apart', async () => {
+      await harness.connectAgent(bus, 'worker', answer);
+      const first = taskFor('worker');
+      const second = taskFor('worker');
+
+      const [firstResponse, secondResponse] = await Promise.all([bus.request(first, 2000), bus.request(second, 2000)]);
+
+      expect(firstResponse.payload.echo).toBe(first.message_id);
+      expect(secondResponse.payload.echo).toBe(second.message_id);
+    });
+
+    it('should resolve with an error reply', async () => {
+      await harness.connectAgent(bus, 'worker', fail);
+
+      const response = await bus.request(taskFor('worker'), 2000);
+
+      expect(response.message_type).toBe('error');
+      expect(response.payload.error).toBe('cannot do it');
+    });
+
+    it('should reject with a RequestTimeoutError and forget the request', async () => {
+      await harness.connectAgent(bus, 'worker');
+      const message = taskFor('worker');
+
+      const error = await bus.request(message, 50).catch(caught => caught);
+
+      expect(error).toBeInstanceOf(RequestTimeoutError);
+      expect(error).toMatchObject({ messageId: message.message_id, timeout: 50 });
+      expect(bus['pendingRequests'].size).toBe(0);
+    });
+
+    it('should default the wait to routing.timeout', async () => {
+      await harness.connectAgent(bus, 'worker');
+      const message = taskFor('worker', {
+        routing: MockDataGenerator.createMessageRouting({ timeout: '50ms' })
+      });
+
+      await expect(bus.request(message)).rejects.toMatchObject({ timeout: 50 });
+    });
+
+    it('should reject at once when the message cannot be delivered', async () => {
+      const message = taskFor('nobody');
+
+      await expect(bus.request(message, 2000)).rejects.toThrow(`Request ${message.message_id} could not be delivered`);
+      expect(bus['pendingRequests'].size).toBe(0);
+    });
+
+    it('should reject pending requests when the bus stops', async () => {
+      await harness.connectAgent(bus, 'worker');
+      const response = bus.request(taskFor('worker'), 2000);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      await bus.stop();
+
+      await expect(response).rejects.toThrow('Communication bus stopped');
+    });
+  });
+
+  describe('REST', () => {
+    it('should answer POST /messages/request with the reply', async () => {
+      await harness.connectAgent(bus, 'worker', answer);
+      const message = taskFor('worker');
+
+      const { status, body } = await harness.http(bus, 'POST', '/messages/request', message);
+
+      expect(status).toBe(200);
+      expect(body.success).toBe(true);
+      expect(body.response.metadata.correlation_id).toBe(message.message_id);
+    });
+
+    it('should report an error reply as unsuccessful', async () => {
+      await harness.connectAgent(bus, 'worker', fail);
+
+      const { status, body } = await harness.http(bus, 'POST', '/messages/request', taskFor('worker'));
+
+      expect(status).toBe(200);
+      expect(body.success).toBe(false);
+      expect(body.response.message_type).toBe('error');
+    });
+
+    it('should return 504 when no reply arrives within timeout_ms', async () => {
+      await harness.connectAgent(bus, 'worker');
+      const message = taskFor('worker');
+
+      const { status, body } = await harness.http(bus, 'POST', '/messages/request?timeout_ms=50', message);
+
+      expect(status).toBe(504);
+      expect(body).toEqual({ success: false, error: `Request ${message.message_id} timed out after 50ms` });
+    });
+
+    it('should return 400 when the message cannot be delivered', async () => {
+      const { status, body } = await harness.http(bus, 'POST', '/messages/request', taskFor('nobody'));
+
+      expect(status).toBe(400);
+      expect(body.success).toBe(false);
+    });
+
+    it('should wait for the reply on POST /messages/send with sync delivery', async () => {
+      await harness.connectAgent(bus, 'worker', answer);
+      const message = taskFor('worker', {
+        routing: MockDataGenerator.createMessageRouting({ delivery_mode: 'sync' })
+      });
+
+      const { status, body } = await harness.http(bus, 'POST', '/messages/send', message);
+
+      expect(status).toBe(200);
+      expect(body.response.payload.echo).toBe(message.message_id);
+    });
+
+    it('should return 504 on POST /messages/send with sync delivery and no reply', async () => {
+      await harness.connectAgent(bus, 'worker');
+      const message = taskFor('worker', {
+        routing: MockDataGenerator.createMessageRouting({ delivery_mode: 'sync' })
+      });
+
+      const { status } = await harness.http(bus, 'POST', '/messages/send?timeout_ms=50', message);
+
+      expect(status).toBe(504);
+    });
+
+    it('should not wait on POST /messages/send with async delivery', async () => {
+      await harness.connectAgent(bus, 'worker');
+
+      const { status, body } = await harness.http(bus, 'POST', '/messages/send', taskFor('worker'));
+
+      expect(status).toBe(200);
+      expect(body).toEqual({ success: true });
+    });
+  });
+});
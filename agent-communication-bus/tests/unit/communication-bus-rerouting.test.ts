@@ -0,0 +1,159 @@
+import WebSocket from 'ws';
+import { CommunicationBus } from '../../src/communication-bus';
+import { AgentMessage } from '../../src/types/protocol';
+import { LiveBusHarness, agentApiKey, replyTo, waitFor } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('CommunicationBus rerouting', () => {
+  let harness: LiveBusHarness;
+  let bus: CommunicationBus;
+  let rerouted: any[];
+  let sockets: WebSocket[];
+
+  beforeEach(async () => {
+    harness = new LiveBusHarness();
+    sockets = [];
+    bus = await harness.startBus({ ackTimeout: 50 });
+    rerouted = [];
+    bus.on('message_rerouted', event => rerouted.push(event));
+  });
+
+  afterEach(async () => {
+    sockets.forEach(socket => socket.terminate());
+    await harness.cleanup();
+  });
+
+  async function register(agentId: string): Promise<void> {
+    await bus.registerAgent(MockDataGenerator.createAgentRegistration({
+      agent_descriptor: MockDataGenerator.createAgentDescriptor({ agent_id: agentId }),
+      authentication: { type: 'api_key', credentials: agentApiKey(agentId) }
+    }));
+  }
+
+  /**
+   * Connect an agent that receives messages but never acknowledges them
+   */
+  async function connectSilently(agentId: string): Promise<void> {
+    await register(agentId);
+    const socket = new WebSocket(`${bus.getUrl()!.replace('http', 'ws')}?agent_id=${encodeURIComponent(agentId)}`, {
+      headers: { 'x-agent-api-key': agentApiKey(agentId) }
+    });
+    sockets.push(socket);
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve);
+      socket.once('error', reject);
+    });
+  }
+
+  function reviewFor(agentId: string, fallbackAgents: string[] = []): AgentMessage {
+    return MockDataGenerator.createTaskRequestMessage({
+      recipient: { agent_id: agentId, framework: 'test' },
+      routing: MockDataGenerator.createMessageRouting({
+        retry_policy: { max_retries: 0, backoff: 'linear' },
+        fallback_agents: fallbackAgents
+      })
+    });
+  }
+
+  it('should queue for an offline recipient instead of rerouting to a capable agent', async () => {
+    await register('primary');
+    const alternative = await harness.connectAgent(bus, 'alternative');
+    const queued: any[] = [];
+    bus.on('message_queued', event => queued.push(event));
+
+    expect(await bus.sendMessage(reviewFor('primary'))).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(queued.map(event => event.agent_id)).toEqual(['primary']);
+    expect(rerouted).toEqual([]);
+    expect(alternative.received).toEqual([]);
+  });
+
+  it('should hand an offline recipient\'s message to an explicit fallback agent', async () => {
+    await register('primary');
+    const backup = await harness.connectAgent(bus, 'backup');
+    const message = reviewFor('primary', ['backup']);
+
+    expect(await bus.sendMessage(message)).toBe(true);
+    await waitFor(() => backup.received.length === 1);
+
+    expect(rerouted).toEqual([expect.objectContaining({
+      message_id: message.message_id,
+      from: 'primary',
+      to: 'backup',
+      reason: 'Agent primary not connected'
+    })]);
+    expect(backup.received[0].metadata).toMatchObject({
+      original_recipient: 'primary',
+      final_recipient: 'backup',
+      reroute_count: 1,
+      reroute_reason: 'Agent primary not connected'
+    });
+  });
+
+  it('should reroute to a capable agent when the recipient replies with an error', async () => {
+    await harness.connectAgent(bus, 'primary', message => [
+      replyTo(message, 'error', { error: 'out of quota' })
+    ]);
+    const alternative = await harness.connectAgent(bus, 'alternative');
+    const message = reviewFor('primary');
+
+    await bus.sendMessage(message);
+    await waitFor(() => alternative.received.length === 1);
+
+    expect(rerouted).toEqual([expect.objectContaining({ from: 'primary', to: 'alternative', reason: 'out of quota' })]);
+    expect(alternative.received[0].message_id).toBe(message.message_id);
+    expect(alternative.received[0].metadata).toMatchObject({
+      original_recipient: 'primary',
+      final_recipient: 'alternative',
+      reroute_count: 1
+    });
+  });
+
+  it('should walk the fallback chain, explicit fallback agents first', async () => {
+    const failing = (message: AgentMessage) => [replyTo(message, 'error', { error: 'cannot do it' })];
+    await harness.connectAgent(bus, 'primary', failing);
+    await harness.connectAgent(bus, 'alternative');
+    const backup = await harness.connectAgent(bus, 'backup', failing);
+    const errors: any[] = [];
+    bus.on('error_received', event => errors.push(event));
+
+    await bus.sendMessage(reviewFor('primary', ['backup']));
+    await waitFor(() => rerouted.length === 2);
+
+    expect(rerouted.map(event => [event.from, event.to])).toEqual([
+      ['primary', 'backup'],
+      ['backup', 'alternative']
+    ]);
+    expect(backup.received).toHaveLength(1);
+    expect(rerouted[1].message.metadata).toMatchObject({ original_recipient: 'primary', reroute_count: 2 });
+    expect(errors).toEqual([]);
+  });
+
+  it('should reroute a message whose delivery failed', async () => {
+    await connectSilently('primary');
+    const alternative = await harness.connectAgent(bus, 'alternative');
+    const message = reviewFor('primary');
+
+    await bus.sendMessage(message);
+    await waitFor(() => alternative.received.length === 1);
+
+    expect(rerouted).toEqual([expect.objectContaining({ from: 'primary', to: 'alternative' })]);
+    expect(rerouted[0].reason).toMatch(/No acknowledgement/);
+    expect(bus.getDeadLetters()).toEqual([]);
+  });
+
+  it('should reroute a queued message that the recipient fails after reconnecting', async () => {
+    await register('primary');
+    const alternative = await harness.connectAgent(bus, 'alternative');
+    const message = reviewFor('primary');
+    await bus.sendMessage(message);
+
+    const primary = await harness.connectAgent(bus, 'primary', received => [replyTo(received, 'error', { error: 'busy' })]);
+    await waitFor(() => alternative.received.length === 1);
+
+    expect(primary.received.map(received => received.message_id)).toEqual([message.message_id]);
+
+    expect(rerouted).toEqual([expect.objectContaining({ message_id: message.message_id, from: 'primary', to: 'alternative' })]);
+  });
+});
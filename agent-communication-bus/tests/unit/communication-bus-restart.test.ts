@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CommunicationBus } from '../../src/communication-bus';
+import { FileSessionRepository } from '../../src/persistence/session-repository';
+import { CommunicationBusConfig, WorkflowStep } from '../../src/types/protocol';
+import { LiveBusHarness, RecordingAdapter, freePort, replyTo, waitFor } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('CommunicationBus restart', () => {
+  let harness: LiveBusHarness;
+  let directory: string;
+  let config: Partial<CommunicationBusConfig>;
+  let adapters: RecordingAdapter[];
+
+  beforeEach(async () => {
+    harness = new LiveBusHarness();
+    adapters = [];
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-bus-restart-'));
+    config = {
+      port: await freePort(),
+      persistenceEnabled: true,
+      persistenceDirectory: path.join(directory, 'queues'),
+      sessionStorePath: path.join(directory, 'sessions')
+    };
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.map(adapter => adapter.shutdown()));
+    await harness.cleanup();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  async function startAdapter(bus: CommunicationBus, agentId: string): Promise<RecordingAdapter> {
+    const adapter = new RecordingAdapter(agentId, bus.getUrl()!);
+    adapters.push(adapter);
+    await adapter.initialize();
+    return adapter;
+  }
+
+  it('should deliver a queued message to an adapter reconnecting to the restarted bus', async () => {
+    const first = await harness.startBus(config);
+    const adapter = await startAdapter(first, 'worker');
+    let disconnected = false;
+    first.on('agent_disconnected', () => { disconnected = true; });
+
+    adapter.dropConnection();
+    await waitFor(() => disconnected);
+    const message = MockDataGenerator.createAgentMessage({
+      recipient: { agent_id: 'worker', framework: 'test' }
+    });
+    expect(await first.sendMessage(message)).toBe(true);
+    await harness.stopBus(first);
+
+    const second = await harness.startBus(config);
+    expect(second.getAgent('worker')).toBeNull();
+
+    await waitFor(() => adapter.received.length === 1, 5000);
+    expect(adapter.received[0].message_id).toBe(message.message_id);
+    expect(second.getAgent('worker')).not.toBeNull();
+  });
+
+  it('should hold a restored workflow\'s task until its agent reconnects', async () => {
+    const orchestrator = 'claude-code://lead';
+    const worker = 'opencode://worker';
+    const steps: WorkflowStep[] = [
+      { name: 'build', description: 'Build', required_agents: [worker], estimated_duration: 60, outputs: [] }
+    ];
+    const retryOnce = { ...config, taskMaxRetries: 1 };
+    const first = await harness.startBus(retryOnce);
+    const stub = await harness.connectAgent(first, worker, message => [replyTo(message, 'error', { error: 'Crashed' })]);
+    const retryScheduled = new Promise(resolve => first.once('task_retry_scheduled', resolve));
+    first.createSession(orchestrator, [
+      MockDataGenerator.createAgentParticipant({ agent_id: worker, role: 'implementer' })
+    ], steps, { startWorkflow: true });
+    await retryScheduled;
+    await stub.close();
+    await harness.stopBus(first);
+
+    // The retry comes due before the worker is back
+    const second = await harness.startBus(retryOnce);
+    const held: any[] = [];
+    const failed = jest.fn();
+    second.on('task_held', event => held.push(event));
+    second.on('workflow_failed', failed);
+    await new Promise(resolve => second.once('task_retry', resolve));
+    expect(held).toEqual([expect.objectContaining({ agent_id: worker })]);
+
+    const adapter = await startAdapter(second, worker);
+    await waitFor(() => adapter.received.length === 1);
+
+    expect(adapter.received[0]).toMatchObject({
+      message_type: 'task_request',
+      metadata: { task_id: held[0].task_id, attempt: 2, workflow_step: 'build' }
+    });
+    expect(failed).not.toHaveBeenCalled();
+  });
+
+  it('should keep a restored session older than an hour within the configured session timeout', async () => {
+    const first = await harness.startBus(config);
+    const sessionId = first.createSession('claude-code://lead', [
+      MockDataGenerator.createAgentParticipant({ agent_id: 'opencode://worker', role: 'implementer' })
+    ]);
+    await harness.stopBus(first);
+    // The run started three hours before the restart
+    const repository = new FileSessionRepository(config.sessionStorePath!);
+    const [stored] = (await repository.loadAll()).sessions;
+    await repository.saveSession({ ...stored!, created_at: new Date(Date.now() - 3 * 3600000).toISOString() });
+
+    const second = await harness.startBus({ ...config, sessionTimeout: 8 * 3600000 });
+    const sessionManager = second['sessionManager'];
+    sessionManager['cleanupExpiredSessions']();
+
+    expect(sessionManager.getSession(sessionId)!.terminated_at).toBeUndefined();
+    expect(sessionManager.getActiveSessions().map(session => session.sessionId)).toEqual([sessionId]);
+  });
+
+  it('should not reconnect after the adapter shuts down', async () => {
+    const bus = await harness.startBus(config);
+    const adapter = await startAdapter(bus, 'worker');
+    const connects: string[] = [];
+    bus.on('agent_connected', ({ agent_id }) => connects.push(agent_id));
+
+    await adapter.shutdown();
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(adapter.isAgentConnected()).toBe(false);
+    expect(connects).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+import { CommunicationBus } from '../../src/communication-bus';
+import { WorkflowStep } from '../../src/types/protocol';
+import { LiveBusHarness, waitFor } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('CommunicationBus task retries', () => {
+  const orchestrator = 'claude-code://lead';
+  const worker = 'opencode://worker';
+  let harness: LiveBusHarness;
+  let bus: CommunicationBus;
+
+  beforeEach(async () => {
+    harness = new LiveBusHarness();
+    bus = await harness.startBus({ taskMaxRetries: 1 });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it('should cancel a timed-out attempt before dispatching the retry', async () => {
+    const steps: WorkflowStep[] = [
+      { name: 'build', description: 'Build', required_agents: [worker], estimated_duration: 1, timeout: 0.1, outputs: [] }
+    ];
+    await harness.connectAgent(bus, orchestrator);
+    const connection = await harness.connectAgent(bus, worker);
+
+    bus.createSession(orchestrator, [
+      MockDataGenerator.createAgentParticipant({ agent_id: worker, role: 'implementer' })
+    ], steps, { startWorkflow: true });
+    await waitFor(() => connection.received.length === 3, 3000);
+
+    const [first, cancel, retry] = connection.received;
+    expect(connection.received.map(message => message.message_type)).toEqual(['task_request', 'cancel', 'task_request']);
+    expect(cancel!.payload).toEqual({ task_id: first!.metadata!.task_id, reason: 'Task timed out' });
+    expect(retry!.metadata).toMatchObject({ task_id: first!.metadata!.task_id, attempt: 2 });
+  });
+});
@@ -0,0 +1,102 @@
+import { CommunicationBus } from '../../src/communication-bus';
+import { TaskDelegation } from '../../src/session-manager';
+import { AgentMessage, WorkflowStep } from '../../src/types/protocol';
+import { LiveBusHarness, replyTo, waitFor } from '../utils/live-bus';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('CommunicationBus task replies', () => {
+  const orchestrator = 'claude-code://lead';
+  const worker = 'opencode://worker';
+  let harness: LiveBusHarness;
+  let bus: CommunicationBus;
+
+  beforeEach(async () => {
+    harness = new LiveBusHarness();
+    bus = await harness.startBus();
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  const answer = (message: AgentMessage) =>
+    message.message_type === 'task_request' ? [replyTo(message, 'task_response', { result: 'done' })] : [];
+
+  /**
+   * Start a one-step workflow for the worker and resolve with its task
+   */
+  async function startTask(step: Partial<WorkflowStep> = {}): Promise<TaskDelegation> {
+    const delegated = new Promise<TaskDelegation>(resolve =>
+      bus.once('workflow_step_started', ({ tasks }) => resolve(tasks[0])));
+    bus.createSession(orchestrator, [
+      MockDataGenerator.createAgentParticipant({ agent_id: worker, role: 'implementer' })
+    ], [{ name: 'build', description: 'Build', required_agents: [worker], estimated_duration: 60, outputs: [], ...step }], {
+      startWorkflow: true
+    });
+    return delegated;
+  }
+
+  const statusOf = (task: TaskDelegation) => bus['sessionManager'].getTaskDelegation(task.taskId)!.status;
+
+  it('should not let another agent complete a task', async () => {
+    const connection = await harness.connectAgent(bus, worker);
+    const intruder = await harness.connectAgent(bus, 'codex://intruder');
+    const ignored: any[] = [];
+    bus.on('task_reply_ignored', event => ignored.push(event));
+    const task = await startTask();
+    await waitFor(() => connection.received.length === 1);
+
+    intruder.deliver(replyTo({
+      ...connection.received[0]!,
+      recipient: { agent_id: 'codex://intruder', framework: 'codex' }
+    }, 'task_response', { result: 'forged' }));
+    await waitFor(() => ignored.length === 1);
+
+    expect(ignored[0].task_id).toBe(task.taskId);
+    expect(statusOf(task)).toBe('pending');
+
+    connection.deliver(replyTo(connection.received[0]!, 'task_response', { result: 'done' }));
+    await waitFor(() => statusOf(task) === 'completed');
+  });
+
+  it('should ignore a reply for a task that already timed out', async () => {
+    const connection = await harness.connectAgent(bus, worker);
+    const task = await startTask({ timeout: 0.05 });
+    await waitFor(() => statusOf(task) === 'timeout');
+
+    connection.deliver(replyTo(connection.received[0]!, 'task_response', { result: 'late' }));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(statusOf(task)).toBe('timeout');
+  });
+
+  it('should ignore a late reply to an attempt that was retried', async () => {
+    bus = await harness.startBus({ taskMaxRetries: 1 });
+    // The worker gives up on its first attempt, then answers it anyway after the retry arrived
+    const connection = await harness.connectAgent(bus, worker, message =>
+      message.metadata?.attempt === 1 ? [replyTo(message, 'error', { error: 'Crashed' })] : []);
+    const ignored: any[] = [];
+    bus.on('task_reply_ignored', event => ignored.push(event));
+    const task = await startTask();
+    await waitFor(() => connection.received.length === 2, 3000);
+    const [first, retry] = connection.received;
+
+    connection.deliver(replyTo(first!, 'task_response', { result: 'late' }));
+    await waitFor(() => ignored.length === 1);
+    expect(statusOf(task)).toBe('pending');
+
+    connection.deliver(replyTo(retry!, 'task_response', { result: 'done' }));
+    await waitFor(() => statusOf(task) === 'completed');
+  });
+
+  it('should accept the reply of the agent a task was rerouted to', async () => {
+    await harness.connectAgent(bus, worker, message =>
+      message.message_type === 'task_request' ? [replyTo(message, 'error', { error: 'out of quota' })] : []);
+    await harness.connectAgent(bus, 'codex://backup', answer);
+    // Both stub agents can review code, so the backup is a fallback for the worker
+    const task = await startTask({ name: 'code_review' });
+
+    await waitFor(() => statusOf(task) === 'completed');
+    expect(bus['sessionManager'].getTaskDelegation(task.taskId)!.delegatee).toBe('codex://backup');
+  });
+});
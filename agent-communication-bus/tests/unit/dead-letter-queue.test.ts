@@ -0,0 +1,87 @@
+import { DeadLetterQueue } from '../../src/dead-letter-queue';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('DeadLetterQueue', () => {
+  let deadLetterQueue: DeadLetterQueue;
+
+  beforeEach(() => {
+    MockDataGenerator.reset();
+    deadLetterQueue = new DeadLetterQueue(3);
+  });
+
+  describe('Adding dead letters', () => {
+    it('should capture the message, error and attempt history', () => {
+      const message = MockDataGenerator.createAgentMessage();
+      deadLetterQueue.recordAttempt(message.message_id, {
+        agent_id: message.recipient.agent_id,
+        outcome: 'redelivered',
+        error: 'No acknowledgement'
+      });
+
+      const deadLetter = deadLetterQueue.add(message, 'Retries exhausted', {
+        agent_id: message.recipient.agent_id,
+        outcome: 'delivery_failed',
+        error: 'Retries exhausted'
+      });
+
+      expect(deadLetter.dead_letter_id).toMatch(/^dl_\d+_[a-f0-9]{8}$/);
+      expect(deadLetter.message).toBe(message);
+      expect(deadLetter.error).toBe('Retries exhausted');
+      expect(deadLetter.attempts.map(a => a.outcome)).toEqual(['redelivered', 'delivery_failed']);
+      expect(deadLetter.replay_count).toBe(0);
+    });
+
+    it('should not carry history for delivered messages', () => {
+      const message = MockDataGenerator.createAgentMessage();
+      deadLetterQueue.recordAttempt(message.message_id, {
+        agent_id: message.recipient.agent_id,
+        outcome: 'rerouted'
+      });
+      deadLetterQueue.clearAttempts(message.message_id);
+
+      const deadLetter = deadLetterQueue.add(message, 'Routing failed', {
+        agent_id: message.recipient.agent_id,
+        outcome: 'routing_failed'
+      });
+
+      expect(deadLetter.attempts).toHaveLength(1);
+    });
+
+    it('should evict the oldest entries beyond the cap', () => {
+      const messages = MockDataGenerator.createMessageSequence(4);
+      const ids = messages.map(message => deadLetterQueue.add(message, 'failed', {
+        agent_id: message.recipient.agent_id,
+        outcome: 'routing_failed'
+      }).dead_letter_id);
+
+      expect(deadLetterQueue.size()).toBe(3);
+      expect(deadLetterQueue.get(ids[0])).toBeNull();
+      expect(deadLetterQueue.get(ids[3])).not.toBeNull();
+    });
+  });
+
+  describe('Inspection', () => {
+    it('should filter dead letters by recipient', () => {
+      const [first, second] = MockDataGenerator.createMessageSequence(2);
+      deadLetterQueue.add(first, 'failed', { agent_id: first.recipient.agent_id, outcome: 'routing_failed' });
+      deadLetterQueue.add(second, 'failed', { agent_id: second.recipient.agent_id, outcome: 'routing_failed' });
+
+      const filtered = deadLetterQueue.list({ agentId: first.recipient.agent_id });
+
+      expect(filtered).toHaveLength(1);
+      expect(filtered[0].message.message_id).toBe(first.message_id);
+    });
+
+    it('should remove dead letters by ID', () => {
+      const message = MockDataGenerator.createAgentMessage();
+      const { dead_letter_id } = deadLetterQueue.add(message, 'failed', {
+        agent_id: message.recipient.agent_id,
+        outcome: 'routing_failed'
+      });
+
+      expect(deadLetterQueue.remove(dead_letter_id)).toBe(true);
+      expect(deadLetterQueue.remove(dead_letter_id)).toBe(false);
+      expect(deadLetterQueue.list()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { DeliveryTracker, isDeliveryFrame } from '../../src/delivery-tracker';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('DeliveryTracker', () => {
+  const agentId = 'opencode://code-reviewer';
+  let transmit: jest.Mock;
+  let tracker: DeliveryTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockDataGenerator.reset();
+    transmit = jest.fn().mockReturnValue(true);
+    tracker = new DeliveryTracker(transmit, {
+      ackTimeout: 1000,
+      baseRetryDelay: 100,
+      maxRetryDelay: 1000
+    });
+  });
+
+  afterEach(() => {
+    tracker.clear();
+    jest.useRealTimers();
+  });
+
+  describe('Acknowledgement', () => {
+    it('should stop tracking a message once acknowledged', () => {
+      const message = MockDataGenerator.createAgentMessage();
+      const ackSpy = jest.fn();
+      tracker.on('message_acknowledged', ackSpy);
+
+      tracker.track(agentId, message);
+      const handled = tracker.handleFrame(agentId, { frame_type: 'ack', message_id: message.message_id });
+
+      expect(handled).toBe(true);
+      expect(tracker.getPending(agentId)).toHaveLength(0);
+      expect(ackSpy).toHaveBeenCalledWith(expect.objectContaining({
+        agent_id: agentId,
+        message_id: message.message_id,
+        attempts: 1
+      }));
+    });
+
+    it('should ignore acknowledgements for unknown messages', () => {
+      expect(tracker.acknowledge(agentId, 'msg_unknown')).toBe(false);
+    });
+  });
+
+  describe('Redelivery', () => {
+    it('should redeliver after the ack timeout using the retry backoff', () => {
+      const message = MockDataGenerator.createAgentMessage({
+        routing: MockDataGenerator.createMessageRouting({
+          retry_policy: { max_retries: 2, backoff: 'exponential' }
+        })
+      });
+
+      tracker.track(agentId, message);
+      jest.advanceTimersByTime(1000);
+      expect(transmit).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(100);
+      expect(transmit).toHaveBeenCalledWith(agentId, message);
+      expect(tracker.getPending(agentId)[0].attempts).toBe(2);
+    });
+
+    it('should redeliver promptly on nack', () => {
+      const message = MockDataGenerator.createAgentMessage();
+      tracker.track(agentId, message);
+
+      tracker.handleFrame(agentId, { frame_type: 'nack', message_id: message.message_id, reason: 'busy' });
+      jest.advanceTimersByTime(100);
+
+      expect(transmit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit delivery_failed once retries are exhausted', () => {
+      const failedSpy = jest.fn();
+      tracker.on('delivery_failed', failedSpy);
+      const message = MockDataGenerator.createAgentMessage({
+        routing: MockDataGenerator.createMessageRouting({
+          retry_policy: { max_retries: 1, backoff: 'linear' }
+        })
+      });
+
+      tracker.track(agentId, message);
+      jest.advanceTimersByTime(1000 + 100 + 1000);
+
+      expect(transmit).toHaveBeenCalledTimes(1);
+      expect(failedSpy).toHaveBeenCalledWith(expect.objectContaining({
+        agent_id: agentId,
+        attempts: 2
+      }));
+      expect(tracker.getPendingCount()).toBe(0);
+    });
+
+    it('should defer redelivery when the agent is no longer connected', () => {
+      const deferredSpy = jest.fn();
+      tracker.on('delivery_deferred', deferredSpy);
+      transmit.mockReturnValue(false);
+
+      tracker.track(agentId, MockDataGenerator.createAgentMessage());
+      jest.advanceTimersByTime(2000);
+
+      expect(deferredSpy).toHaveBeenCalled();
+      expect(tracker.getPending(agentId)).toHaveLength(0);
+    });
+  });
+
+  describe('Retry delay', () => {
+    it('should grow linearly or exponentially and respect the cap', () => {
+      expect(tracker.getRetryDelay({ max_retries: 5, backoff: 'linear' }, 3)).toBe(300);
+      expect(tracker.getRetryDelay({ max_retries: 5, backoff: 'exponential' }, 3)).toBe(400);
+      expect(tracker.getRetryDelay({ max_retries: 5, backoff: 'exponential' }, 10)).toBe(1000);
+    });
+  });
+
+  describe('Release', () => {
+    it('should return unacknowledged messages in send order', () => {
+      const [first, second] = MockDataGenerator.createMessageSequence(2);
+      tracker.track(agentId, first);
+      jest.advanceTimersByTime(10);
+      tracker.track(agentId, second);
+
+      const released = tracker.release(agentId);
+
+      expect(released.map(m => m.message_id)).toEqual([first.message_id, second.message_id]);
+      expect(tracker.getPendingCount()).toBe(0);
+    });
+  });
+
+  describe('isDeliveryFrame', () => {
+    it('should distinguish delivery frames from agent messages', () => {
+      expect(isDeliveryFrame({ frame_type: 'ack', message_id: 'msg_1' })).toBe(true);
+      expect(isDeliveryFrame(MockDataGenerator.createAgentMessage())).toBe(false);
+    });
+  });
+});
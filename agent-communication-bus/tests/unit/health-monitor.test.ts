@@ -0,0 +1,123 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { HealthMonitor } from '../../src/health-monitor';
+
+describe('HealthMonitor', () => {
+  const agentId = 'opencode://code-reviewer';
+  let server: Server;
+  let healthUrl: string;
+  let responseStatus: number;
+  let healthMonitor: HealthMonitor;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      res.statusCode = responseStatus;
+      res.end('{}');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    healthUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/health`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    responseStatus = 200;
+    healthMonitor = new HealthMonitor(
+      { checkInterval: 60000, heartbeatInterval: 1000, failureThreshold: 2 },
+      () => 2
+    );
+  });
+
+  afterEach(() => {
+    healthMonitor.stop();
+  });
+
+  describe('Probing', () => {
+    it('should report a healthy agent when the health URL responds', async () => {
+      healthMonitor.register(agentId, healthUrl);
+
+      const health = await healthMonitor.checkAgent(agentId);
+
+      expect(health).toEqual(expect.objectContaining({
+        agent_id: agentId,
+        status: 'healthy',
+        error_rate: 0,
+        active_sessions: 2
+      }));
+      expect(health!.response_time).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should degrade then mark unhealthy after consecutive failures', async () => {
+      responseStatus = 503;
+      healthMonitor.register(agentId, healthUrl);
+
+      expect((await healthMonitor.checkAgent(agentId))!.status).toBe('degraded');
+      const health = await healthMonitor.checkAgent(agentId);
+
+      expect(health!.status).toBe('unhealthy');
+      expect(health!.error_rate).toBe(1);
+    });
+
+    it('should emit health_changed only when the status changes', async () => {
+      const changedSpy = jest.fn();
+      healthMonitor.on('health_changed', changedSpy);
+      healthMonitor.register(agentId, healthUrl);
+
+      await healthMonitor.checkAgent(agentId);
+      await healthMonitor.checkAgent(agentId);
+
+      expect(changedSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat unreachable URLs as failures', async () => {
+      healthMonitor.register(agentId, 'http://127.0.0.1:1/health');
+
+      await healthMonitor.checkAgent(agentId);
+      const health = await healthMonitor.checkAgent(agentId);
+
+      expect(health!.status).toBe('unhealthy');
+    });
+  });
+
+  describe('Heartbeats', () => {
+    it('should keep a failing probe at degraded while heartbeats are fresh', async () => {
+      responseStatus = 500;
+      healthMonitor.register(agentId, healthUrl);
+      healthMonitor.recordHeartbeat(agentId, { cpu: 0.5, memory: 1024 });
+
+      await healthMonitor.checkAgent(agentId);
+      const health = await healthMonitor.checkAgent(agentId);
+
+      expect(health!.status).toBe('degraded');
+      expect(health!.resource_usage).toEqual({ cpu: 0.5, memory: 1024 });
+    });
+
+    it('should mark an agent unhealthy when heartbeats stop without a probe URL', async () => {
+      const now = Date.now();
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      healthMonitor.register(agentId, '');
+      healthMonitor.recordHeartbeat(agentId);
+
+      nowSpy.mockReturnValue(now + 5000);
+      const health = await healthMonitor.checkAgent(agentId);
+
+      expect(health!.status).toBe('unhealthy');
+    });
+  });
+
+  describe('Registration', () => {
+    it('should return null for agents that are not monitored', async () => {
+      expect(healthMonitor.getHealth(agentId)).toBeNull();
+      expect(await healthMonitor.checkAgent(agentId)).toBeNull();
+    });
+
+    it('should stop reporting once an agent is unregistered', () => {
+      healthMonitor.register(agentId, healthUrl);
+      healthMonitor.unregister(agentId);
+
+      expect(healthMonitor.getHealth(agentId)).toBeNull();
+    });
+  });
+});
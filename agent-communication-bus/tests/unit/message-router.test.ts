@@ -390,6 +390,43 @@ describe('MessageRouter', () => {
     });
   });
 
+  describe('Alternatives', () => {
+    it('should list agents able to handle the task type except the recipient', () => {
+      const agents = Array.from(registeredAgents.values());
+      const message = MockDataGenerator.createAgentMessage({
+        recipient: {
+          agent_id: agents[0].agent_id,
+          framework: agents[0].framework
+        },
+        payload: { task_type: 'code_review' }
+      });
+
+      const alternatives = messageRouter.getAlternatives(message);
+
+      expect(alternatives).toHaveLength(agents.length - 1);
+      expect(alternatives).not.toContain(agents[0].agent_id);
+    });
+
+    it('should exclude unhealthy agents', () => {
+      const agents = Array.from(registeredAgents.values());
+      messageRouter.updateAgentHealth(agents[1].agent_id, false);
+
+      const alternatives = messageRouter.getAlternatives(MockDataGenerator.createAgentMessage({
+        payload: { task_type: 'code_review' }
+      }));
+
+      expect(alternatives).not.toContain(agents[1].agent_id);
+    });
+
+    it('should return no alternatives when nothing matches', () => {
+      const message = MockDataGenerator.createAgentMessage({
+        payload: { task_type: 'unsupported_task' }
+      });
+
+      expect(messageRouter.getAlternatives(message)).toEqual([]);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle malformed routing information', () => {
       const messageWithBadRouting = MockDataGenerator.createAgentMessage({
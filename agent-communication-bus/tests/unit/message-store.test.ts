@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  InMemoryMessageStore,
+  FileMessageStore,
+  createMessageStore
+} from '../../src/persistence/message-store';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('MessageStore', () => {
+  const agentId = 'opencode://code-reviewer';
+
+  beforeEach(() => {
+    MockDataGenerator.reset();
+  });
+
+  describe('InMemoryMessageStore', () => {
+    let store: InMemoryMessageStore;
+
+    beforeEach(() => {
+      store = new InMemoryMessageStore(3);
+    });
+
+    it('should drain messages in enqueue order', async () => {
+      const messages = MockDataGenerator.createMessageSequence(3);
+      for (const message of messages) {
+        await store.enqueue(agentId, message);
+      }
+
+      const drained = await store.drain(agentId);
+
+      expect(drained.map(m => m.message_id)).toEqual(messages.map(m => m.message_id));
+      expect(await store.size(agentId)).toBe(0);
+    });
+
+    it('should drop the oldest messages when the cap is exceeded', async () => {
+      const messages = MockDataGenerator.createMessageSequence(5);
+      for (const message of messages) {
+        await store.enqueue(agentId, message);
+      }
+
+      const queued = await store.peek(agentId);
+
+      expect(queued).toHaveLength(3);
+      expect(queued[0].message_id).toBe(messages[2].message_id);
+    });
+
+    it('should keep queues separate per agent', async () => {
+      await store.enqueue(agentId, MockDataGenerator.createAgentMessage());
+      await store.enqueue('codex://frontend-developer', MockDataGenerator.createAgentMessage());
+
+      await store.clear(agentId);
+
+      expect(await store.size(agentId)).toBe(0);
+      expect(await store.size('codex://frontend-developer')).toBe(1);
+    });
+  });
+
+  describe('FileMessageStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'message-store-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should restore queued messages after a restart', async () => {
+      const messages = MockDataGenerator.createMessageSequence(2);
+      const store = new FileMessageStore(directory);
+      for (const message of messages) {
+        await store.enqueue(agentId, message);
+      }
+      await store.close();
+
+      const restarted = new FileMessageStore(directory);
+      const drained = await restarted.drain(agentId);
+
+      expect(drained.map(m => m.message_id)).toEqual(messages.map(m => m.message_id));
+      expect(await new FileMessageStore(directory).size(agentId)).toBe(0);
+    });
+
+    it('should remove the agent file once the queue is drained', async () => {
+      const store = new FileMessageStore(directory);
+      await store.enqueue(agentId, MockDataGenerator.createAgentMessage());
+      await store.drain(agentId);
+      await store.close();
+
+      expect(fs.readdirSync(directory)).toHaveLength(0);
+    });
+  });
+
+  describe('createMessageStore', () => {
+    it('should select the in-memory store when persistence is disabled', () => {
+      const config = MockDataGenerator.createCommunicationBusConfig({ persistenceEnabled: false });
+      expect(createMessageStore(config)).toBeInstanceOf(InMemoryMessageStore);
+      expect(createMessageStore(config)).not.toBeInstanceOf(FileMessageStore);
+    });
+
+    it('should select the file store when persistence is enabled', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'message-store-'));
+      const config = MockDataGenerator.createCommunicationBusConfig({
+        persistenceEnabled: true,
+        persistenceDirectory: directory
+      });
+
+      expect(createMessageStore(config)).toBeInstanceOf(FileMessageStore);
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+  });
+});
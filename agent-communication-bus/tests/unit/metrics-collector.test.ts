@@ -0,0 +1,109 @@
+import { MetricsCollector } from '../../src/metrics-collector';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('MetricsCollector', () => {
+  let metricsCollector: MetricsCollector;
+  let now: number;
+  let nowSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    MockDataGenerator.reset();
+    now = Date.now();
+    nowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    metricsCollector = new MetricsCollector({ windowSize: 10000 });
+  });
+
+  afterEach(() => {
+    nowSpy.mockRestore();
+  });
+
+  describe('Error rate and throughput', () => {
+    it('should report zeros when nothing has been recorded', () => {
+      expect(metricsCollector.snapshot()).toEqual({
+        error_rate: 0,
+        throughput: 0,
+        average_response_time: 0,
+        by_agent: {},
+        by_task_type: {}
+      });
+    });
+
+    it('should compute error rate and throughput over the window', () => {
+      const messages = MockDataGenerator.createMessageSequence(4);
+      messages.forEach(message => metricsCollector.recordMessage(message));
+      metricsCollector.recordFailure(messages[0]);
+
+      const snapshot = metricsCollector.snapshot();
+
+      expect(snapshot.error_rate).toBe(0.25);
+      expect(snapshot.throughput).toBe(0.4);
+    });
+
+    it('should drop events that fall outside the window', () => {
+      const message = MockDataGenerator.createAgentMessage();
+      metricsCollector.recordMessage(message);
+      metricsCollector.recordFailure(message);
+
+      now += 10001;
+
+      expect(metricsCollector.snapshot().error_rate).toBe(0);
+      expect(metricsCollector.snapshot().throughput).toBe(0);
+    });
+  });
+
+  describe('Response times', () => {
+    it('should measure latency between a request and its correlated reply', () => {
+      const request = MockDataGenerator.createAgentMessage({ message_type: 'task_request' });
+      metricsCollector.recordMessage(request);
+
+      now += 250;
+      const latency = metricsCollector.recordResponse(MockDataGenerator.createAgentMessage({
+        message_type: 'task_response',
+        sender: request.recipient,
+        recipient: request.sender,
+        metadata: { correlation_id: request.message_id }
+      }));
+
+      expect(latency).toBe(250);
+      expect(metricsCollector.snapshot().average_response_time).toBe(250);
+    });
+
+    it('should ignore replies without a matching request', () => {
+      const reply = MockDataGenerator.createAgentMessage({
+        message_type: 'task_response',
+        metadata: { correlation_id: 'msg_unknown' }
+      });
+
+      expect(metricsCollector.recordResponse(reply)).toBeNull();
+      expect(metricsCollector.snapshot().average_response_time).toBe(0);
+    });
+  });
+
+  describe('Breakdowns', () => {
+    it('should group metrics by recipient agent and task type', () => {
+      const review = MockDataGenerator.createAgentMessage({
+        recipient: { agent_id: 'opencode://code-reviewer', framework: 'opencode' },
+        payload: { task_type: 'code_review' }
+      });
+      const untyped = MockDataGenerator.createAgentMessage({
+        recipient: { agent_id: 'codex://frontend', framework: 'codex' },
+        payload: { data: {} }
+      });
+
+      metricsCollector.recordMessage(review);
+      metricsCollector.recordMessage(untyped);
+      metricsCollector.recordFailure(untyped);
+
+      const snapshot = metricsCollector.snapshot();
+
+      expect(snapshot.by_agent['opencode://code-reviewer']).toEqual(expect.objectContaining({
+        messages: 1,
+        failures: 0,
+        error_rate: 0
+      }));
+      expect(snapshot.by_agent['codex://frontend'].error_rate).toBe(1);
+      expect(snapshot.by_task_type.code_review.messages).toBe(1);
+      expect(snapshot.by_task_type.unknown.failures).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PolicyEngine } from '../../src/auth/policy-engine';
+import { loadConfiguration } from '../../src/config/config-loader';
+import { AuthorizationPolicy } from '../../src/types/protocol';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('PolicyEngine', () => {
+  const sessionId = 'sess_1';
+  const roles: Record<string, string[]> = {
+    'codex://observer': ['observer'],
+    'codex://frontend': ['implementer'],
+    'claude-code://orchestrator': ['orchestrator']
+  };
+
+  const policy: AuthorizationPolicy = {
+    defaultEffect: 'allow',
+    rules: [
+      {
+        id: 'observers_read_only',
+        effect: 'deny',
+        description: 'Observers may not delegate tasks',
+        messageTypes: ['task_request'],
+        sessionRoles: ['observer']
+      },
+      {
+        id: 'trusted_bypass',
+        effect: 'allow',
+        senders: ['claude-code://orchestrator'],
+        recipients: ['claude-code://*']
+      },
+      {
+        id: 'no_untrusted_bypass',
+        effect: 'deny',
+        recipients: ['claude-code://*'],
+        messageTypes: ['task_request'],
+        payload: { permission_mode: 'bypassPermissions' }
+      }
+    ]
+  };
+
+  let policyEngine: PolicyEngine;
+
+  const createMessage = (senderId: string, recipientId: string, payload: Record<string, unknown> = {}) =>
+    MockDataGenerator.createAgentMessage({
+      sender: { agent_id: senderId, framework: senderId.split('://')[0], session_id: sessionId },
+      recipient: { agent_id: recipientId, framework: recipientId.split('://')[0] },
+      payload: { task_type: 'code_review', ...payload }
+    });
+
+  beforeEach(() => {
+    MockDataGenerator.reset();
+    policyEngine = new PolicyEngine(policy, agentId => roles[agentId] || []);
+  });
+
+  describe('Evaluation', () => {
+    it('should deny task requests from observers', () => {
+      const decision = policyEngine.evaluate(createMessage('codex://observer', 'opencode://reviewer'));
+
+      expect(decision).toEqual({
+        allowed: false,
+        rule_id: 'observers_read_only',
+        reason: 'Observers may not delegate tasks'
+      });
+    });
+
+    it('should deny task requests from observers that leave out session_id', () => {
+      const message = createMessage('codex://observer', 'opencode://reviewer');
+      delete message.sender.session_id;
+
+      expect(policyEngine.evaluate(message).rule_id).toBe('observers_read_only');
+    });
+
+    it('should deny task requests from observers that name a session where they hold another role', () => {
+      policyEngine = new PolicyEngine(policy, agentId => agentId === 'codex://observer' ? ['observer', 'orchestrator'] : []);
+      const message = createMessage('codex://observer', 'opencode://reviewer');
+      message.sender.session_id = 'sess_2';
+
+      expect(policyEngine.evaluate(message).rule_id).toBe('observers_read_only');
+    });
+
+    it('should match deny rules for agents without a session role', () => {
+      const decision = policyEngine.evaluate(createMessage('codex://stranger', 'opencode://reviewer'));
+
+      expect(decision.rule_id).toBe('observers_read_only');
+    });
+
+    it('should match allow rules only when every session role of the sender is listed', () => {
+      const orchestratorsOnly: AuthorizationPolicy = {
+        defaultEffect: 'deny',
+        rules: [{ id: 'orchestrators', effect: 'allow', sessionRoles: ['orchestrator'] }]
+      };
+      const decide = (senderRoles: string[]) =>
+        new PolicyEngine(orchestratorsOnly, () => senderRoles).evaluate(createMessage('codex://agent', 'opencode://reviewer'));
+
+      expect(decide(['orchestrator']).allowed).toBe(true);
+      expect(decide(['observer', 'orchestrator']).allowed).toBe(false);
+      expect(decide([]).allowed).toBe(false);
+    });
+
+    it('should let observers send other message types', () => {
+      const message = createMessage('codex://observer', 'opencode://reviewer');
+      message.message_type = 'status_update';
+
+      expect(policyEngine.evaluate(message).allowed).toBe(true);
+    });
+
+    it('should deny bypassPermissions delegation from untrusted agents', () => {
+      const decision = policyEngine.evaluate(createMessage('codex://frontend', 'claude-code://backend', {
+        permission_mode: 'bypassPermissions'
+      }));
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.rule_id).toBe('no_untrusted_bypass');
+    });
+
+    it('should apply the first matching rule', () => {
+      const decision = policyEngine.evaluate(createMessage('claude-code://orchestrator', 'claude-code://backend', {
+        permission_mode: 'bypassPermissions'
+      }));
+
+      expect(decision).toEqual(expect.objectContaining({ allowed: true, rule_id: 'trusted_bypass' }));
+    });
+
+    it('should fall back to the default effect', () => {
+      const message = createMessage('codex://frontend', 'opencode://reviewer');
+
+      expect(policyEngine.evaluate(message)).toEqual({ allowed: true, reason: 'Allowed by default policy' });
+
+      policyEngine.setPolicy({ defaultEffect: 'deny', rules: [] });
+      expect(policyEngine.evaluate(message).allowed).toBe(false);
+    });
+
+    it('should match task types', () => {
+      policyEngine.setPolicy({
+        defaultEffect: 'allow',
+        rules: [{ id: 'no_deploys', effect: 'deny', taskTypes: ['deploy_*'] }]
+      });
+
+      expect(policyEngine.evaluate(createMessage('codex://frontend', 'opencode://reviewer', {
+        task_type: 'deploy_production'
+      })).allowed).toBe(false);
+      expect(policyEngine.evaluate(createMessage('codex://frontend', 'opencode://reviewer')).allowed).toBe(true);
+    });
+  });
+
+  describe('Loading from configuration', () => {
+    let configDir: string;
+
+    beforeEach(() => {
+      configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-bus-policy-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    });
+
+    const writeConfig = (authorization: unknown) => {
+      fs.writeFileSync(path.join(configDir, 'default.json'), JSON.stringify({
+        bus: {},
+        security: { apiKey: 'key', authorization }
+      }));
+    };
+
+    it('should load the policy onto the bus configuration', () => {
+      writeConfig({ defaultEffect: 'deny', rules: policy.rules });
+
+      const config = loadConfiguration({ configDir, env: 'development' });
+
+      expect(config.bus.authorization).toEqual({ defaultEffect: 'deny', rules: policy.rules });
+      expect(config.security.authorization).toEqual(config.bus.authorization);
+    });
+
+    it('should reject rules with an invalid effect', () => {
+      writeConfig({ rules: [{ id: 'broken', effect: 'maybe' }] });
+
+      expect(() => loadConfiguration({ configDir, env: 'development' }))
+        .toThrow("security.authorization.rules[0].effect must be 'allow' or 'deny'");
+    });
+
+    it('should reject unknown message types', () => {
+      writeConfig({ rules: [{ id: 'typo', effect: 'deny', messageTypes: ['task_requests'] }] });
+
+      expect(() => loadConfiguration({ configDir, env: 'development' }))
+        .toThrow("unknown message type 'task_requests'");
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { PrometheusExporter } from '../../src/prometheus-exporter';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('PrometheusExporter', () => {
+  let exporter: PrometheusExporter;
+
+  beforeEach(() => {
+    MockDataGenerator.reset();
+    exporter = new PrometheusExporter();
+  });
+
+  describe('Counters', () => {
+    it('should count messages by type and priority', () => {
+      exporter.recordMessage(MockDataGenerator.createAgentMessage({ priority: 'high' }));
+      exporter.recordMessage(MockDataGenerator.createAgentMessage({ priority: 'high' }));
+      exporter.recordMessage(MockDataGenerator.createAgentMessage({ message_type: 'heartbeat', priority: 'low' }));
+
+      const output = exporter.render();
+
+      expect(output).toContain('# TYPE agent_bus_messages_total counter');
+      expect(output).toContain('agent_bus_messages_total{message_type="task_request",priority="high"} 2');
+      expect(output).toContain('agent_bus_messages_total{message_type="heartbeat",priority="low"} 1');
+    });
+
+    it('should label failed routing decisions with strategy none', () => {
+      exporter.recordRouting('direct', true);
+      exporter.recordRouting(undefined, false);
+
+      const output = exporter.render();
+
+      expect(output).toContain('agent_bus_routing_decisions_total{strategy="direct",outcome="success"} 1');
+      expect(output).toContain('agent_bus_routing_decisions_total{strategy="none",outcome="failure"} 1');
+    });
+  });
+
+  describe('Histograms', () => {
+    it('should render cumulative buckets with sum and count', () => {
+      exporter.observeTaskDuration('code_review', 'completed', 0.2);
+      exporter.observeTaskDuration('code_review', 'completed', 3);
+
+      const output = exporter.render();
+
+      expect(output).toContain('# TYPE agent_bus_task_duration_seconds histogram');
+      expect(output).toContain('agent_bus_task_duration_seconds_bucket{task_type="code_review",status="completed",le="0.5"} 1');
+      expect(output).toContain('agent_bus_task_duration_seconds_bucket{task_type="code_review",status="completed",le="5"} 2');
+      expect(output).toContain('agent_bus_task_duration_seconds_bucket{task_type="code_review",status="completed",le="+Inf"} 2');
+      expect(output).toContain('agent_bus_task_duration_seconds_sum{task_type="code_review",status="completed"} 3.2');
+      expect(output).toContain('agent_bus_task_duration_seconds_count{task_type="code_review",status="completed"} 2');
+    });
+  });
+
+  describe('Gauges', () => {
+    it('should render gauges and escape label values', () => {
+      const output = exporter.render([
+        {
+          name: 'queue_depth',
+          help: 'Queued messages',
+          samples: [{ labels: { agent_id: 'custom://"quoted"\\agent' }, value: 4 }]
+        }
+      ]);
+
+      expect(output).toContain('# HELP agent_bus_queue_depth Queued messages');
+      expect(output).toContain('# TYPE agent_bus_queue_depth gauge');
+      expect(output).toContain('agent_bus_queue_depth{agent_id="custom://\\"quoted\\"\\\\agent"} 4');
+      expect(output.endsWith('\n')).toBe(true);
+    });
+  });
+
+  it('should clear recorded values on reset', () => {
+    exporter.recordMessage(MockDataGenerator.createAgentMessage());
+    exporter.reset();
+
+    expect(exporter.render()).not.toContain('agent_bus_messages_total{');
+  });
+});
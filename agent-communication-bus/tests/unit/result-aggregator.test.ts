@@ -181,6 +181,418 @@ describe('ResultAggregator', () => {
       // Conflicts should be stored internally and affect synthesis
       expect(aggregation!.synthesis).toBeDefined();
     });
+
+    it('should only report real disagreements between structured results', async () => {
+      const review = (severity: string, message: string) => ({
+        issues: [{ file: 'src/auth.ts', line: 12, severity, message }]
+      });
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'code_review',
+        agentResults: [
+          MockDataGenerator.createAgentResult({ agent_id: 'opencode://reviewer', result: review('high', 'Token not validated') }),
+          MockDataGenerator.createAgentResult({ agent_id: 'codex://reviewer', result: review('high', 'Missing JWT check') }),
+          MockDataGenerator.createAgentResult({ agent_id: 'claude-code://reviewer', result: review('low', 'Validate token') })
+        ],
+        synthesisMethod: 'consensus'
+      });
+      const { synthesis } = resultAggregator.getAggregation(aggregationId)!;
+
+      expect(synthesis.conflicts.map(conflict => conflict.description)).toEqual([
+        'opencode://reviewer and claude-code://reviewer disagree: src/auth.ts:12 rated high vs low',
+        'codex://reviewer and claude-code://reviewer disagree: src/auth.ts:12 rated high vs low'
+      ]);
+      expect(synthesis.unified_result.consensus.issues).toEqual([
+        expect.objectContaining({ severity: 'high', reported_by: ['opencode://reviewer', 'codex://reviewer'] }),
+        expect.objectContaining({ severity: 'low', reported_by: ['claude-code://reviewer'] })
+      ]);
+    });
+  });
+
+  describe('Voting', () => {
+    const approve = { decision: 'approve' };
+    const reject = { decision: 'reject' };
+    const vote = (agentId: string, result: any, confidence = 0.9) =>
+      MockDataGenerator.createAgentResult({ agent_id: agentId, result, confidence });
+
+    it('should pick the result most agents agree on', async () => {
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'code_review',
+        agentResults: [vote('a', approve), vote('b', reject), vote('c', approve)],
+        synthesisMethod: 'majority_vote'
+      });
+      const { synthesis, status } = resultAggregator.getAggregation(aggregationId)!;
+
+      expect(status).toBe('completed');
+      expect(synthesis.unified_result).toEqual(approve);
+      expect(synthesis.votes).toEqual({
+        groups: [{ agents: ['a', 'c'], votes: 2 }, { agents: ['b'], votes: 1 }],
+        required_votes: 2,
+        winners: ['a', 'c']
+      });
+    });
+
+    it('should not count a clean review and one with a critical issue as the same answer', async () => {
+      const critical = { issues: [{ file: 'src/auth.ts', line: 12, severity: 'critical', message: 'SQL injection' }] };
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'code_review',
+        agentResults: [vote('a', { issues: [] }), vote('b', critical), vote('c', {
+          issues: [{ file: 'src/auth.ts', line: 12, severity: 'Critical', message: 'Unescaped query' }]
+        })],
+        synthesisMethod: 'majority_vote'
+      });
+      const { synthesis } = resultAggregator.getAggregation(aggregationId)!;
+
+      expect(synthesis.votes!.groups).toEqual([{ agents: ['b', 'c'], votes: 2 }, { agents: ['a'], votes: 1 }]);
+      expect(synthesis.votes!.winners).toEqual(['b', 'c']);
+    });
+
+    it('should break ties in favour of agents specialized in the task type', async () => {
+      resultAggregator.registerAgentSpecialization('codex://security', ['security_review']);
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'security_review',
+        agentResults: [vote('opencode://generalist', approve, 0.95), vote('codex://security', reject, 0.6)],
+        synthesisMethod: 'majority_vote'
+      });
+      const { synthesis } = resultAggregator.getAggregation(aggregationId)!;
+
+      expect(synthesis.unified_result).toEqual(reject);
+      expect(synthesis.votes!.tie_broken_by).toBe('specialization');
+    });
+
+    it('should require the threshold share of expected agents for a quorum', async () => {
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'code_review',
+        agentResults: [vote('a', approve), vote('b', reject)],
+        synthesisMethod: 'quorum',
+        threshold: 0.75
+      });
+      const { synthesis } = resultAggregator.getAggregation(aggregationId)!;
+
+      expect(synthesis.unified_result).toBeNull();
+      expect(synthesis.votes!.required_votes).toBe(2);
+      expect(synthesis.recommendations).toContain('No result reached 2 of 2 votes');
+    });
+
+    it('should complete early once a quorum of matching results arrives', async () => {
+      const completed = jest.fn();
+      resultAggregator.on('aggregation_completed', completed);
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'code_review',
+        agentResults: [vote('a', approve)],
+        synthesisMethod: 'quorum',
+        expectedAgents: ['a', 'b', 'c', 'd'],
+        threshold: 0.5
+      });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(resultAggregator.getAggregation(aggregationId)!.status).toBe('collecting');
+
+      resultAggregator.addAgentResult(aggregationId, vote('b', reject));
+      resultAggregator.addAgentResult(aggregationId, vote('c', approve));
+      await new Promise(resolve => setImmediate(resolve));
+
+      const aggregation = resultAggregator.getAggregation(aggregationId)!;
+      expect(aggregation.status).toBe('completed');
+      expect(aggregation.synthesis.votes!.winners).toEqual(['a', 'c']);
+      expect(completed).toHaveBeenCalledTimes(1);
+      expect(completed).toHaveBeenCalledWith(expect.objectContaining({ aggregation_id: aggregationId, reason: 'quorum' }));
+    });
+  });
+
+  describe('Manual Review', () => {
+    const review = (agentId: string, decision: string, extra: Record<string, any> = {}) =>
+      MockDataGenerator.createAgentResult({ agent_id: agentId, result: { decision, ...extra } });
+
+    const startReview = async () => {
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'architecture_review',
+        agentResults: [review('a', 'monolith', { database: 'postgres' }), review('b', 'services', { queue: 'kafka' })],
+        synthesisMethod: 'manual'
+      });
+      await new Promise(resolve => setImmediate(resolve));
+      return aggregationId;
+    };
+
+    it('should hold conflicting results for review', async () => {
+      const pending = jest.fn();
+      resultAggregator.on('aggregation_pending_review', pending);
+
+      const aggregation = resultAggregator.getAggregation(await startReview())!;
+
+      expect(aggregation.status).toBe('pending_review');
+      expect(aggregation.synthesis.unified_result).toBeNull();
+      expect(aggregation.synthesis.conflicts).toEqual([
+        expect.objectContaining({ conflict_id: expect.stringMatching(/^conflict_[a-f0-9]{12}$/), agents: ['a', 'b'] })
+      ]);
+      expect(pending).toHaveBeenCalledWith(expect.objectContaining({ conflicts: aggregation.synthesis.conflicts }));
+    });
+
+    it('should resolve once every conflict has a decision', async () => {
+      const aggregationId = await startReview();
+      const resolved = jest.fn();
+      resultAggregator.on('aggregation_resolved', resolved);
+      const [conflict] = resultAggregator.getAggregation(aggregationId)!.synthesis.conflicts;
+
+      const resolution = await resultAggregator.resolveConflict(aggregationId, conflict.conflict_id, {
+        strategy: 'choose_agent',
+        agent_id: 'b',
+        rationale: 'Teams deploy independently'
+      }, 'alice');
+
+      const aggregation = resultAggregator.getAggregation(aggregationId)!;
+      expect(resolution).toEqual(expect.objectContaining({
+        resolver: 'alice',
+        strategy: 'choose_agent',
+        resolution: 'Chose the result of b: Teams deploy independently'
+      }));
+      expect(aggregation.status).toBe('resolved');
+      expect(aggregation.synthesis.unified_result).toEqual({ decision: 'services', queue: 'kafka' });
+      expect(aggregation.synthesis.conflicts[0].resolution).toBe(resolution.resolution);
+      expect(resolved).toHaveBeenCalledWith(expect.objectContaining({ aggregation_id: aggregationId }));
+      expect(resultAggregator.getConflictResolutions(aggregationId)).toEqual([resolution]);
+    });
+
+    it('should merge results or take a custom one', async () => {
+      const aggregationId = await startReview();
+      const [conflict] = resultAggregator.getAggregation(aggregationId)!.synthesis.conflicts;
+
+      await resultAggregator.resolveConflict(aggregationId, conflict.conflict_id, { strategy: 'merge' }, 'alice');
+      expect(resultAggregator.getAggregation(aggregationId)!.synthesis.unified_result)
+        .toEqual({ decision: 'services', database: 'postgres', queue: 'kafka' });
+
+      await resultAggregator.resolveConflict(aggregationId, conflict.conflict_id, {
+        strategy: 'custom',
+        result: { decision: 'modular monolith' }
+      }, 'alice');
+      expect(resultAggregator.getAggregation(aggregationId)!.synthesis.unified_result).toEqual({ decision: 'modular monolith' });
+    });
+
+    describe('with several conflicts', () => {
+      const startWideReview = async () => {
+        const aggregationId = await resultAggregator.aggregateResults({
+          sessionId: 'test-session',
+          taskType: 'architecture_review',
+          agentResults: [
+            review('a', 'monolith', { database: 'postgres' }),
+            review('b', 'services', { queue: 'kafka' }),
+            review('c', 'monolith', { cache: 'redis' })
+          ],
+          synthesisMethod: 'manual'
+        });
+        await new Promise(resolve => setImmediate(resolve));
+        return aggregationId;
+      };
+      const conflictOf = (aggregationId: string, agents: string[]) =>
+        resultAggregator.getAggregation(aggregationId)!.synthesis.conflicts
+          .find(conflict => conflict.agents.join() === agents.join())!.conflict_id;
+
+      it('should merge the decisions for every conflict', async () => {
+        const aggregationId = await startWideReview();
+        expect(resultAggregator.getAggregation(aggregationId)!.synthesis.conflicts).toHaveLength(3);
+
+        await resultAggregator.resolveConflict(aggregationId, conflictOf(aggregationId, ['a', 'b']), {
+          strategy: 'custom',
+          result: { decision: 'monolith', queue: 'kafka' }
+        }, 'alice');
+        await resultAggregator.resolveConflict(aggregationId, conflictOf(aggregationId, ['a', 'c']), { strategy: 'merge' }, 'alice');
+        await resultAggregator.resolveConflict(aggregationId, conflictOf(aggregationId, ['b', 'c']), {
+          strategy: 'choose_agent',
+          agent_id: 'c'
+        }, 'bob');
+
+        const aggregation = resultAggregator.getAggregation(aggregationId)!;
+        expect(aggregation.status).toBe('resolved');
+        expect(aggregation.synthesis.unified_result).toEqual({
+          decision: 'monolith',
+          database: 'postgres',
+          queue: 'kafka',
+          cache: 'redis'
+        });
+      });
+
+      it('should reopen conflicts whose decisions contradict each other', async () => {
+        const aggregationId = await startWideReview();
+        const [first, second] = [conflictOf(aggregationId, ['a', 'b']), conflictOf(aggregationId, ['b', 'c'])];
+        await resultAggregator.resolveConflict(aggregationId, first, { strategy: 'choose_agent', agent_id: 'b' }, 'alice');
+        await resultAggregator.resolveConflict(aggregationId, second, { strategy: 'choose_agent', agent_id: 'c' }, 'bob');
+
+        let aggregation = resultAggregator.getAggregation(aggregationId)!;
+        expect(aggregation.status).toBe('pending_review');
+        expect(aggregation.synthesis.unified_result).toBeNull();
+        expect(aggregation.synthesis.conflicts.every(conflict => conflict.resolution === undefined)).toBe(true);
+        expect(aggregation.synthesis.recommendations).toContain('Decisions for 2 conflicts disagree on decision; resolve them again');
+
+        await resultAggregator.resolveConflict(aggregationId, second, { strategy: 'choose_agent', agent_id: 'b' }, 'bob');
+        await resultAggregator.resolveConflict(aggregationId, conflictOf(aggregationId, ['a', 'c']), {
+          strategy: 'custom',
+          result: { decision: 'services' }
+        }, 'bob');
+        aggregation = resultAggregator.getAggregation(aggregationId)!;
+        expect(aggregation.status).toBe('resolved');
+        expect(aggregation.synthesis.unified_result).toEqual({ decision: 'services', queue: 'kafka' });
+      });
+    });
+
+    it('should go back to review when a new result adds a conflict', async () => {
+      const aggregationId = await startReview();
+      const [conflict] = resultAggregator.getAggregation(aggregationId)!.synthesis.conflicts;
+      await resultAggregator.resolveConflict(aggregationId, conflict.conflict_id, { strategy: 'choose_agent', agent_id: 'a' }, 'alice');
+
+      resultAggregator.addAgentResult(aggregationId, review('c', 'serverless'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      const aggregation = resultAggregator.getAggregation(aggregationId)!;
+      expect(aggregation.status).toBe('pending_review');
+      expect(aggregation.synthesis.conflicts.filter(candidate => candidate.resolution === undefined)).toHaveLength(2);
+      expect(aggregation.synthesis.conflicts.find(candidate => candidate.conflict_id === conflict.conflict_id)!.resolution)
+        .toBeDefined();
+    });
+
+    it('should reject decisions that do not fit the conflict', async () => {
+      const aggregationId = await startReview();
+      const [conflict] = resultAggregator.getAggregation(aggregationId)!.synthesis.conflicts;
+
+      await expect(resultAggregator.resolveConflict(aggregationId, conflict.conflict_id, { strategy: 'choose_agent', agent_id: 'z' }, 'alice'))
+        .rejects.toThrow('agent_id must be one of a, b');
+      await expect(resultAggregator.resolveConflict(aggregationId, 'conflict_unknown', { strategy: 'custom', result: 1 }, 'alice'))
+        .rejects.toThrow('Conflict conflict_unknown not found');
+      await expect(resultAggregator.resolveConflict(aggregationId, conflict.conflict_id, { strategy: 'custom' }, 'alice'))
+        .rejects.toThrow('A custom resolution needs a result');
+    });
+  });
+
+  describe('Referee', () => {
+    const design = (agentId: string, text: string, confidence: number) =>
+      MockDataGenerator.createAgentResult({ agent_id: agentId, result: { design: text }, confidence });
+    const designs = [
+      design('codex://architect', 'One service per bounded context', 0.6),
+      design('opencode://architect', 'A modular monolith', 0.9)
+    ];
+
+    const judge = async (
+      answer: (request: any) => Promise<any>,
+      request: Partial<AggregationRequest> = {}
+    ) => {
+      const referee = jest.fn(async (_referee: string, judged: any) => answer(judged));
+      resultAggregator.setRefereeJudge(referee);
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'architecture_design',
+        agentResults: designs,
+        synthesisMethod: 'referee',
+        referee: 'claude-code://judge',
+        ...request
+      });
+      return { referee, aggregation: (await resultAggregator.completeAggregation(aggregationId))! };
+    };
+
+    it('should take the result the referee chooses', async () => {
+      const { referee, aggregation } = await judge(async () => ({
+        winner: 'codex://architect',
+        rationale: 'Teams deploy independently',
+        confidence: 0.8
+      }));
+
+      expect(referee).toHaveBeenCalledTimes(1);
+      expect(referee).toHaveBeenCalledWith('claude-code://judge', expect.objectContaining({
+        task_type: 'architecture_design',
+        agent_results: designs
+      }), 120000);
+      expect(aggregation.synthesis).toEqual(expect.objectContaining({
+        unified_result: { design: 'One service per bounded context' },
+        confidence_score: 0.8,
+        synthesis_method: 'referee',
+        verdict: { referee: 'claude-code://judge', winner: 'codex://architect', rationale: 'Teams deploy independently' }
+      }));
+      expect(aggregation.synthesis.recommendations).toContain('Teams deploy independently');
+    });
+
+    it('should read a merged result from a JSON answer in prose', async () => {
+      const { aggregation } = await judge(async () =>
+        'Both have merit.\n{"merged_result": {"design": "Monolith first, split later"}, "rationale": "Start simple"}');
+
+      expect(aggregation.synthesis.unified_result).toEqual({ design: 'Monolith first, split later' });
+      expect(aggregation.synthesis.confidence_score).toBeCloseTo(0.75);
+      expect(aggregation.synthesis.verdict).toEqual({ referee: 'claude-code://judge', merged: true, rationale: 'Start simple' });
+    });
+
+    it('should fall back to the most confident result when the referee does not answer in time', async () => {
+      const fallback = jest.fn();
+      resultAggregator.on('referee_fallback', fallback);
+
+      const { aggregation } = await judge(() => new Promise(() => undefined), { refereeTimeout: 20 });
+
+      expect(aggregation.synthesis.unified_result).toEqual({ design: 'A modular monolith' });
+      expect(aggregation.synthesis.confidence_score).toBe(0.9);
+      expect(aggregation.synthesis.verdict).toEqual({
+        referee: 'claude-code://judge',
+        fallback: {
+          method: 'highest_weighted',
+          agent_id: 'opencode://architect',
+          reason: 'Referee claude-code://judge did not answer within 20ms'
+        }
+      });
+      expect(fallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a prose result as it is when the referee fails', async () => {
+      const { aggregation } = await judge(async () => { throw new Error('Judge overloaded'); }, {
+        agentResults: [
+          MockDataGenerator.createAgentResult({ agent_id: 'codex://architect', result: 'Split by bounded context', confidence: 0.6 }),
+          MockDataGenerator.createAgentResult({ agent_id: 'opencode://architect', result: 'Keep a modular monolith', confidence: 0.9 })
+        ],
+        weights: { 'codex://architect': 2 }
+      });
+
+      expect(aggregation.synthesis.unified_result).toBe('Split by bounded context');
+      expect(aggregation.synthesis.confidence_score).toBe(0.6);
+      expect(aggregation.synthesis.verdict!.fallback).toEqual(expect.objectContaining({
+        agent_id: 'codex://architect',
+        reason: 'Judge overloaded'
+      }));
+    });
+
+    it('should fall back when the verdict names an agent without a result', async () => {
+      const { aggregation } = await judge(async () => ({ verdict: { winner: 'codex://unknown' } }));
+
+      expect(aggregation.synthesis.verdict!.fallback!.reason).toBe('Referee chose codex://unknown, which has no successful result');
+    });
+
+    it('should wait for every expected agent before consulting the referee', async () => {
+      const referee = jest.fn(async () => ({ winner: 'opencode://architect' }));
+      resultAggregator.setRefereeJudge(referee);
+      const aggregationId = await resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'architecture_design',
+        agentResults: [designs[0]],
+        synthesisMethod: 'referee',
+        referee: 'claude-code://judge',
+        expectedAgents: designs.map(result => result.agent_id)
+      });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(referee).not.toHaveBeenCalled();
+
+      resultAggregator.addAgentResult(aggregationId, designs[1]);
+      const aggregation = (await resultAggregator.completeAggregation(aggregationId))!;
+
+      expect(referee).toHaveBeenCalledTimes(1);
+      expect(aggregation.synthesis.unified_result).toEqual({ design: 'A modular monolith' });
+    });
+
+    it('should require a referee agent', async () => {
+      await expect(resultAggregator.aggregateResults({
+        sessionId: 'test-session',
+        taskType: 'architecture_design',
+        agentResults: designs,
+        synthesisMethod: 'referee'
+      })).rejects.toThrow('Referee synthesis needs a referee agent');
+    });
   });
 
   describe('Error Handling', () => {
@@ -209,4 +621,4 @@ describe('ResultAggregator', () => {
       expect(result).toBeDefined();
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,126 @@
+import {
+  codeReviewComparator,
+  unifiedDiffComparator,
+  testCaseComparator,
+  parseUnifiedDiff
+} from '../../src/result-comparators';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('Result comparators', () => {
+  beforeEach(() => {
+    MockDataGenerator.reset();
+  });
+
+  describe('Code review issues', () => {
+    const first = {
+      approved: false,
+      issues: [
+        { file: 'src/auth.ts', line: 12, severity: 'High', message: 'Token is never validated' },
+        { file: 'src/auth.ts', line: 40, severity: 'low', message: 'Unused import' }
+      ]
+    };
+    const second = {
+      approved: false,
+      issues: [{ file: 'src/auth.ts', line: 12, severity: 'high', message: 'JWT signature not checked' }]
+    };
+
+    it('should treat the same finding in different words as agreement', () => {
+      expect(codeReviewComparator.compare(first, second)).toEqual([]);
+    });
+
+    it('should only call reviews with the same verdict and findings equivalent', () => {
+      const reworded = { approved: false, issues: [...second.issues, { file: 'src/auth.ts', line: 40, severity: 'LOW' }] };
+
+      expect(codeReviewComparator.equivalent(first, reworded)).toBe(true);
+      expect(codeReviewComparator.equivalent(first, second)).toBe(false);
+      expect(codeReviewComparator.equivalent({ issues: [] }, second)).toBe(false);
+    });
+
+    it('should report differing severities and verdicts', () => {
+      const lenient = { approved: true, issues: [{ file: 'src/auth.ts', line: 12, severity: 'low' }] };
+
+      expect(codeReviewComparator.compare(first, lenient)).toEqual([
+        'one approves and the other requests changes',
+        'src/auth.ts:12 rated high vs low'
+      ]);
+    });
+
+    it('should merge overlapping findings with their reporters', () => {
+      const merged = codeReviewComparator.merge([
+        MockDataGenerator.createAgentResult({ agent_id: 'opencode://reviewer', result: first }),
+        MockDataGenerator.createAgentResult({ agent_id: 'codex://reviewer', result: second })
+      ]);
+
+      expect(merged.approved).toBe(false);
+      expect(merged.issues).toEqual([
+        expect.objectContaining({ line: 12, severity: 'high', reported_by: ['opencode://reviewer', 'codex://reviewer'] }),
+        expect.objectContaining({ line: 40, reported_by: ['opencode://reviewer'] })
+      ]);
+    });
+  });
+
+  describe('Unified diffs', () => {
+    const header = 'diff --git a/src/sum.ts b/src/sum.ts\n--- a/src/sum.ts\n+++ b/src/sum.ts\n';
+    const fix = `${header}@@ -1,3 +1,3 @@\n export function sum(a, b) {\n-  return a - b;\n+  return a + b;\n }\n`;
+    // Same change, different context and a trailing space
+    const sameFix = `${header}@@ -2,1 +2,1 @@\n-  return a - b;\n+  return a + b; \n`;
+    const otherFix = `${header}@@ -2,1 +2,1 @@\n-  return a - b;\n+  return b + a;\n`;
+    const docs = `${header}@@ -10,0 +11,1 @@\n+// Adds two numbers\n`;
+
+    it('should parse hunks per file', () => {
+      expect(parseUnifiedDiff(fix)).toEqual([expect.objectContaining({ file: 'src/sum.ts', oldStart: 1, oldLines: 3 })]);
+    });
+
+    it('should read changed lines that look like file headers as part of the hunk', () => {
+      const sql = 'diff --git a/db/schema.sql b/db/schema.sql\n--- a/db/schema.sql\n+++ b/db/schema.sql\n' +
+        '@@ -1,2 +1,2 @@\n--- Users\n+++i;\n CREATE TABLE users (id INT);\n' +
+        '@@ -9 +9 @@\n-DROP TABLE sessions;\n+-- DROP TABLE sessions;\n\\ No newline at end of file\n';
+
+      expect(parseUnifiedDiff(sql)).toEqual([
+        expect.objectContaining({ file: 'db/schema.sql', oldStart: 1, lines: ['--- Users', '+++i;', ' CREATE TABLE users (id INT);'] }),
+        expect.objectContaining({
+          file: 'db/schema.sql',
+          oldStart: 9,
+          oldLines: 1,
+          lines: ['-DROP TABLE sessions;', '+-- DROP TABLE sessions;', '\\ No newline at end of file']
+        })
+      ]);
+    });
+
+    it('should agree on identical changes and flag overlapping different ones', () => {
+      expect(unifiedDiffComparator.compare({ diff: fix }, { patch: sameFix })).toEqual([]);
+      expect(unifiedDiffComparator.compare({ diff: fix }, { diff: docs })).toEqual([]);
+      expect(unifiedDiffComparator.compare({ diff: fix }, { diff: otherFix })).toEqual(['src/sum.ts lines 2-2 changed differently']);
+    });
+
+    it('should merge distinct hunks and keep the majority of overlapping ones', () => {
+      const merged = unifiedDiffComparator.merge([
+        MockDataGenerator.createAgentResult({ agent_id: 'a', result: { diff: fix } }),
+        MockDataGenerator.createAgentResult({ agent_id: 'b', result: { diff: sameFix + docs.slice(header.length) } }),
+        MockDataGenerator.createAgentResult({ agent_id: 'c', result: { diff: otherFix } })
+      ]);
+
+      expect(merged.hunks.map((hunk: any) => hunk.reported_by)).toEqual([['a', 'b'], ['b']]);
+      expect(merged.conflicting_hunks).toHaveLength(1);
+      expect(merged.diff).toContain('+// Adds two numbers');
+      expect(merged.diff).not.toContain('b + a');
+    });
+  });
+
+  describe('Test cases', () => {
+    it('should match tests by name and merge their outcomes', () => {
+      const first = { tests: [{ name: 'adds numbers', passed: true }, { name: 'rejects strings', status: 'failed' }] };
+      const second = { tests: [{ name: 'adds numbers', status: 'failed' }, { name: 'handles zero' }] };
+
+      expect(testCaseComparator.compare(first, second)).toEqual(['test "adds numbers" passed vs failed']);
+      expect(testCaseComparator.merge([
+        MockDataGenerator.createAgentResult({ agent_id: 'a', result: first }),
+        MockDataGenerator.createAgentResult({ agent_id: 'b', result: second })
+      ]).tests).toEqual([
+        { name: 'adds numbers', reported_by: ['a', 'b'], status: 'disputed' },
+        { name: 'rejects strings', reported_by: ['a'], status: 'failed' },
+        { name: 'handles zero', reported_by: ['b'] }
+      ]);
+    });
+  });
+});
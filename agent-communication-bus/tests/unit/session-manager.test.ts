@@ -1,4 +1,4 @@
-import { SessionManager } from '../../src/session-manager';
+import { SessionManager, ContextConflictError, DelegationRejectedError } from '../../src/session-manager';
 import { MockDataGenerator } from '../utils/mock-generators';
 import { setupTestDatabase, teardownTestDatabase } from '../utils/test-database';
 import { AgentParticipant } from '../../src/types/protocol';
@@ -104,6 +104,14 @@ describe('SessionManager', () => {
       expect(retrieved).toBeNull();
     });
 
+    it('should return terminated sessions from getSessions', () => {
+      const terminatedId = sessionManager.createSession('claude://orchestrator');
+      sessionManager.terminateSession(terminatedId);
+
+      expect(sessionManager.getSessions().map(session => session.sessionId)).toContain(terminatedId);
+      expect(sessionManager.getActiveSessions().map(session => session.sessionId)).not.toContain(terminatedId);
+    });
+
     it('should return all active sessions', () => {
       const orchestrator2 = 'opencode://second-agent';
       sessionManager.createSession(orchestrator2);
@@ -320,6 +328,357 @@ describe('SessionManager', () => {
     });
   });
 
+  describe('Task Retry', () => {
+    const orchestrator = 'claude://orchestrator';
+    let retryManager: SessionManager;
+    let sessionId: string;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      retryManager = new SessionManager({ autoCleanup: false, retryBaseDelay: 1000, retryPolicy: { maxRetries: 3 } });
+      sessionId = retryManager.createSession(orchestrator);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should not retry tasks unless a retry policy enables it', () => {
+      const defaultManager = new SessionManager({ autoCleanup: false });
+      const taskId = defaultManager.delegateTask(orchestrator, 'opencode://worker', 'build', {});
+      const scheduled = jest.fn();
+      defaultManager.on('task_retry_scheduled', scheduled);
+
+      defaultManager.updateTaskStatus(taskId, 'failed');
+
+      expect(scheduled).not.toHaveBeenCalled();
+      expect(defaultManager.getTaskDelegation(taskId)).toMatchObject({ status: 'failed', attempts: 1 });
+    });
+
+    it('should re-dispatch a failed task after a backoff', () => {
+      const taskId = retryManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, { sessionId });
+      const scheduled = jest.fn();
+      const retried = jest.fn();
+      const updated = jest.fn();
+      retryManager.on('task_retry_scheduled', scheduled);
+      retryManager.on('task_retry', retried);
+      retryManager.on('task_updated', updated);
+
+      retryManager.updateTaskStatus(taskId, 'failed', { error: 'Compilation failed' });
+
+      expect(scheduled).toHaveBeenCalledWith(expect.objectContaining({
+        taskId,
+        attempt: 2,
+        delay: 1000,
+        status: 'failed',
+        error: 'Compilation failed'
+      }));
+      expect(updated).not.toHaveBeenCalled();
+      expect(retryManager.getTaskDelegation(taskId)!.status).toBe('pending');
+
+      jest.advanceTimersByTime(999);
+      expect(retried).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+      expect(retried).toHaveBeenCalledWith(expect.objectContaining({ taskId, attempt: 2, reassigned: false }));
+      expect(retryManager.getTaskDelegation(taskId)!.attempts).toBe(2);
+    });
+
+    it('should back off exponentially up to maxDelay', () => {
+      const taskId = retryManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, {
+        sessionId,
+        retryPolicy: { maxRetries: 3, backoffMultiplier: 3, maxDelay: 5000 }
+      });
+      const delays: number[] = [];
+      retryManager.on('task_retry_scheduled', ({ delay }) => delays.push(delay));
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        retryManager.updateTaskStatus(taskId, 'failed');
+        jest.runOnlyPendingTimers();
+      }
+
+      expect(delays).toEqual([1000, 3000, 5000]);
+    });
+
+    it('should retry timed out tasks and fail once retries are exhausted', () => {
+      const taskId = retryManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, {
+        sessionId,
+        timeout: 10000,
+        retryPolicy: { maxRetries: 1 }
+      });
+      const retried = jest.fn();
+      retryManager.on('task_retry', retried);
+
+      jest.advanceTimersByTime(10000 + 1000);
+      expect(retried).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(10000);
+      const delegation = retryManager.getTaskDelegation(taskId)!;
+      expect(delegation.status).toBe('timeout');
+      expect(delegation.attempts).toBe(2);
+    });
+
+    it('should cancel a timed-out attempt before retrying it', () => {
+      const taskId = retryManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, { sessionId, timeout: 10000 });
+      const events: string[] = [];
+      retryManager.on('task_attempt_cancelled', ({ delegation, reason }) => events.push(`cancel ${delegation.delegatee}: ${reason}`));
+      retryManager.on('task_retry', () => events.push('retry'));
+
+      retryManager.updateTaskStatus(taskId, 'failed');
+      jest.runOnlyPendingTimers();
+      jest.advanceTimersByTime(10000);
+      jest.runOnlyPendingTimers();
+
+      expect(events).toEqual(['retry', 'cancel opencode://worker: Task timed out', 'retry']);
+    });
+
+    it('should hand the final attempt to the reassignment agent', () => {
+      const taskId = retryManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, {
+        sessionId,
+        retryPolicy: { maxRetries: 2, reassignTo: 'codex://backup' }
+      });
+      const retried = jest.fn();
+      retryManager.on('task_retry', retried);
+
+      retryManager.updateTaskStatus(taskId, 'failed');
+      jest.runOnlyPendingTimers();
+      expect(retryManager.getTaskDelegation(taskId)!.delegatee).toBe('opencode://worker');
+
+      retryManager.updateTaskStatus(taskId, 'failed');
+      jest.runOnlyPendingTimers();
+
+      expect(retried).toHaveBeenLastCalledWith(expect.objectContaining({
+        attempt: 3,
+        previousDelegatee: 'opencode://worker',
+        reassigned: true
+      }));
+      expect(retryManager.getTaskDelegation(taskId)!.delegatee).toBe('codex://backup');
+    });
+
+    it('should not retry tasks of terminated sessions', () => {
+      const taskId = retryManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, { sessionId });
+      retryManager.terminateSession(sessionId, 'cancelled');
+
+      retryManager.updateTaskStatus(taskId, 'failed');
+
+      expect(retryManager.getTaskDelegation(taskId)!.status).toBe('failed');
+    });
+  });
+
+  describe('Task Cancellation', () => {
+    const orchestrator = 'claude://orchestrator';
+    let sessionId: string;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      sessionId = sessionManager.createSession(orchestrator);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should mark the task cancelled and emit task_cancelled', () => {
+      const taskId = sessionManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, { sessionId });
+      const cancelled = jest.fn();
+      sessionManager.on('task_cancelled', cancelled);
+
+      expect(sessionManager.cancelTask(taskId, 'No longer needed')).toBe(true);
+
+      expect(sessionManager.getTaskDelegation(taskId)!.status).toBe('cancelled');
+      expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ taskId, reason: 'No longer needed' }));
+      expect(sessionManager.getSessionStats().tasksByStatus.cancelled).toBe(1);
+    });
+
+    it('should ignore late updates and never time out or retry', () => {
+      const taskId = sessionManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, { sessionId, timeout: 1000 });
+      const retried = jest.fn();
+      sessionManager.on('task_retry_scheduled', retried);
+      sessionManager.cancelTask(taskId);
+
+      expect(sessionManager.updateTaskStatus(taskId, 'failed', { error: 'Killed' })).toBe(false);
+      jest.advanceTimersByTime(60000);
+
+      expect(sessionManager.getTaskDelegation(taskId)!.status).toBe('cancelled');
+      expect(retried).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a task waiting to be retried', () => {
+      const taskId = sessionManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, {
+        sessionId,
+        retryPolicy: { maxRetries: 1 }
+      });
+      const retry = jest.fn();
+      sessionManager.on('task_retry', retry);
+      sessionManager.updateTaskStatus(taskId, 'failed');
+
+      expect(sessionManager.cancelTask(taskId)).toBe(true);
+      jest.runOnlyPendingTimers();
+
+      expect(retry).not.toHaveBeenCalled();
+    });
+
+    it('should not cancel finished or unknown tasks', () => {
+      const taskId = sessionManager.delegateTask(orchestrator, 'opencode://worker', 'build', {}, { sessionId });
+      sessionManager.updateTaskStatus(taskId, 'completed', { ok: true });
+
+      expect(sessionManager.cancelTask(taskId)).toBe(false);
+      expect(sessionManager.cancelTask('task_missing')).toBe(false);
+    });
+  });
+
+  describe('Role-Based Delegation', () => {
+    const orchestrator = 'claude://orchestrator';
+    const participants = () => [
+      MockDataGenerator.createAgentParticipant({ agent_id: 'opencode://backend', role: 'implementer' }),
+      MockDataGenerator.createAgentParticipant({ agent_id: 'codex://frontend', role: 'implementer' }),
+      MockDataGenerator.createAgentParticipant({ agent_id: 'codex://reviewer', role: 'reviewer' })
+    ];
+
+    it('should hand a task for a role to the least loaded available participant', () => {
+      const sessionId = sessionManager.createSession(orchestrator, participants());
+
+      const first = sessionManager.delegateTask(orchestrator, 'implementer', 'build', {}, { sessionId });
+      const second = sessionManager.delegateTask(orchestrator, 'implementer', 'build', {}, { sessionId });
+
+      expect(sessionManager.getTaskDelegation(first)!.delegatee).toBe('opencode://backend');
+      expect(sessionManager.getTaskDelegation(second)!.delegatee).toBe('codex://frontend');
+    });
+
+    it('should prefer active over waiting participants and use busy ones last', () => {
+      const sessionId = sessionManager.createSession(orchestrator, participants());
+      sessionManager.setParticipantStatus(sessionId, 'opencode://backend', 'busy');
+      sessionManager.setParticipantStatus(sessionId, 'codex://frontend', 'waiting');
+
+      expect(sessionManager.selectParticipant(sessionId, 'implementer')!.agent_id).toBe('codex://frontend');
+
+      sessionManager.setParticipantStatus(sessionId, 'codex://frontend', 'busy');
+      expect(sessionManager.selectParticipant(sessionId, 'implementer')!.agent_id).toBe('opencode://backend');
+
+      sessionManager.removeParticipant(sessionId, 'codex://reviewer');
+      expect(sessionManager.selectParticipant(sessionId, 'reviewer')).toBeNull();
+    });
+
+    it('should keep delegatees busy until their last open task finishes', () => {
+      const sessionId = sessionManager.createSession(orchestrator, participants());
+      const statusOf = () => sessionManager.getSession(sessionId)!.participants
+        .find(participant => participant.agent_id === 'codex://reviewer')!.status;
+
+      const first = sessionManager.delegateTask(orchestrator, 'reviewer', 'review', {}, { sessionId });
+      const second = sessionManager.delegateTask(orchestrator, 'codex://reviewer', 'review', {}, { sessionId });
+      expect(statusOf()).toBe('busy');
+
+      sessionManager.updateTaskStatus(first, 'completed', { ok: true });
+      expect(statusOf()).toBe('busy');
+
+      sessionManager.cancelTask(second);
+      expect(statusOf()).toBe('active');
+    });
+
+    it('should reject roles nobody in the session holds', () => {
+      const sessionId = sessionManager.createSession(orchestrator, participants());
+
+      expect(() => sessionManager.delegateTask(orchestrator, 'tester', 'test', {}, { sessionId }))
+        .toThrow(`No participant with role tester in session ${sessionId}`);
+    });
+
+    it('should only accept delegations from orchestrators in orchestrator-only sessions', () => {
+      const sessionId = sessionManager.createSession(orchestrator, [
+        ...participants(),
+        MockDataGenerator.createAgentParticipant({ agent_id: 'claude://lead', role: 'orchestrator' })
+      ], [], { delegationPolicy: 'orchestrator_only' });
+
+      expect(() => sessionManager.delegateTask('opencode://backend', 'reviewer', 'review', {}, { sessionId }))
+        .toThrow(DelegationRejectedError);
+      expect(sessionManager.delegateTask(orchestrator, 'reviewer', 'review', {}, { sessionId })).toBeDefined();
+      expect(sessionManager.delegateTask('claude://lead', 'reviewer', 'review', {}, { sessionId })).toBeDefined();
+    });
+
+    it('should let anyone delegate in open sessions', () => {
+      const sessionId = sessionManager.createSession(orchestrator, participants());
+
+      const taskId = sessionManager.delegateTask('opencode://backend', 'reviewer', 'review', {}, { sessionId });
+
+      expect(sessionManager.getTaskDelegation(taskId)!.delegatee).toBe('codex://reviewer');
+    });
+  });
+
+  describe('Shared Context', () => {
+    const orchestrator = 'claude://orchestrator';
+    const reviewer = 'opencode://reviewer';
+    let sessionId: string;
+
+    beforeEach(() => {
+      sessionId = sessionManager.createSession(orchestrator, [
+        MockDataGenerator.createAgentParticipant({ agent_id: reviewer })
+      ]);
+    });
+
+    it('should version each key and return the new versions', () => {
+      expect(sessionManager.updateSharedContext(sessionId, orchestrator, { api_spec: 'v1', branch: 'main' }))
+        .toEqual({ api_spec: 1, branch: 1 });
+      expect(sessionManager.updateSharedContext(sessionId, reviewer, { api_spec: 'v2' }, { api_spec: 1 }))
+        .toEqual({ api_spec: 2, branch: 1 });
+
+      const snapshot = sessionManager.getSharedContext(sessionId)!;
+      expect(snapshot.context.api_spec).toBe('v2');
+      expect(snapshot.versions).toEqual({ api_spec: 2, branch: 1 });
+    });
+
+    it('should reject stale writes without applying any change', () => {
+      sessionManager.updateSharedContext(sessionId, orchestrator, { api_spec: 'v1' });
+      sessionManager.updateSharedContext(sessionId, reviewer, { api_spec: 'v2' }, { api_spec: 1 });
+
+      let conflict: unknown;
+      try {
+        sessionManager.updateSharedContext(sessionId, orchestrator, { api_spec: 'v1-fixed', notes: 'x' }, { api_spec: 1 });
+      } catch (error) {
+        conflict = error;
+      }
+
+      expect(conflict).toBeInstanceOf(ContextConflictError);
+      expect((conflict as ContextConflictError).conflicts).toEqual([{ key: 'api_spec', expected: 1, actual: 2 }]);
+      expect(sessionManager.getSharedContext(sessionId)!.context).not.toHaveProperty('notes');
+    });
+
+    it('should treat never-written keys as version 0', () => {
+      expect(() => sessionManager.updateSharedContext(sessionId, orchestrator, { lock: 'me' }, { lock: 0 })).not.toThrow();
+      expect(() => sessionManager.updateSharedContext(sessionId, reviewer, { lock: 'you' }, { lock: 0 }))
+        .toThrow('lock is at version 1, not 0');
+    });
+
+    it('should record history and delete keys set to null', () => {
+      sessionManager.updateSharedContext(sessionId, orchestrator, { draft: 'a' });
+      sessionManager.updateSharedContext(sessionId, reviewer, { draft: null });
+
+      expect(sessionManager.getSharedContext(sessionId)!.context).not.toHaveProperty('draft');
+      expect(sessionManager.getContextHistory(sessionId, 'draft')).toEqual([
+        expect.objectContaining({ key: 'draft', version: 1, value: 'a', updated_by: orchestrator }),
+        expect.objectContaining({ key: 'draft', version: 2, deleted: true, updated_by: reviewer })
+      ]);
+    });
+
+    it('should emit context_updated', () => {
+      const updated = jest.fn();
+      sessionManager.on('context_updated', updated);
+
+      sessionManager.updateSharedContext(sessionId, reviewer, { verdict: 'approved' });
+
+      expect(updated).toHaveBeenCalledWith(expect.objectContaining({
+        sessionId,
+        updatedBy: reviewer,
+        versions: { verdict: 1 },
+        changes: [expect.objectContaining({ key: 'verdict', value: 'approved' })]
+      }));
+    });
+
+    it('should reject non-participants and bus-managed keys', () => {
+      expect(() => sessionManager.updateSharedContext(sessionId, 'codex://stranger', { a: 1 }))
+        .toThrow('Agent codex://stranger is not a participant');
+      expect(() => sessionManager.updateSharedContext(sessionId, orchestrator, { workflow_outputs: {} }))
+        .toThrow('Shared context key workflow_outputs is managed by the bus');
+    });
+  });
+
   describe('Session Termination', () => {
     let testSessionId: string;
 
@@ -361,6 +720,32 @@ describe('SessionManager', () => {
     });
   });
 
+  describe('Session Stats', () => {
+    it('should count sessions by state and tasks by status', () => {
+      const activeId = sessionManager.createSession('claude://test-agent');
+      const terminatedId = sessionManager.createSession('claude://test-agent');
+      sessionManager.terminateSession(terminatedId, 'done');
+
+      const taskId = sessionManager.delegateTask(
+        'claude://test-agent',
+        'opencode://reviewer',
+        'code_review',
+        {},
+        { sessionId: activeId }
+      );
+      sessionManager.delegateTask('claude://test-agent', 'codex://frontend', 'implementation', {});
+      sessionManager.updateTaskStatus(taskId, 'completed');
+
+      const stats = sessionManager.getSessionStats();
+
+      expect(stats.totalSessions).toBe(2);
+      expect(stats.activeSessions).toBe(1);
+      expect(stats.terminatedSessions).toBe(1);
+      expect(stats.expiredSessions).toBe(0);
+      expect(stats.tasksByStatus).toEqual(expect.objectContaining({ completed: 1, pending: 1 }));
+    });
+  });
+
   describe('Session Cleanup', () => {
     it('should handle automatic cleanup setup', () => {
       const managerWithCleanup = new SessionManager({ autoCleanup: true, timeout: 1000 });
@@ -461,6 +846,15 @@ describe('SessionManager', () => {
       expect(delegation!.taskType).toBe('test_task');
     });
 
+    it('should not change a task that already finished', () => {
+      const taskId = sessionManager.delegateTask('claude://delegator', 'opencode://delegatee', 'test_task', {});
+      sessionManager.updateTaskStatus(taskId, 'timeout');
+
+      expect(sessionManager.updateTaskStatus(taskId, 'completed', { result: 'late' })).toBe(false);
+      expect(sessionManager.reassignTask(taskId, 'codex://other')).toBe(false);
+      expect(sessionManager.getTaskDelegation(taskId)).toMatchObject({ status: 'timeout', delegatee: 'opencode://delegatee' });
+    });
+
     it('should get tasks for agent', () => {
       sessionManager.delegateTask('agent1', 'target-agent', 'task1', {});
       sessionManager.delegateTask('agent2', 'target-agent', 'task2', {});
@@ -470,6 +864,20 @@ describe('SessionManager', () => {
       expect(tasksForTarget).toHaveLength(2);
     });
 
+    it('should list tasks in any status with filters', () => {
+      const first = sessionManager.delegateTask('agent1', 'target-agent', 'task1', {});
+      const second = sessionManager.delegateTask('agent2', 'target-agent', 'task2', {});
+      sessionManager.delegateTask('agent1', 'other-agent', 'task3', {});
+      sessionManager.updateTaskStatus(second, 'completed', { ok: true });
+
+      expect(sessionManager.getTasks()).toHaveLength(3);
+      expect(sessionManager.getTasks({ delegatee: 'target-agent' }).map(task => task.taskId)).toEqual([first, second]);
+      expect(sessionManager.getTasks({ delegatee: 'target-agent', status: 'completed' }).map(task => task.taskId))
+        .toEqual([second]);
+      expect(sessionManager.getTasks({ delegator: 'agent1' })).toHaveLength(2);
+      expect(sessionManager.getTasks({ sessionId: 'ad-hoc' })).toHaveLength(3);
+    });
+
     it('should return null for non-existent task delegation', () => {
       const delegation = sessionManager.getTaskDelegation('non-existent-task');
       expect(delegation).toBeNull();
@@ -0,0 +1,234 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  InMemorySessionRepository,
+  FileSessionRepository,
+  SqliteSessionRepository,
+  SessionRepository,
+  createSessionRepository
+} from '../../src/persistence/session-repository';
+import { SessionManager } from '../../src/session-manager';
+import { WorkflowStep } from '../../src/types/protocol';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('SessionRepository', () => {
+  const orchestrator = 'claude-code://orchestrator';
+  const participants = () => [
+    MockDataGenerator.createAgentParticipant({ agent_id: 'opencode://backend', role: 'implementer' })
+  ];
+
+  const roundTrip = async (repository: SessionRepository) => {
+    const sessionManager = new SessionManager({ autoCleanup: false, repository });
+    const sessionId = sessionManager.createSession(orchestrator, participants());
+    const taskId = sessionManager.delegateTask(orchestrator, 'opencode://backend', 'implement', {
+      description: 'Build the API'
+    }, { sessionId });
+    await sessionManager.close();
+
+    return { sessionId, taskId, snapshot: await repository.loadAll() };
+  };
+
+  beforeEach(() => {
+    MockDataGenerator.reset();
+  });
+
+  describe('FileSessionRepository', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-bus-sessions-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should store one file per session and task', async () => {
+      const { sessionId, taskId, snapshot } = await roundTrip(new FileSessionRepository(directory));
+
+      expect(fs.existsSync(path.join(directory, 'sessions', `${encodeURIComponent(sessionId)}.json`))).toBe(true);
+      expect(snapshot.sessions.map(session => session.sessionId)).toEqual([sessionId]);
+      expect(snapshot.tasks[0].taskId).toBe(taskId);
+      expect(snapshot.tasks[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should remove deleted entries', async () => {
+      const repository = new FileSessionRepository(directory);
+      const { sessionId, taskId } = await roundTrip(repository);
+
+      await repository.deleteSession(sessionId);
+      await repository.deleteTask(taskId);
+
+      expect(await repository.loadAll()).toEqual({ sessions: [], tasks: [] });
+    });
+  });
+
+  describe('SqliteSessionRepository', () => {
+    it('should round-trip sessions and tasks', async () => {
+      const repository = new SqliteSessionRepository(':memory:');
+      const sessionManager = new SessionManager({ autoCleanup: false, repository });
+      const sessionId = sessionManager.createSession(orchestrator, participants());
+      const taskId = sessionManager.delegateTask(orchestrator, 'opencode://backend', 'implement', {
+        description: 'Build the API'
+      }, { sessionId });
+      sessionManager.updateTaskStatus(taskId, 'completed', { ok: true });
+
+      const snapshot = await repository.loadAll();
+
+      expect(snapshot.sessions[0].sessionId).toBe(sessionId);
+      expect(snapshot.sessions[0].shared_context.task_progress[taskId].status).toBe('completed');
+      expect(snapshot.tasks[0]).toEqual(expect.objectContaining({ taskId, status: 'completed', result: { ok: true } }));
+      await sessionManager.close();
+    });
+  });
+
+  describe('createSessionRepository', () => {
+    it('should return nothing when persistence is disabled', () => {
+      expect(createSessionRepository({ persistenceEnabled: false })).toBeUndefined();
+    });
+
+    it('should select the configured backend', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-bus-sessions-'));
+      const sqlite = createSessionRepository({
+        persistenceEnabled: true,
+        persistenceBackend: 'sqlite',
+        persistencePath: path.join(directory, 'sessions.sqlite')
+      });
+      const file = createSessionRepository({ persistenceEnabled: true, persistencePath: directory });
+
+      expect(sqlite).toBeInstanceOf(SqliteSessionRepository);
+      expect(file).toBeInstanceOf(FileSessionRepository);
+      await sqlite!.close();
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+  });
+
+  describe('Restoring a SessionManager', () => {
+    let repository: InMemorySessionRepository;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      repository = new InMemorySessionRepository();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should restore sessions and re-arm timeouts for in-flight tasks', async () => {
+      const first = new SessionManager({ autoCleanup: false, repository });
+      const sessionId = first.createSession(orchestrator, participants());
+      const taskId = first.delegateTask(orchestrator, 'opencode://backend', 'implement', {
+        description: 'Build the API'
+      }, { sessionId, timeout: 10000 });
+      await first.close();
+
+      jest.advanceTimersByTime(4000);
+      const second = new SessionManager({ autoCleanup: false, repository });
+      const timedOut = jest.fn();
+      second.on('task_updated', timedOut);
+
+      expect(await second.restore()).toEqual({ sessions: 1, tasks: 1 });
+      expect(second.getSession(sessionId)).toBeDefined();
+
+      jest.advanceTimersByTime(5999);
+      expect(timedOut).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(timedOut).toHaveBeenCalledWith(expect.objectContaining({ taskId, status: 'timeout' }));
+      expect(second.getSession(sessionId)!.shared_context.task_progress[taskId].status).toBe('timeout');
+      await second.close();
+    });
+
+    it('should re-arm retries that were waiting on backoff', async () => {
+      const first = new SessionManager({ autoCleanup: false, repository, retryBaseDelay: 2000, retryPolicy: { maxRetries: 1 } });
+      const taskId = first.delegateTask(orchestrator, 'opencode://backend', 'implement', {});
+      first.updateTaskStatus(taskId, 'failed', { error: 'Crashed' });
+      await first.close();
+
+      const second = new SessionManager({ autoCleanup: false, repository });
+      const retried = jest.fn();
+      second.on('task_retry', retried);
+      await second.restore();
+
+      jest.advanceTimersByTime(2000);
+      expect(retried).toHaveBeenCalledWith(expect.objectContaining({ taskId, attempt: 2 }));
+      await second.close();
+    });
+
+    it('should remove terminated sessions together with their tasks', async () => {
+      const first = new SessionManager({ autoCleanup: false, repository });
+      const sessionId = first.createSession(orchestrator, participants());
+      first.delegateTask(orchestrator, 'opencode://backend', 'implement', {}, { sessionId });
+      first.terminateSession(sessionId);
+      await first.close();
+
+      expect(await repository.loadAll()).toEqual({ sessions: [], tasks: [] });
+    });
+
+    it('should keep finished tasks only while their session is live', async () => {
+      const first = new SessionManager({ autoCleanup: false, repository });
+      const sessionId = first.createSession(orchestrator, participants());
+      const sessionTask = first.delegateTask(orchestrator, 'opencode://backend', 'implement', {}, { sessionId });
+      const adHocTask = first.delegateTask(orchestrator, 'opencode://backend', 'implement', {});
+      first.updateTaskStatus(sessionTask, 'completed');
+      first.updateTaskStatus(adHocTask, 'completed');
+      await first.close();
+
+      const { tasks } = await repository.loadAll();
+      expect(tasks.map(task => task.taskId)).toEqual([sessionTask]);
+    });
+
+    it('should not restore terminated sessions or finished ad-hoc tasks left in the store', async () => {
+      const first = new SessionManager({ autoCleanup: false, repository });
+      const sessionId = first.createSession(orchestrator, participants());
+      const taskId = first.delegateTask(orchestrator, 'opencode://backend', 'implement', {}, { sessionId, timeout: 10000 });
+      const adHocTask = first.delegateTask(orchestrator, 'opencode://backend', 'implement', {});
+      await first.close();
+      const { sessions, tasks } = await repository.loadAll();
+      await repository.saveSession({ ...sessions[0]!, terminated_at: new Date().toISOString() });
+      await repository.saveTask({ ...tasks.find(task => task.taskId === adHocTask)!, status: 'completed' });
+
+      const second = new SessionManager({ autoCleanup: false, repository });
+      const timedOut = jest.fn();
+      second.on('task_updated', timedOut);
+
+      expect(await second.restore()).toEqual({ sessions: 0, tasks: 0 });
+      expect(second.getSession(sessionId)).toBeNull();
+      expect(second.getTaskDelegation(taskId)).toBeNull();
+      jest.advanceTimersByTime(10000);
+      expect(timedOut).not.toHaveBeenCalled();
+      expect(await repository.loadAll()).toEqual({ sessions: [], tasks: [] });
+      await second.close();
+    });
+
+    it('should resume running workflows', async () => {
+      const steps: WorkflowStep[] = [
+        { name: 'design', description: 'Design', required_agents: ['implementer'], estimated_duration: 60, outputs: ['plan'] },
+        { name: 'build', description: 'Build', required_agents: ['implementer'], estimated_duration: 60, dependencies: ['design'], outputs: [] }
+      ];
+      const first = new SessionManager({ autoCleanup: false, repository });
+      const sessionId = first.createSession(orchestrator, participants(), steps);
+      first.startWorkflow(sessionId);
+      const [designTask] = first.getTasksForAgent('opencode://backend');
+      await first.close();
+
+      const second = new SessionManager({ autoCleanup: false, repository });
+      const resumed = jest.fn();
+      const started = jest.fn();
+      second.on('workflow_resumed', resumed);
+      second.on('workflow_step_started', started);
+      await second.restore();
+
+      expect(resumed).toHaveBeenCalledWith({ sessionId, running: ['design'] });
+      expect(second.getSession(sessionId)!.workflow.status).toBe('running');
+
+      second.updateTaskStatus(designTask.taskId, 'completed', { plan: 'REST API' });
+
+      expect(started).toHaveBeenCalledWith(expect.objectContaining({ step: 'build' }));
+      expect(second.getSession(sessionId)!.shared_context.workflow_outputs).toEqual({ plan: 'REST API' });
+      await second.close();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { CommunicationBus } from '../../src/communication-bus';
+import {
+  TranscriptRecorder,
+  parseJsonLines,
+  toJsonLines,
+  toMarkdown
+} from '../../src/transcript-recorder';
+import { TranscriptReplayer } from '../../src/transcript-replayer';
+import { AgentMessage, WorkflowStep } from '../../src/types/protocol';
+import { MockDataGenerator } from '../utils/mock-generators';
+import { LiveBusHarness } from '../utils/live-bus';
+
+describe('TranscriptRecorder', () => {
+  const sessionId = 'sess_1';
+
+  beforeEach(() => {
+    MockDataGenerator.reset();
+  });
+
+  it('should number entries per session and copy them when recorded', () => {
+    const recorder = new TranscriptRecorder();
+    const message = MockDataGenerator.createAgentMessage();
+
+    recorder.record(sessionId, 'message', 'message_sent', { message });
+    recorder.record(sessionId, 'task', 'task_updated', { task_id: 'task_1', status: 'completed' });
+    recorder.record('sess_2', 'workflow', 'workflow_started');
+    message.payload = { changed: true };
+
+    const transcript = recorder.getTranscript(sessionId);
+    expect(transcript.map(entry => entry.sequence)).toEqual([1, 2]);
+    expect(transcript[0].message!.payload).not.toEqual({ changed: true });
+    expect(recorder.getTranscript('sess_2')[0].sequence).toBe(1);
+  });
+
+  it('should keep session_created when trimming old entries', () => {
+    const recorder = new TranscriptRecorder(3);
+    recorder.record(sessionId, 'session', 'session_created');
+    for (let i = 0; i < 5; i++) {
+      recorder.record(sessionId, 'task', 'task_updated', { task_id: `task_${i}` });
+    }
+
+    expect(recorder.getTranscript(sessionId).map(entry => entry.sequence)).toEqual([1, 5, 6]);
+  });
+
+  it('should drop the oldest transcripts beyond the session limit', () => {
+    const recorder = new TranscriptRecorder(100, 2);
+    ['sess_1', 'sess_2', 'sess_3'].forEach(id => recorder.record(id, 'session', 'session_created'));
+
+    expect(recorder.getSessionIds()).toEqual(['sess_2', 'sess_3']);
+  });
+
+  describe('Export', () => {
+    it('should round-trip JSON Lines', () => {
+      const recorder = new TranscriptRecorder();
+      recorder.record(sessionId, 'session', 'session_created', { data: { orchestrator: 'claude-code://lead' } });
+      recorder.record(sessionId, 'message', 'message_sent', { message: MockDataGenerator.createAgentMessage() });
+      const entries = recorder.getTranscript(sessionId);
+
+      const jsonl = toJsonLines(entries);
+
+      expect(jsonl.trim().split('\n')).toHaveLength(2);
+      expect(parseJsonLines(`${jsonl}\n\n`)).toEqual(entries);
+    });
+
+    it('should name the line of invalid JSON Lines input', () => {
+      expect(() => parseJsonLines('{"sequence":1,"session_id":"s","event":"e"}\nnot json'))
+        .toThrow('Invalid transcript line 2');
+      expect(() => parseJsonLines('{"sequence":1}')).toThrow('expected sequence, session_id and event');
+    });
+
+    it('should render a Markdown timeline with message payloads', () => {
+      const recorder = new TranscriptRecorder();
+      const message = MockDataGenerator.createAgentMessage({ payload: { task_type: 'code_review' } });
+      recorder.record(sessionId, 'message', 'message_sent', { message });
+      recorder.record(sessionId, 'task', 'task_updated', {
+        task_id: 'task_1',
+        status: 'failed',
+        data: { result: { error: 'Crashed | exit 1' } }
+      });
+      recorder.record(sessionId, 'workflow', 'workflow_step_failed', { data: { step: 'review', error: 'Crashed' } });
+
+      const markdown = toMarkdown(sessionId, recorder.getTranscript(sessionId));
+
+      expect(markdown).toContain(`# Session ${sessionId}`);
+      expect(markdown).toContain(`| 1 |`);
+      expect(markdown).toContain(`${message.message_type} ${message.sender.agent_id} → ${message.recipient.agent_id}`);
+      expect(markdown).toContain('| task task_1, failed |');
+      expect(markdown).toContain('step review, Crashed');
+      expect(markdown).toContain('"task_type": "code_review"');
+    });
+  });
+
+  describe('Recording and replaying a bus session', () => {
+    const orchestrator = 'claude-code://lead';
+    const backend = 'opencode://backend';
+    const reviewer = 'codex://reviewer';
+    const steps: WorkflowStep[] = [
+      { name: 'implement', description: 'Implement', required_agents: [backend], estimated_duration: 60, outputs: ['changes'] },
+      { name: 'review', description: 'Review', required_agents: [reviewer], estimated_duration: 60, dependencies: ['implement'], outputs: [] }
+    ];
+    const harness = new LiveBusHarness();
+
+    // Agents complete each task; the reviewer fails its first attempt
+    const answer = (agentId: string, attempts: Map<string, number>) => (message: AgentMessage): AgentMessage[] => {
+      if (message.message_type !== 'task_request') {
+        return [];
+      }
+      const taskId = message.metadata!.task_id;
+      const attempt = (attempts.get(taskId) || 0) + 1;
+      attempts.set(taskId, attempt);
+      const failed = agentId === reviewer && attempt === 1;
+      return [{
+        message_id: `reply-${agentId}-${attempt}`,
+        timestamp: new Date().toISOString(),
+        sender: { agent_id: agentId, framework: 'stub', session_id: message.sender.session_id! },
+        recipient: { agent_id: message.sender.agent_id, framework: 'stub' },
+        message_type: failed ? 'error' : 'task_response',
+        priority: 'medium',
+        payload: failed ? { error: 'Reviewer crashed' } : { changes: 'diff --git' },
+        routing: { timeout: '30s', retry_policy: { max_retries: 0, backoff: 'linear' }, delivery_mode: 'async' },
+        metadata: { task_id: taskId, correlation_id: message.message_id }
+      }];
+    };
+
+    // The reviewer's failed first attempt is retried once
+    const retryOnce = { taskMaxRetries: 1 };
+
+    const record = async () => {
+      const bus = await harness.startBus(retryOnce);
+      const attempts = new Map<string, number>();
+      for (const agentId of [orchestrator, backend, reviewer]) {
+        await harness.connectAgent(bus, agentId, answer(agentId, attempts));
+      }
+
+      const finished = new Promise(resolve => bus.once('workflow_completed', resolve));
+      const sessionId = bus.createSession(orchestrator, [
+        MockDataGenerator.createAgentParticipant({ agent_id: backend, role: 'implementer' }),
+        MockDataGenerator.createAgentParticipant({ agent_id: reviewer, role: 'reviewer' })
+      ], steps, { startWorkflow: true });
+      await finished;
+      return { bus, sessionId };
+    };
+
+    const summarize = (entries: ReturnType<CommunicationBus['getTranscript']>) => entries
+      .filter(entry => entry.kind !== 'message')
+      .map(entry => `${entry.event}${entry.status ? `:${entry.status}` : ''}`);
+
+    afterEach(async () => {
+      await harness.cleanup();
+    });
+
+    it('should record messages, task status changes and workflow transitions', async () => {
+      const { bus, sessionId } = await record();
+
+      const events = summarize(bus.getTranscript(sessionId));
+
+      expect(events[0]).toBe('session_created');
+      expect(events).toEqual(expect.arrayContaining([
+        'workflow_started',
+        'task_retry_scheduled:failed',
+        'task_retry:pending',
+        'workflow_completed'
+      ]));
+      expect(bus.getTranscript(sessionId).filter(entry => entry.event === 'message_received')).toHaveLength(3);
+      expect(bus.exportTranscript(sessionId, 'markdown')).toContain('Reviewer crashed');
+    });
+
+    it('should replay a recorded transcript against stub agents', async () => {
+      const { bus, sessionId } = await record();
+      const recorded = parseJsonLines(bus.exportTranscript(sessionId, 'jsonl'));
+
+      const result = await new TranscriptReplayer(await harness.startBus(retryOnce), { stepTimeout: 2000 }).replay(recorded);
+
+      expect(result.sessionId).not.toBe(sessionId);
+      expect(result.unmatched).toEqual([]);
+      expect(result.unexpected).toEqual([]);
+      expect(summarize(result.transcript)).toEqual(summarize(recorded));
+    });
+
+    it('should report recorded replies the replayed run never asked for', async () => {
+      const { bus, sessionId } = await record();
+      const recorded = bus.getTranscript(sessionId)
+        .filter(entry => entry.event !== 'workflow_started');
+
+      const result = await new TranscriptReplayer(await harness.startBus(retryOnce), { stepTimeout: 50 }).replay(recorded);
+
+      expect(result.unmatched.map(entry => entry.message!.sender.agent_id)).toEqual([backend, reviewer, reviewer]);
+    });
+
+    it('should refuse to replay on a bus that is not listening', async () => {
+      const { bus, sessionId } = await record();
+      const idle = new CommunicationBus(MockDataGenerator.createCommunicationBusConfig());
+
+      await expect(new TranscriptReplayer(idle).replay(bus.getTranscript(sessionId)))
+        .rejects.toThrow('Replay needs a started bus');
+      await idle.stop();
+    });
+
+    it('should reject transcripts without a session_created entry', async () => {
+      await expect(new TranscriptReplayer(await harness.startBus()).replay([])).rejects.toThrow('no session_created entry');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { evaluateCondition, validateCondition } from '../../src/workflow-conditions';
+
+describe('Workflow conditions', () => {
+  const scope = {
+    outputs: { critical_issues: 2, verdict: 'changes_requested', labels: ['security', 'api'] },
+    context: { environment: 'staging', hotfix: false }
+  };
+
+  describe('Evaluation', () => {
+    it('should compare values at dot paths', () => {
+      expect(evaluateCondition({ path: 'outputs.critical_issues', operator: 'gt', value: 0 }, scope)).toBe(true);
+      expect(evaluateCondition({ path: 'outputs.critical_issues', operator: 'lte', value: 1 }, scope)).toBe(false);
+      expect(evaluateCondition({ path: 'context.environment', value: 'staging' }, scope)).toBe(true);
+      expect(evaluateCondition({ path: 'outputs.verdict', operator: 'in', value: ['approved', 'merged'] }, scope))
+        .toBe(false);
+      expect(evaluateCondition({ path: 'outputs.labels', operator: 'contains', value: 'security' }, scope)).toBe(true);
+    });
+
+    it('should default to a truthiness check', () => {
+      expect(evaluateCondition({ path: 'context.hotfix' }, scope)).toBe(false);
+      expect(evaluateCondition({ path: 'outputs.labels' }, scope)).toBe(true);
+      expect(evaluateCondition({ path: 'outputs.missing', operator: 'exists' }, scope)).toBe(false);
+    });
+
+    it('should combine conditions', () => {
+      expect(evaluateCondition({
+        all: [
+          { path: 'outputs.critical_issues', operator: 'gt', value: 0 },
+          { not: { path: 'context.environment', value: 'production' } }
+        ]
+      }, scope)).toBe(true);
+      expect(evaluateCondition({
+        any: [{ path: 'context.hotfix' }, { path: 'outputs.verdict', value: 'approved' }]
+      }, scope)).toBe(false);
+    });
+
+    it('should not order non-numeric values', () => {
+      expect(evaluateCondition({ path: 'outputs.verdict', operator: 'gt', value: 0 }, scope)).toBe(false);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require paths rooted at outputs or context', () => {
+      expect(() => validateCondition({ path: 'payload.issues' }, 'review.condition'))
+        .toThrow("Workflow condition review.condition.path must start with 'outputs.' or 'context.'");
+    });
+
+    it('should reject unknown operators in nested conditions', () => {
+      expect(() => validateCondition({ all: [{ path: 'outputs.a', operator: 'matches' }] }, 'c'))
+        .toThrow("Workflow condition c.all[0].operator 'matches' is not supported");
+    });
+  });
+});
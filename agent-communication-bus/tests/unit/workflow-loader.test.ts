@@ -0,0 +1,200 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadWorkflowDefinition,
+  normalizeWorkflowDefinition,
+  parseWorkflowDefinition
+} from '../../src/config/workflow-loader';
+import { SessionManager } from '../../src/session-manager';
+
+describe('Workflow definition loader', () => {
+  const yamlDefinition = `
+name: review-implement-test
+agents:
+  reviewer: claude-code://reviewer
+  backend: opencode://backend
+inputs: [requirements]
+steps:
+  - name: review
+    required_agents: [reviewer]
+    inputs: [requirements]
+    outputs: [plan]
+    timeout: 5m
+  - name: implement
+    description: Implement the plan
+    required_agents: [backend]
+    dependencies: [review]
+    inputs: [plan]
+    outputs: [changes]
+    timeout: 1800
+  - name: test
+    required_agents: [reviewer, opencode://backend]
+    dependencies: [implement]
+    inputs: [plan, changes]
+    outputs: [report]
+`;
+
+  const createDefinition = (steps: unknown[]) => ({
+    name: 'broken',
+    agents: { reviewer: 'claude-code://reviewer' },
+    steps
+  });
+
+  describe('Parsing', () => {
+    it('should produce workflow steps from YAML', () => {
+      const definition = parseWorkflowDefinition(yamlDefinition, 'yaml');
+
+      expect(definition.name).toBe('review-implement-test');
+      expect(definition.inputs).toEqual(['requirements']);
+      expect(definition.steps[0]).toEqual({
+        name: 'review',
+        description: 'review',
+        required_agents: ['claude-code://reviewer'],
+        estimated_duration: 300,
+        inputs: ['requirements'],
+        outputs: ['plan'],
+        timeout: 300
+      });
+      expect(definition.steps[1]).toEqual(expect.objectContaining({
+        description: 'Implement the plan',
+        required_agents: ['opencode://backend'],
+        dependencies: ['review'],
+        timeout: 1800
+      }));
+      expect(definition.steps[2].required_agents).toEqual(['claude-code://reviewer', 'opencode://backend']);
+    });
+
+    it('should build a participant for each declared agent', () => {
+      const definition = parseWorkflowDefinition(yamlDefinition);
+
+      expect(definition.participants).toEqual([
+        expect.objectContaining({ agent_id: 'claude-code://reviewer', framework: 'claude-code', role: 'reviewer' }),
+        expect.objectContaining({ agent_id: 'opencode://backend', framework: 'opencode', role: 'backend' })
+      ]);
+    });
+
+    it('should accept the same definition as JSON', () => {
+      const fromYaml = parseWorkflowDefinition(yamlDefinition, 'yaml');
+      const json = JSON.stringify({ ...fromYaml, participants: undefined });
+
+      expect(parseWorkflowDefinition(json, 'json').steps).toEqual(fromYaml.steps);
+    });
+
+    it('should produce steps SessionManager can run', () => {
+      const sessionManager = new SessionManager({ autoCleanup: false });
+      const definition = parseWorkflowDefinition(yamlDefinition);
+      const sessionId = sessionManager.createSession('claude-code://orchestrator', definition.participants, definition.steps);
+
+      expect(sessionManager.getSession(sessionId)!.workflow.pending_steps).toEqual(['review', 'implement', 'test']);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject dependency cycles', () => {
+      expect(() => normalizeWorkflowDefinition(createDefinition([
+        { name: 'a', required_agents: ['reviewer'], dependencies: ['b'] },
+        { name: 'b', required_agents: ['reviewer'], dependencies: ['a'] }
+      ]))).toThrow('dependency cycle');
+    });
+
+    it('should reject unknown agents', () => {
+      expect(() => normalizeWorkflowDefinition(createDefinition([
+        { name: 'a', required_agents: ['deployer'] }
+      ]))).toThrow("steps[0].required_agents[0] references unknown agent 'deployer'");
+    });
+
+    it('should reject inputs that no step outputs', () => {
+      expect(() => normalizeWorkflowDefinition(createDefinition([
+        { name: 'a', required_agents: ['reviewer'], inputs: ['plan'] }
+      ]))).toThrow("Step a requires input 'plan' that no step outputs");
+    });
+
+    it('should reject inputs from steps that are not dependencies', () => {
+      expect(() => normalizeWorkflowDefinition(createDefinition([
+        { name: 'a', required_agents: ['reviewer'], outputs: ['plan'] },
+        { name: 'b', required_agents: ['reviewer'], inputs: ['plan'] }
+      ]))).toThrow("Step b requires input 'plan' from a but does not depend on it");
+    });
+
+    it('should keep conditions, loops and failure branches', () => {
+      const definition = normalizeWorkflowDefinition(createDefinition([
+        { name: 'implement', required_agents: ['reviewer'], on_failure: 'fallback', outputs: ['changes'] },
+        { name: 'fallback', required_agents: ['reviewer'], outputs: ['patch'] },
+        {
+          name: 'review',
+          required_agents: ['reviewer'],
+          dependencies: ['implement'],
+          condition: { path: 'context.review_enabled' },
+          inputs: ['changes', 'patch'],
+          outputs: ['critical_issues'],
+          loop: {
+            target: 'implement',
+            when: { path: 'outputs.critical_issues', operator: 'gt', value: 0 },
+            max_iterations: 3
+          }
+        }
+      ]));
+
+      expect(definition.steps[0].on_failure).toBe('fallback');
+      expect(definition.steps[2].condition).toEqual({ path: 'context.review_enabled' });
+      expect(definition.steps[2].loop).toEqual({
+        target: 'implement',
+        when: { path: 'outputs.critical_issues', operator: 'gt', value: 0 },
+        max_iterations: 3
+      });
+    });
+
+    it('should reject loops without an iteration limit', () => {
+      expect(() => normalizeWorkflowDefinition(createDefinition([
+        { name: 'a', required_agents: ['reviewer'], loop: { target: 'a', when: { path: 'outputs.x' } } }
+      ]))).toThrow('steps[0].loop.max_iterations must be a positive integer');
+    });
+
+    it('should reject unknown failure branches', () => {
+      expect(() => normalizeWorkflowDefinition(createDefinition([
+        { name: 'a', required_agents: ['reviewer'], on_failure: 'rollback' }
+      ]))).toThrow('Workflow step a has unknown on_failure step rollback');
+    });
+
+    it('should reject invalid timeouts', () => {
+      expect(() => normalizeWorkflowDefinition(createDefinition([
+        { name: 'a', required_agents: ['reviewer'], timeout: 'soon' }
+      ]))).toThrow('steps[0].timeout must be a number of seconds');
+    });
+  });
+
+  describe('Loading files', () => {
+    let workflowDir: string;
+
+    beforeEach(() => {
+      workflowDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-bus-workflow-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(workflowDir, { recursive: true, force: true });
+    });
+
+    it('should pick the format from the file extension', () => {
+      const filePath = path.join(workflowDir, 'pipeline.yml');
+      fs.writeFileSync(filePath, yamlDefinition);
+
+      expect(loadWorkflowDefinition(filePath).steps).toHaveLength(3);
+    });
+
+    it('should name the file in validation errors', () => {
+      const filePath = path.join(workflowDir, 'pipeline.json');
+      fs.writeFileSync(filePath, JSON.stringify(createDefinition([])));
+
+      expect(() => loadWorkflowDefinition(filePath))
+        .toThrow(`Invalid workflow definition ${filePath}: Workflow definition value for steps must be a non-empty array`);
+    });
+
+    it('should reject unsupported extensions', () => {
+      const filePath = path.join(workflowDir, 'pipeline.txt');
+      fs.writeFileSync(filePath, yamlDefinition);
+
+      expect(() => loadWorkflowDefinition(filePath)).toThrow('must have a .json, .yaml or .yml extension');
+    });
+  });
+});
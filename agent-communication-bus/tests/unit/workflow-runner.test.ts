@@ -0,0 +1,353 @@
+import { SessionManager } from '../../src/session-manager';
+import { WorkflowRunner } from '../../src/workflow-runner';
+import { WorkflowStep } from '../../src/types/protocol';
+import { MockDataGenerator } from '../utils/mock-generators';
+
+describe('WorkflowRunner', () => {
+  const orchestrator = 'claude-code://orchestrator';
+  let sessionManager: SessionManager;
+
+  const createStep = (name: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep => ({
+    name,
+    description: `Run ${name}`,
+    required_agents: ['implementer'],
+    estimated_duration: 60,
+    outputs: [],
+    ...overrides
+  });
+
+  const createSession = (steps: WorkflowStep[]) => sessionManager.createSession(orchestrator, [
+    MockDataGenerator.createAgentParticipant({ agent_id: 'opencode://backend', role: 'implementer' }),
+    MockDataGenerator.createAgentParticipant({ agent_id: 'codex://frontend', role: 'frontend' }),
+    MockDataGenerator.createAgentParticipant({ agent_id: 'claude-code://qa', role: 'reviewer' })
+  ], steps);
+
+  const tasksFor = (step: string) => sessionManager.getTasksForAgent('opencode://backend')
+    .concat(sessionManager.getTasksForAgent('codex://frontend'), sessionManager.getTasksForAgent('claude-code://qa'))
+    .filter(task => task.taskType === step);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockDataGenerator.reset();
+    sessionManager = new SessionManager({ autoCleanup: false });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Topological ordering', () => {
+    it('should place every step after its dependencies', () => {
+      const order = WorkflowRunner.topologicalOrder([
+        createStep('review', { dependencies: ['backend', 'frontend'] }),
+        createStep('backend', { dependencies: ['design'] }),
+        createStep('frontend', { dependencies: ['design'] }),
+        createStep('design')
+      ]);
+
+      expect(order).toEqual(['design', 'backend', 'frontend', 'review']);
+    });
+
+    it('should reject cycles', () => {
+      expect(() => WorkflowRunner.topologicalOrder([
+        createStep('a', { dependencies: ['b'] }),
+        createStep('b', { dependencies: ['a'] })
+      ])).toThrow('dependency cycle involving: a, b');
+    });
+
+    it('should reject unknown dependencies', () => {
+      expect(() => WorkflowRunner.topologicalOrder([createStep('a', { dependencies: ['missing'] })]))
+        .toThrow('Workflow step a depends on unknown step missing');
+    });
+  });
+
+  describe('Execution', () => {
+    const steps = [
+      createStep('design', { required_agents: [orchestrator], outputs: ['architecture'] }),
+      createStep('backend', { dependencies: ['design'], outputs: ['api_spec'] }),
+      createStep('frontend', { dependencies: ['design'], required_agents: ['frontend'], outputs: ['ui'] }),
+      createStep('review', { dependencies: ['backend', 'frontend'], required_agents: ['reviewer'] })
+    ];
+
+    it('should delegate steps once their dependencies complete', () => {
+      const sessionId = createSession(steps);
+      const started = jest.fn();
+      sessionManager.on('workflow_step_started', started);
+
+      expect(sessionManager.startWorkflow(sessionId)).toBe(true);
+      expect(started).toHaveBeenCalledTimes(1);
+      expect(started.mock.calls[0][0].step).toBe('design');
+
+      const [designTask] = sessionManager.getTasksForAgent(orchestrator);
+      expect(designTask.delegatee).toBe(orchestrator);
+      // Without a timeout the step gets three times its 60s estimate
+      expect(designTask.timeout).toBe(180000);
+
+      sessionManager.updateTaskStatus(designTask.taskId, 'completed', { architecture: 'layered' });
+
+      // backend and frontend only depend on design, so they run in parallel
+      expect(started.mock.calls.map(call => call[0].step)).toEqual(['design', 'backend', 'frontend']);
+      expect(sessionManager.getSession(sessionId)!.workflow.running_steps).toEqual(['backend', 'frontend']);
+    });
+
+    it('should pass declared outputs to downstream steps', () => {
+      const sessionId = createSession(steps);
+      sessionManager.startWorkflow(sessionId);
+
+      const [designTask] = sessionManager.getTasksForAgent(orchestrator);
+      sessionManager.updateTaskStatus(designTask.taskId, 'completed', {
+        task_id: designTask.taskId,
+        result: { architecture: 'layered', notes: 'ignored' }
+      });
+
+      const [backendTask] = tasksFor('backend');
+      expect(backendTask.delegatee).toBe('opencode://backend');
+      expect(backendTask.payload).toEqual(expect.objectContaining({
+        task_type: 'backend',
+        workflow_step: 'backend',
+        inputs: { architecture: 'layered' }
+      }));
+      expect(sessionManager.getSession(sessionId)!.shared_context.workflow_outputs).toEqual({
+        architecture: 'layered'
+      });
+    });
+
+    it('should only pass declared inputs, falling back to the shared context', () => {
+      const sessionId = createSession([
+        createStep('plan', { outputs: ['plan', 'notes'] }),
+        createStep('build', { dependencies: ['plan'], inputs: ['plan', 'requirements'], timeout: 120 })
+      ]);
+      sessionManager.getSession(sessionId)!.shared_context.requirements = ['auth'];
+      sessionManager.startWorkflow(sessionId);
+
+      sessionManager.updateTaskStatus(tasksFor('plan')[0].taskId, 'completed', { plan: 'p', notes: 'n' });
+
+      const [buildTask] = tasksFor('build');
+      expect(buildTask.payload.inputs).toEqual({ plan: 'p', requirements: ['auth'] });
+      expect(buildTask.timeout).toBe(120000);
+    });
+
+    it('should complete the workflow when every step completes', () => {
+      const sessionId = createSession(steps);
+      const completed = jest.fn();
+      sessionManager.on('workflow_completed', completed);
+      sessionManager.startWorkflow(sessionId);
+
+      sessionManager.updateTaskStatus(sessionManager.getTasksForAgent(orchestrator)[0].taskId, 'completed', {
+        architecture: 'layered'
+      });
+      sessionManager.updateTaskStatus(tasksFor('backend')[0].taskId, 'completed', { outputs: { api_spec: 'v1' } });
+      expect(tasksFor('review')).toHaveLength(0);
+
+      sessionManager.updateTaskStatus(tasksFor('frontend')[0].taskId, 'completed', 'ui bundle');
+      const [reviewTask] = tasksFor('review');
+      expect(reviewTask.payload.inputs).toEqual({ api_spec: 'v1', ui: 'ui bundle' });
+
+      sessionManager.updateTaskStatus(reviewTask.taskId, 'completed', { approved: true });
+
+      const session = sessionManager.getSession(sessionId)!;
+      expect(session.workflow.status).toBe('completed');
+      expect(session.workflow.completed_steps).toEqual(['design', 'backend', 'frontend', 'review']);
+      expect(completed).toHaveBeenCalledWith({
+        sessionId,
+        outputs: { architecture: 'layered', api_spec: 'v1', ui: 'ui bundle' }
+      });
+    });
+
+    it('should fail the workflow when a task fails', () => {
+      const sessionId = createSession(steps);
+      const failed = jest.fn();
+      sessionManager.on('workflow_failed', failed);
+      sessionManager.startWorkflow(sessionId);
+
+      const [designTask] = sessionManager.getTasksForAgent(orchestrator);
+      sessionManager.updateTaskStatus(designTask.taskId, 'failed', { error: 'crashed' });
+
+      const session = sessionManager.getSession(sessionId)!;
+      expect(session.workflow.status).toBe('failed');
+      expect(session.workflow.failed_steps).toEqual(['design']);
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ sessionId, step: 'design' }));
+      expect(tasksFor('backend')).toHaveLength(0);
+    });
+
+    it('should fail the step when its task is cancelled', () => {
+      const sessionId = createSession(steps);
+      sessionManager.startWorkflow(sessionId);
+
+      const [designTask] = sessionManager.getTasksForAgent(orchestrator);
+      sessionManager.cancelTask(designTask.taskId, 'Requirements changed');
+
+      const session = sessionManager.getSession(sessionId)!;
+      expect(session.workflow.failed_steps).toEqual(['design']);
+      expect(session.workflow.error).toContain('ended with status cancelled');
+    });
+
+    it('should fail a step whose agents are not in the session', () => {
+      const sessionId = createSession([createStep('deploy', { required_agents: ['operator'] })]);
+      const stepFailed = jest.fn();
+      sessionManager.on('workflow_step_failed', stepFailed);
+
+      sessionManager.startWorkflow(sessionId);
+
+      expect(stepFailed).toHaveBeenCalledWith({
+        sessionId,
+        step: 'deploy',
+        error: 'No session participant matches required agent operator'
+      });
+    });
+
+    it('should stop driving the workflow once the session is terminated', () => {
+      const sessionId = createSession(steps);
+      sessionManager.startWorkflow(sessionId);
+      sessionManager.terminateSession(sessionId);
+
+      sessionManager.updateTaskStatus(sessionManager.getTasksForAgent(orchestrator)[0].taskId, 'completed', {});
+
+      expect(tasksFor('backend')).toHaveLength(0);
+    });
+
+    it('should not start sessions without steps', () => {
+      expect(sessionManager.startWorkflow(createSession([]))).toBe(false);
+      expect(sessionManager.startWorkflow('missing')).toBe(false);
+    });
+  });
+
+  describe('Branching and loops', () => {
+    const latestTask = (step: string) => tasksFor(step)[tasksFor(step).length - 1];
+    const reviewLoop = (overrides: Partial<NonNullable<WorkflowStep['loop']>> = {}) => [
+      createStep('implement', { outputs: ['changes'] }),
+      createStep('review', {
+        dependencies: ['implement'],
+        required_agents: ['reviewer'],
+        outputs: ['critical_issues'],
+        loop: {
+          target: 'implement',
+          when: { path: 'outputs.critical_issues', operator: 'gt', value: 0 },
+          max_iterations: 2,
+          ...overrides
+        }
+      }),
+      createStep('deploy', { dependencies: ['review'], required_agents: ['frontend'] })
+    ];
+
+    it('should loop back while the guard holds', () => {
+      const sessionId = createSession(reviewLoop());
+      const loop = jest.fn();
+      sessionManager.on('workflow_loop', loop);
+      sessionManager.startWorkflow(sessionId);
+
+      sessionManager.updateTaskStatus(latestTask('implement').taskId, 'completed', { changes: 'v1' });
+      sessionManager.updateTaskStatus(latestTask('review').taskId, 'completed', { critical_issues: 2 });
+
+      expect(loop).toHaveBeenCalledWith({ sessionId, step: 'review', target: 'implement', iteration: 1 });
+      expect(tasksFor('implement')).toHaveLength(1);
+      expect(latestTask('implement').payload.loop).toEqual({
+        step: 'review',
+        iteration: 1,
+        outputs: { critical_issues: 2 }
+      });
+      expect(sessionManager.getSession(sessionId)!.workflow.pending_steps).toEqual(['review', 'deploy']);
+
+      sessionManager.updateTaskStatus(latestTask('implement').taskId, 'completed', { changes: 'v2' });
+      sessionManager.updateTaskStatus(latestTask('review').taskId, 'completed', { critical_issues: 0 });
+
+      expect(tasksFor('deploy')).toHaveLength(1);
+      expect(sessionManager.getSession(sessionId)!.workflow.iterations).toEqual({ review: 1 });
+    });
+
+    it('should fail the workflow when the loop is exhausted', () => {
+      const sessionId = createSession(reviewLoop({ max_iterations: 1 }));
+      const exhausted = jest.fn();
+      sessionManager.on('workflow_loop_exhausted', exhausted);
+      sessionManager.startWorkflow(sessionId);
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        sessionManager.updateTaskStatus(latestTask('implement').taskId, 'completed', {});
+        sessionManager.updateTaskStatus(latestTask('review').taskId, 'completed', { critical_issues: 1 });
+      }
+
+      const workflow = sessionManager.getSession(sessionId)!.workflow;
+      expect(exhausted).toHaveBeenCalledWith(expect.objectContaining({ step: 'review', iterations: 1 }));
+      expect(workflow.status).toBe('failed');
+      expect(workflow.error).toBe('Loop from review to implement still active after 1 iterations');
+      expect(tasksFor('deploy')).toHaveLength(0);
+    });
+
+    it('should continue past an exhausted loop when configured to', () => {
+      const sessionId = createSession(reviewLoop({ max_iterations: 1, on_exhausted: 'continue' }));
+      sessionManager.startWorkflow(sessionId);
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        sessionManager.updateTaskStatus(latestTask('implement').taskId, 'completed', {});
+        sessionManager.updateTaskStatus(latestTask('review').taskId, 'completed', { critical_issues: 1 });
+      }
+
+      expect(tasksFor('deploy')).toHaveLength(1);
+    });
+
+    it('should skip steps whose condition is not met', () => {
+      const sessionId = createSession([
+        createStep('hotfix', { condition: { path: 'context.hotfix_enabled' } }),
+        createStep('deploy', { dependencies: ['hotfix'], required_agents: ['frontend'] })
+      ]);
+      const skipped = jest.fn();
+      sessionManager.on('workflow_step_skipped', skipped);
+
+      sessionManager.startWorkflow(sessionId);
+
+      expect(skipped).toHaveBeenCalledWith({ sessionId, step: 'hotfix', reason: 'Condition not met' });
+      expect(tasksFor('hotfix')).toHaveLength(0);
+      expect(tasksFor('deploy')).toHaveLength(1);
+    });
+
+    it('should run the on_failure step instead of failing the workflow', () => {
+      const sessionId = createSession([
+        createStep('implement', { on_failure: 'fallback', outputs: ['changes'] }),
+        createStep('fallback', { required_agents: ['frontend'], outputs: ['patch'] }),
+        createStep('deploy', { dependencies: ['implement'], required_agents: ['reviewer'] })
+      ]);
+      const branch = jest.fn();
+      sessionManager.on('workflow_branch_taken', branch);
+      sessionManager.startWorkflow(sessionId);
+
+      sessionManager.updateTaskStatus(latestTask('implement').taskId, 'failed', { error: 'build broke' });
+
+      expect(branch).toHaveBeenCalledWith(expect.objectContaining({ step: 'implement', handler: 'fallback' }));
+      expect(latestTask('fallback').delegatee).toBe('codex://frontend');
+      expect(latestTask('fallback').payload.failure.step).toBe('implement');
+      expect(tasksFor('deploy')).toHaveLength(0);
+
+      sessionManager.updateTaskStatus(latestTask('fallback').taskId, 'completed', { patch: 'p' });
+      sessionManager.updateTaskStatus(latestTask('deploy').taskId, 'completed', {});
+
+      const workflow = sessionManager.getSession(sessionId)!.workflow;
+      expect(workflow.status).toBe('completed');
+      expect(workflow.failed_steps).toEqual(['implement']);
+      expect(workflow.completed_steps).toEqual(['fallback', 'deploy']);
+    });
+
+    it('should skip failure handlers that are never needed', () => {
+      const sessionId = createSession([
+        createStep('implement', { on_failure: 'fallback' }),
+        createStep('fallback', { required_agents: ['frontend'] })
+      ]);
+      sessionManager.startWorkflow(sessionId);
+
+      sessionManager.updateTaskStatus(latestTask('implement').taskId, 'completed', {});
+
+      const workflow = sessionManager.getSession(sessionId)!.workflow;
+      expect(workflow.status).toBe('completed');
+      expect(workflow.skipped_steps).toEqual(['fallback']);
+      expect(tasksFor('fallback')).toHaveLength(0);
+    });
+
+    it('should reject loops that do not point back to a dependency', () => {
+      expect(() => WorkflowRunner.validate([
+        createStep('implement'),
+        createStep('review', {
+          loop: { target: 'implement', when: { path: 'outputs.issues' }, max_iterations: 3 }
+        })
+      ])).toThrow('can only loop back to itself or one of its dependencies');
+    });
+  });
+});
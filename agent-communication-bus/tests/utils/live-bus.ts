@@ -0,0 +1,152 @@
+import net from 'net';
+import { BaseAdapter } from '../../src/adapters/base-adapter';
+import { CommunicationBus, CommunicationBusOptions } from '../../src/communication-bus';
+import { StubAgentConnection } from '../../src/transcript-replayer';
+import { AgentMessage, CommunicationBusConfig } from '../../src/types/protocol';
+import { MockDataGenerator } from './mock-generators';
+
+/**
+ * Buses listening on a random port, with stub agents that register and
+ * connect through the same authenticated WebSocket handshake adapters use
+ */
+export class LiveBusHarness {
+  private buses: CommunicationBus[] = [];
+  private connections: StubAgentConnection[] = [];
+
+  async startBus(
+    overrides: Partial<CommunicationBusConfig> = {},
+    options: CommunicationBusOptions = {}
+  ): Promise<CommunicationBus> {
+    const bus = new CommunicationBus(MockDataGenerator.createCommunicationBusConfig({ port: 0, ...overrides }), options);
+    await bus.start();
+    this.buses.push(bus);
+    return bus;
+  }
+
+  /**
+   * Register the agent with its own API key unless it already is, and
+   * connect a stub that answers with `respond`
+   */
+  async connectAgent(
+    bus: CommunicationBus,
+    agentId: string,
+    respond?: (message: AgentMessage) => AgentMessage[]
+  ): Promise<StubAgentConnection> {
+    const apiKey = agentApiKey(agentId);
+    if (!bus.getAgent(agentId)) {
+      await bus.registerAgent(MockDataGenerator.createAgentRegistration({
+        agent_descriptor: MockDataGenerator.createAgentDescriptor({ agent_id: agentId }),
+        authentication: { type: 'api_key', credentials: apiKey }
+      }));
+    }
+    const connection = await StubAgentConnection.connect(bus.getUrl()!, agentId, apiKey, respond);
+    this.connections.push(connection);
+    return connection;
+  }
+
+  /**
+   * Call the bus's REST API with the bus API key, or `apiKey` if given
+   */
+  async http(bus: CommunicationBus, method: string, path: string, body?: any, apiKey = 'test-api-key') {
+    const response = await fetch(`${bus.getUrl()}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'x-agent-api-key': apiKey },
+      ...(body !== undefined && { body: JSON.stringify(body) })
+    });
+    return { status: response.status, body: await response.json() as any };
+  }
+
+  async stopBus(bus: CommunicationBus): Promise<void> {
+    this.buses = this.buses.filter(candidate => candidate !== bus);
+    await bus.stop();
+  }
+
+  async cleanup(): Promise<void> {
+    await Promise.all(this.connections.splice(0).map(connection => connection.close()));
+    await Promise.all(this.buses.splice(0).map(bus => bus.stop()));
+  }
+}
+
+/**
+ * Adapter recording the messages it handles, reconnecting quickly so restart
+ * tests do not wait out the production delay
+ */
+export class RecordingAdapter extends BaseAdapter {
+  received: AgentMessage[] = [];
+
+  constructor(
+    agentId: string,
+    busUrl: string,
+    private handle: (message: AgentMessage) => Promise<void> = async () => undefined
+  ) {
+    super(agentId, busUrl, MockDataGenerator.createAgentDescriptor({ agent_id: agentId }));
+    this.reconnectDelay = 50;
+    this.maxReconnectAttempts = 50;
+    this.setBusApiKey('test-api-key');
+    this.setAgentCredentials(agentApiKey(agentId));
+  }
+
+  /**
+   * Drop the socket without a close handshake, as a network failure would
+   */
+  dropConnection(): void {
+    this.ws?.terminate();
+  }
+
+  protected async handleMessage(message: AgentMessage): Promise<void> {
+    this.received.push(message);
+    await this.handle(message);
+  }
+
+  protected log(): void {}
+}
+
+/**
+ * A port nothing is listening on, for buses that must come back on the same
+ * address after a restart
+ */
+export async function freePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+export function agentApiKey(agentId: string): string {
+  return `key-${agentId}`;
+}
+
+/**
+ * A reply from the message's recipient, correlated with it
+ */
+export function replyTo(message: AgentMessage, messageType: 'task_response' | 'error', payload: any): AgentMessage {
+  return {
+    message_id: `reply-${message.message_id}`,
+    timestamp: new Date().toISOString(),
+    sender: { agent_id: message.recipient.agent_id, framework: 'stub' },
+    recipient: { agent_id: message.sender.agent_id, framework: 'stub' },
+    message_type: messageType,
+    priority: 'medium',
+    payload,
+    routing: { timeout: '30s', retry_policy: { max_retries: 0, backoff: 'linear' }, delivery_mode: 'async' },
+    metadata: {
+      correlation_id: message.message_id,
+      ...(message.metadata?.task_id !== undefined && { task_id: message.metadata.task_id })
+    }
+  };
+}
+
+/**
+ * Poll until the condition holds; messages cross real sockets, so effects
+ * show up a few ticks later
+ */
+export async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Condition not met within ${timeout}ms`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
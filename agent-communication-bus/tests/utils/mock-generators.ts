@@ -74,14 +74,14 @@ export class MockDataGenerator {
   }
 
   static createAgentRegistration(overrides?: Partial<AgentRegistration>): AgentRegistration {
-    const descriptor = this.createAgentDescriptor();
+    const descriptor = overrides?.agent_descriptor ?? this.createAgentDescriptor();
     return {
       agent_descriptor: descriptor,
       health_check_url: `http://localhost:3000/agents/${descriptor.agent_id}/health`,
       status_endpoint: `http://localhost:3000/agents/${descriptor.agent_id}/status`,
       authentication: {
         type: 'api_key',
-        credentials: 'test-api-key'
+        credentials: `key-${descriptor.agent_id}`
       },
       ...overrides
     };
@@ -295,6 +295,7 @@ export class MockDataGenerator {
       confidence_score: 0.88,
       conflicts: [
         {
+          conflict_id: 'conflict_approach',
           type: 'approach_difference',
           agents: ['agent1', 'agent2'],
           description: 'Different coding styles detected',
@@ -312,6 +313,7 @@ export class MockDataGenerator {
       aggregation_id: this.nextId(),
       session_id: this.nextId(),
       task_type: 'code_implementation',
+      status: 'completed',
       agent_results: [
         this.createAgentResult(),
         this.createAgentResult(),
@@ -40,14 +40,15 @@ async function main(): Promise<void> {
         max_retries: 1,
         backoff: 'linear'
       },
-      delivery_mode: 'async'
+      delivery_mode: 'sync'
     },
     metadata: {
       example: 'simple-delegation'
     }
   };
 
-  const response = await fetch(`${BUS_URL}/messages/send`, {
+  // Blocks until OpenCode replies with the correlated task_response (or the routing timeout elapses)
+  const response = await fetch(`${BUS_URL}/messages/request`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -56,8 +57,12 @@ async function main(): Promise<void> {
     body: JSON.stringify(message)
   });
 
-  const data = await response.json();
-  console.log('Message dispatched:', data);
+  const data: any = await response.json();
+  if (!data.success) {
+    throw new Error(data.error || data.response?.payload?.error || `HTTP ${response.status}`);
+  }
+
+  console.log('Review result:', JSON.stringify(data.response.payload.result, null, 2));
 }
 
 main().catch(error => {